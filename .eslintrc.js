@@ -20,6 +20,7 @@ module.exports = {
       '@typescript-eslint/explicit-function-return-type': 'off',
       '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
     },
-    ignorePatterns: ['dist/', 'node_modules/', '*.js'],
+    // .github is a dot-folder, which ESLint skips unless told otherwise
+    ignorePatterns: ['dist/', 'node_modules/', '*.js', '!.github/'],
   };
   
\ No newline at end of file
@@ -0,0 +1,50 @@
+import * as core from '@actions/core';
+import type { GitHubEventPayload } from './types';
+import { getConfig } from './utils/config';
+import { loadRepositoryConfig } from './utils/config-file';
+import { createCore, createHandlerContext, getEnv, writeJobSummary } from './utils/runtime';
+import { backfillPRs, formatBackfillSummary } from './commands/backfill';
+
+/**
+ * Create or reconcile a Discord card for every open PR.
+ * Pass --dry-run (or set BACKFILL_DRY_RUN=true) to only report what would change.
+ */
+async function main(): Promise<void> {
+  const coreWrapper = createCore();
+  const env = getEnv();
+
+  const token = env.GITHUB_TOKEN;
+  if (!token) {
+    coreWrapper.setFailed('GITHUB_TOKEN is required');
+    return;
+  }
+
+  const fileConfig = loadRepositoryConfig(env.DISCORD_CONFIG_FILE);
+  const context = createHandlerContext(token, env, {} as GitHubEventPayload, fileConfig);
+  const config = getConfig(context);
+  if (!config.botToken || !config.channelId) {
+    coreWrapper.setFailed('DISCORD_BOT_TOKEN and DISCORD_CHANNEL_ID secrets must be set');
+    return;
+  }
+  if (config.metadataStore === 'comment' && !config.metadataSecret) {
+    coreWrapper.setFailed('DISCORD_METADATA_SECRET secret must be set');
+    return;
+  }
+
+  const dryRun = process.argv.includes('--dry-run') || process.env.BACKFILL_DRY_RUN === 'true';
+  const result = await backfillPRs(context, coreWrapper, { dryRun });
+
+  coreWrapper.info(
+    `Backfill finished: ${result.created.length} created, ${result.updated.length} updated, ${result.skipped.length} skipped, ${result.failed.length} failed`
+  );
+  await writeJobSummary(formatBackfillSummary(result, dryRun), coreWrapper);
+
+  if (result.failed.length > 0) {
+    coreWrapper.setFailed(`${result.failed.length} PRs failed to backfill`);
+  }
+}
+
+main().catch((error) => {
+  core.setFailed(`Unhandled error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+import type {
+  BackfillResult,
+  Core,
+  DiscordMetadata,
+  GitHubPullRequest,
+  HandlerContext,
+} from '../types';
+import { getMetadataStore } from '../stores/metadata-store';
+import { findPRCard, recoverMetadata } from '../utils/recovery';
+import { buildCardFromPR, createPRCard, updatePRCard } from '../utils/card';
+import { isSameCard } from '../utils/card-state';
+import { findRoute } from '../utils/routing';
+import { getConfig } from '../utils/config';
+
+type BackfillOutcome = 'created' | 'updated' | 'skipped';
+
+/**
+ * Bring an existing card in line with the PR. Returns whether anything changed.
+ */
+async function reconcileCard(
+  context: HandlerContext,
+  pr: GitHubPullRequest,
+  metadata: DiscordMetadata,
+  dryRun: boolean
+): Promise<boolean> {
+  const expected = await buildCardFromPR(context, pr, metadata.card);
+  if (metadata.card && isSameCard(metadata.card, expected)) {
+    return false;
+  }
+  if (!dryRun) {
+    await updatePRCard(context, pr.number, metadata, expected);
+  }
+  return true;
+}
+
+/**
+ * Create, recover or update the card for a single PR
+ */
+async function backfillPR(
+  context: HandlerContext,
+  core: Core,
+  botToken: string,
+  channelId: string,
+  dryRun: boolean
+): Promise<BackfillOutcome> {
+  const pr = context.payload.pull_request;
+  const store = getMetadataStore(context, core);
+  const cardChannelId = findRoute(context, pr)?.channel ?? channelId;
+
+  const stored = await store.get(pr.number);
+  if (stored) {
+    const changed = await reconcileCard(context, pr, stored, dryRun);
+    return changed ? 'updated' : 'skipped';
+  }
+
+  // The card may exist with its metadata lost; reuse it rather than posting a duplicate
+  if (dryRun) {
+    return (await findPRCard(botToken, cardChannelId, pr)) ? 'updated' : 'created';
+  }
+  const recovered = await recoverMetadata(
+    botToken,
+    cardChannelId,
+    pr,
+    getConfig(context).threadArchiveMinutes
+  );
+  if (recovered) {
+    await store.save(pr.number, recovered);
+    await reconcileCard(context, pr, recovered, dryRun);
+    return 'updated';
+  }
+
+  const created = await createPRCard(context, core, cardChannelId);
+  if (!created) {
+    throw new Error('Failed to create the thread');
+  }
+  // The new card only reflects requested reviewers; pick up reviews already submitted
+  await reconcileCard(context, pr, created, dryRun);
+  return 'created';
+}
+
+/**
+ * Create or reconcile a card and thread for every open PR, in its route's channel or
+ * `channelId`. PRs are handled one at a time so the Discord client's rate limiting
+ * applies; with `dryRun` nothing is written.
+ */
+export async function backfillPRs(
+  context: HandlerContext,
+  core: Core,
+  options: { dryRun: boolean }
+): Promise<BackfillResult> {
+  const { botToken, channelId } = getConfig(context);
+  if (!botToken || !channelId) {
+    throw new Error('DISCORD_BOT_TOKEN and DISCORD_CHANNEL_ID must be set');
+  }
+  const result: BackfillResult = { created: [], updated: [], skipped: [], failed: [] };
+  const pulls = (await context.github.paginate(context.github.rest.pulls.list, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    state: 'open',
+    per_page: 100,
+  })) as GitHubPullRequest[];
+  core.info(`Found ${pulls.length} open PRs to backfill`);
+
+  for (const pr of pulls) {
+    // Each PR gets its own context so card helpers see it as the event's pull request
+    const prContext: HandlerContext = { ...context, payload: { action: 'backfill', pull_request: pr } };
+    try {
+      const outcome = await backfillPR(prContext, core, botToken, channelId, options.dryRun);
+      result[outcome].push(pr.number);
+      core.info(`PR #${pr.number}: ${outcome}${options.dryRun ? ' (dry run)' : ''}`);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      result.failed.push({ pr_number: pr.number, error });
+      core.warning(`PR #${pr.number}: failed to backfill: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Markdown summary of a backfill run for the Actions job summary
+ */
+export function formatBackfillSummary(result: BackfillResult, dryRun: boolean): string {
+  const list = (numbers: number[]) =>
+    numbers.length > 0 ? numbers.map((n) => `#${n}`).join(', ') : 'none';
+
+  let summary = `## Discord PR backfill${dryRun ? ' (dry run)' : ''}\n\n`;
+  summary += `| Result | Count | PRs |\n| --- | --- | --- |\n`;
+  summary += `| Created | ${result.created.length} | ${list(result.created)} |\n`;
+  summary += `| Updated | ${result.updated.length} | ${list(result.updated)} |\n`;
+  summary += `| Skipped | ${result.skipped.length} | ${list(result.skipped)} |\n`;
+  summary += `| Failed | ${result.failed.length} | ${list(result.failed.map((f) => f.pr_number))} |\n`;
+
+  if (result.failed.length > 0) {
+    summary += `\n### Failures\n\n`;
+    summary += result.failed.map((f) => `- #${f.pr_number}: ${f.error}`).join('\n') + '\n';
+  }
+  return summary;
+}
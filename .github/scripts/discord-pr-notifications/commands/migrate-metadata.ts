@@ -0,0 +1,39 @@
+import type { Core, MetadataStore, MigrationResult } from '../types';
+
+/**
+ * Copy every metadata entry from one store to another. Entries the target already
+ * has are left alone unless `overwrite` is set; with `dryRun` nothing is written.
+ */
+export async function migrateMetadata(
+  source: MetadataStore,
+  target: MetadataStore,
+  core: Core,
+  options: { dryRun: boolean; overwrite: boolean }
+): Promise<MigrationResult> {
+  const result: MigrationResult = { copied: 0, skipped: 0, failed: 0 };
+  const entries = await source.list();
+  core.info(`Found ${entries.length} metadata entries to migrate`);
+
+  for (const { pr_number: prNumber, metadata } of entries) {
+    try {
+      if (!options.overwrite && (await target.get(prNumber))) {
+        core.info(`PR #${prNumber}: already in target store, skipping`);
+        result.skipped++;
+        continue;
+      }
+
+      if (options.dryRun) {
+        core.info(`PR #${prNumber}: would copy (dry run)`);
+      } else {
+        await target.save(prNumber, metadata);
+        core.info(`PR #${prNumber}: copied`);
+      }
+      result.copied++;
+    } catch (e) {
+      core.warning(`PR #${prNumber}: failed to migrate: ${e instanceof Error ? e.message : String(e)}`);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
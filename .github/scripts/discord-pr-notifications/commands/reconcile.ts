@@ -0,0 +1,219 @@
+import type {
+  Core,
+  DiscordEmbed,
+  DiscordMessagePayload,
+  DiscordMetadata,
+  GitHubPullRequest,
+  HandlerContext,
+  PRCardStatus,
+  ReconcileResult,
+} from '../types';
+import { getMessage, getThread, lockThread, archiveThread } from '../utils/discord';
+import { getLastSuccessfulRunTime, listPullRequests } from '../utils/github';
+import { getMetadataStore } from '../stores/metadata-store';
+import { buildCardFromPR, renderCardForContext, updatePRCard } from '../utils/card';
+import { isSameCard } from '../utils/card-state';
+import { getConfig, shouldLockThread } from '../utils/config';
+
+/**
+ * The parts of an embed the card controls. Discord adds its own fields (type, sizes)
+ * and reformats timestamps, so those are left out of the comparison.
+ */
+function getEmbedSignature(embed: DiscordEmbed) {
+  return {
+    title: embed.title,
+    url: embed.url,
+    description: embed.description?.trimEnd(),
+    color: embed.color,
+    author: embed.author?.name,
+    fields: embed.fields?.map((field) => [field.name, field.value, !!field.inline]),
+    footer: embed.footer?.text,
+  };
+}
+
+/**
+ * Whether a posted message shows what the payload would render
+ */
+export function isMessageInSync(
+  message: { content: string; embeds?: DiscordEmbed[] },
+  expected: DiscordMessagePayload
+): boolean {
+  // Discord trims trailing whitespace from message content
+  if ((message.content || '').trimEnd() !== (expected.content || '').trimEnd()) {
+    return false;
+  }
+  const actual = (message.embeds || []).map(getEmbedSignature);
+  const wanted = (expected.embeds || []).map(getEmbedSignature);
+  return JSON.stringify(actual) === JSON.stringify(wanted);
+}
+
+/**
+ * Lock and archive the thread the way the handlers would have for this status, following
+ * the configured locking policy. Returns a description of each change made.
+ */
+async function reconcileThread(
+  context: HandlerContext,
+  botToken: string,
+  threadId: string,
+  status: PRCardStatus
+): Promise<string[]> {
+  const thread = await getThread(botToken, threadId);
+  const locked = thread.thread_metadata?.locked ?? thread.locked ?? false;
+  const archived = thread.thread_metadata?.archived ?? thread.archived ?? false;
+
+  if (status === 'merged' || status === 'closed') {
+    const lock = shouldLockThread(context, status);
+    if (!archived || locked !== lock) {
+      await archiveThread(botToken, threadId, lock);
+      return ['archived the thread'];
+    }
+  } else if (status === 'approved' && shouldLockThread(context, 'approved')) {
+    if (!locked) {
+      await lockThread(botToken, threadId, true);
+      return ['locked the thread'];
+    }
+  } else if (locked) {
+    // Open threads auto-archive when idle, so only the lock is checked
+    await lockThread(botToken, threadId, false);
+    return ['unlocked the thread'];
+  }
+  return [];
+}
+
+/**
+ * Recompute one PR's card from live GitHub data and repair the card, message and thread
+ */
+async function reconcilePR(
+  context: HandlerContext,
+  botToken: string,
+  prNumber: number,
+  metadata: DiscordMetadata
+): Promise<string[]> {
+  const { data: pr } = (await context.github.rest.pulls.get({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    pull_number: prNumber,
+  })) as { data: GitHubPullRequest };
+  // Card helpers read the pull request from the context, as they would for an event
+  const prContext: HandlerContext = {
+    ...context,
+    payload: { action: 'reconcile', pull_request: pr },
+  };
+
+  const fixes: string[] = [];
+  const expected = await buildCardFromPR(prContext, pr, metadata.card);
+  const message = await getMessage(botToken, metadata.channel_id, metadata.message_id);
+  const cardStale = !metadata.card || !isSameCard(metadata.card, expected);
+  const messageStale = !isMessageInSync(message, renderCardForContext(prContext, expected));
+  if (cardStale || messageStale) {
+    await updatePRCard(prContext, prNumber, metadata, expected);
+    fixes.push(
+      cardStale ? `updated the card (status: ${expected.status})` : 're-rendered the message'
+    );
+  }
+
+  fixes.push(...(await reconcileThread(context, botToken, metadata.thread_id, expected.status)));
+  return fixes;
+}
+
+/**
+ * Whether the card already shows the final state of a merged or closed PR
+ */
+function isFinalCard(metadata: DiscordMetadata, pr: GitHubPullRequest): boolean {
+  if (pr.state !== 'closed') {
+    return false;
+  }
+  return metadata.card?.status === (pr.merged_at ? 'merged' : 'closed');
+}
+
+/**
+ * When the previous reconcile started, from the workflow's scheduled runs, so this one
+ * can skip PRs that haven't changed since. Undefined means reconcile every PR.
+ */
+export async function getReconcileSince(
+  context: HandlerContext,
+  core: Core,
+  workflowRef?: string
+): Promise<string | undefined> {
+  // e.g. owner/repo/.github/workflows/discord-pr-notifications.yaml@refs/heads/main
+  const workflowFile = workflowRef?.split('@')[0].split('/').pop();
+  if (!workflowFile) {
+    return undefined;
+  }
+  try {
+    return (await getLastSuccessfulRunTime(context, workflowFile, 'schedule')) ?? undefined;
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    core.warning(`Could not find the last reconcile, checking every PR: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Repair drift between GitHub and Discord for every PR that has metadata. PRs not updated
+ * since `since`, and closed PRs whose card already shows it, are skipped.
+ */
+export async function reconcileCards(
+  context: HandlerContext,
+  core: Core,
+  options: { since?: string } = {}
+): Promise<ReconcileResult> {
+  const { botToken } = getConfig(context);
+  if (!botToken) {
+    throw new Error('DISCORD_BOT_TOKEN must be set');
+  }
+  const result: ReconcileResult = { checked: 0, skipped: 0, corrected: [], failed: [] };
+  const entries = await getMetadataStore(context, core).list();
+  const pulls = new Map(
+    (await listPullRequests(context, options.since)).map((pr) => [pr.number, pr])
+  );
+  core.info(
+    `Reconciling ${entries.length} PRs with Discord cards` +
+      (options.since ? `, ${pulls.size} PRs updated since ${options.since}` : '')
+  );
+
+  for (const { pr_number: prNumber, metadata } of entries) {
+    const pr = pulls.get(prNumber);
+    if (!pr || isFinalCard(metadata, pr)) {
+      result.skipped++;
+      continue;
+    }
+
+    result.checked++;
+    try {
+      const fixes = await reconcilePR(context, botToken, prNumber, metadata);
+      if (fixes.length > 0) {
+        result.corrected.push({ pr_number: prNumber, fixes });
+        core.info(`PR #${prNumber}: ${fixes.join(', ')}`);
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      result.failed.push({ pr_number: prNumber, error });
+      core.warning(`PR #${prNumber}: failed to reconcile: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Markdown report of a reconcile run for the Actions job summary
+ */
+export function formatReconcileSummary(result: ReconcileResult): string {
+  let summary = `## Discord PR reconcile\n\n`;
+  summary += `Checked ${result.checked} PRs: ${result.corrected.length} corrected, ${result.failed.length} failed.\n`;
+  if (result.skipped > 0) {
+    summary += `Skipped ${result.skipped} PRs that are unchanged or already final.\n`;
+  }
+
+  if (result.corrected.length > 0) {
+    summary += `\n### Corrected\n\n`;
+    summary +=
+      result.corrected.map((c) => `- #${c.pr_number}: ${c.fixes.join(', ')}`).join('\n') + '\n';
+  }
+  if (result.failed.length > 0) {
+    summary += `\n### Failures\n\n`;
+    summary += result.failed.map((f) => `- #${f.pr_number}: ${f.error}`).join('\n') + '\n';
+  }
+  return summary;
+}
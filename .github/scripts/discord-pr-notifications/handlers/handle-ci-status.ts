@@ -0,0 +1,139 @@
+import type { HandlerContext, CIResult, Core, UserMapping } from '../types';
+import { sendThreadMessage, deleteMessage } from '../utils/discord';
+import { getOpenPRsForCommit, getPullRequest } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { mapToDiscord } from '../utils/formatting';
+import { escapeMentions } from '../utils/markdown';
+import { getCardState } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+import { getCIResult } from '../utils/ci';
+import { getConfig } from '../utils/config';
+
+/**
+ * Thread message listing the failed checks
+ */
+function buildFailureMessage(
+  context: HandlerContext,
+  result: CIResult,
+  userMapping: UserMapping
+): string {
+  const pr = context.payload.pull_request;
+  const authorMention = mapToDiscord(pr.user.login, userMapping);
+  const checks = result.failing
+    .map((check) => {
+      const name = escapeMentions(check.name);
+      return check.url ? `- [${name}](<${check.url}>)` : `- ${name}`;
+    })
+    .join('\n');
+  return `:x: ${authorMention} - checks failed on [PR #${pr.number}](${pr.html_url}):\n${checks}`;
+}
+
+/**
+ * Update one PR's card with the CI result, reporting new failures in its thread and
+ * removing the report once checks pass again
+ */
+async function updatePRCIStatus(
+  context: HandlerContext,
+  core: Core,
+  botToken: string,
+  userMapping: UserMapping,
+  result: CIResult
+): Promise<void> {
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning(`No Discord thread found for PR #${prNumber}. Skipping.`);
+    return;
+  }
+
+  const card = getCardState(metadata, pr);
+  const failureReported = !!metadata.ci_failure_message_id;
+  if (card.ci === result.status && (result.status !== 'failure' || failureReported)) {
+    core.info(`CI status of PR #${prNumber} is unchanged (${result.status})`);
+    return;
+  }
+
+  let updatedMetadata = metadata;
+  if (result.status === 'failure' && !failureReported) {
+    const message = await sendThreadMessage(
+      botToken,
+      metadata.thread_id,
+      buildFailureMessage(context, result, userMapping),
+      userMapping
+    );
+    updatedMetadata = { ...metadata, ci_failure_message_id: message.id };
+  } else if (result.status === 'success' && failureReported) {
+    try {
+      await deleteMessage(botToken, metadata.thread_id, metadata.ci_failure_message_id!);
+    } catch (e) {
+      core.warning(
+        `Failed to remove CI failure message: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+    updatedMetadata = { ...metadata };
+    delete updatedMetadata.ci_failure_message_id;
+  }
+
+  try {
+    await updatePRCard(context, prNumber, updatedMetadata, { ...card, ci: result.status });
+  } catch (e) {
+    core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Handle check_suite, check_run and status events by refreshing the CI line on the
+ * card of every open PR whose head is the commit
+ */
+export async function handleCIStatus(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const { check_suite: checkSuite, check_run: checkRun } = context.payload;
+  const sha = checkSuite?.head_sha || checkRun?.head_sha || context.payload.sha;
+  if (!sha) {
+    core.warning('No commit found in payload');
+    return;
+  }
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  // Check payloads list the PRs, except for forks; status payloads never do
+  let prNumbers = (checkSuite || checkRun)?.pull_requests.map((pr) => pr.number) || [];
+  if (prNumbers.length === 0) {
+    prNumbers = await getOpenPRsForCommit(context, sha);
+  }
+  if (prNumbers.length === 0) {
+    core.info(`No open PR has ${sha} as its head, skipping.`);
+    return;
+  }
+
+  const result = await getCIResult(context, sha);
+
+  for (const prNumber of prNumbers) {
+    try {
+      const pr = await getPullRequest(context, prNumber);
+      if (pr.head.sha !== sha) {
+        core.info(`PR #${prNumber} has moved on from ${sha}, skipping.`);
+        continue;
+      }
+      // Card helpers read the pull request from the context, as they would for a PR event
+      const prContext: HandlerContext = {
+        ...context,
+        payload: { ...context.payload, pull_request: pr },
+      };
+      await updatePRCIStatus(prContext, core, botToken, userMapping, result);
+    } catch (e) {
+      core.warning(
+        `Failed to update CI status of PR #${prNumber}: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+}
@@ -1,33 +1,39 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage, lockThread } from '../utils/discord';
-import { getMetadataFromPR, getPRComments, postMetadataMissingComment } from '../utils/github';
-import { replaceStatusLine, mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, lockThread, addReaction } from '../utils/discord';
+import { getPRComments, postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { DISCORD_MESSAGE_LIMIT, formatQuote, mapToDiscord } from '../utils/formatting';
+import { getCardState, setCardStatus } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+import { getMarkdownOptions } from '../utils/markdown';
+import { renderTemplate } from '../utils/templates';
+import { getConfig, isAnnounced, shouldLockThread } from '../utils/config';
 
 export async function handlePRClosed(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping, reactions } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
-  const prUrl = pr.html_url;
   const closer = pr.user.login; // The person who closed it
 
   // Try to get the closing comment from the PR
   let closeComment = '';
+  let closeCommentUrl: string | undefined;
   try {
     const issueComments = await getPRComments(context, prNumber);
-    // Get the most recent comment that might be the closing comment
+    // Get the closer's most recent comment, which might be the closing comment
     // Note: GitHub doesn't always provide a specific "closing comment"
     // This is a best-effort approach
-    if (issueComments.length > 0) {
-      const lastComment = issueComments[issueComments.length - 1];
-      // Only use if it's recent (within last minute) and from the closer
+    const lastComment = [...issueComments].reverse().find((c) => c.user?.login === closer);
+    if (lastComment) {
+      // Only use if it's recent (within last minute)
       const commentTime = new Date(lastComment.created_at);
       const now = new Date();
-      if (now.getTime() - commentTime.getTime() < 60000 && lastComment.user.login === closer) {
+      if (now.getTime() - commentTime.getTime() < 60000) {
         closeComment = lastComment.body || '';
+        closeCommentUrl = lastComment.html_url;
       }
     }
   } catch (e) {
@@ -39,7 +45,7 @@ export async function handlePRClosed(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -51,31 +57,41 @@ export async function handlePRClosed(
     return;
   }
 
-  // Post in thread
-  const closerMention = mapToDiscord(closer, userMapping);
-  let closeMessage = `:closed_book: [PR #${prNumber}](${prUrl}) has been closed by ${closerMention}\n`;
-  if (closeComment && closeComment.trim() !== '') {
-    closeMessage += `> ${closeComment.replace(/\n/g, '\n> ')}\n`;
+  try {
+    await addReaction(botToken, metadata.channel_id, metadata.message_id, reactions.closed);
+  } catch (e) {
+    core.warning(`Failed to add reaction: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  await sendThreadMessage(botToken, metadata.thread_id, closeMessage);
+  // Post in thread
+  if (isAnnounced(context, 'closed')) {
+    const values = { closer: mapToDiscord(closer, userMapping), comment: '' };
+    if (closeComment && closeComment.trim() !== '') {
+      const budget = DISCORD_MESSAGE_LIMIT - renderTemplate(context, 'closed', values).length - 1;
+      const markdown = getMarkdownOptions(context, userMapping);
+      values.comment = `${formatQuote(closeComment, budget, closeCommentUrl, markdown)}\n`;
+    }
+    await sendThreadMessage(
+      botToken,
+      metadata.thread_id,
+      renderTemplate(context, 'closed', values),
+      userMapping
+    );
+  }
 
   // Lock the thread
-  try {
-    await lockThread(botToken, metadata.thread_id, true);
-  } catch (e) {
-    core.warning(`Failed to lock thread: ${e instanceof Error ? e.message : String(e)}`);
+  if (shouldLockThread(context, 'closed')) {
+    try {
+      await lockThread(botToken, metadata.thread_id, true);
+    } catch (e) {
+      core.warning(`Failed to lock thread: ${e instanceof Error ? e.message : String(e)}`);
+    }
   }
 
   // Update parent message status
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = replaceStatusLine(
-      messageData.content,
-      `:closed_book: Closed by ${closerMention}`
-    );
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+    const card = setCardStatus(getCardState(metadata, pr), 'closed', closer);
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
@@ -0,0 +1,62 @@
+import type { HandlerContext, Core } from '../types';
+import { getPullRequest } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { getMarkdownOptions } from '../utils/markdown';
+import {
+  formatConversationComment,
+  isBotComment,
+  isMirroringEnabled,
+  mirrorComment,
+} from '../utils/comments';
+import { getConfig } from '../utils/config';
+
+export async function handlePRComment(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const issue = context.payload.issue;
+  const comment = context.payload.comment;
+  if (!issue?.pull_request || !comment) {
+    core.info('Comment is not on a pull request, skipping.');
+    return;
+  }
+
+  if (!isMirroringEnabled(context, 'conversation')) {
+    core.info('Mirroring conversation comments is disabled, skipping.');
+    return;
+  }
+
+  if (isBotComment(context, comment)) {
+    core.info('Comment was written by a bot, skipping.');
+    return;
+  }
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  // issue_comment events don't carry the pull request, which the card helpers need
+  const pr = await getPullRequest(context, issue.number);
+  const prContext: HandlerContext = {
+    ...context,
+    payload: { ...context.payload, pull_request: pr },
+  };
+
+  const metadata = await resolveMetadata(prContext, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    return;
+  }
+
+  await mirrorComment(
+    prContext,
+    core,
+    pr.number,
+    metadata,
+    `conversation:${comment.id}`,
+    formatConversationComment(comment, getMarkdownOptions(prContext, userMapping))
+  );
+}
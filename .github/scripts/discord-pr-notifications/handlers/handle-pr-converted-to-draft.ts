@@ -0,0 +1,62 @@
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, lockThread } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { getConfig, isAnnounced } from '../utils/config';
+import { getCardState, setCardStatus } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+
+export async function handlePRConvertedToDraft(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    try {
+      await postMetadataMissingComment(context, prNumber);
+    } catch (e) {
+      core.warning(`Failed to comment in PR: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+
+  // Put the DRAFT marker back on the parent message
+  let wasApproved = false;
+  try {
+    const card = getCardState(metadata, pr);
+    wasApproved = card.status === 'approved';
+    await updatePRCard(context, prNumber, metadata, setCardStatus(card, 'draft'));
+  } catch (e) {
+    core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Approved threads are locked; the author will need it open while drafting
+  if (wasApproved) {
+    try {
+      await lockThread(botToken, metadata.thread_id, false);
+    } catch (e) {
+      core.warning(`Failed to unlock thread: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // Post in thread
+  if (!isAnnounced(context, 'converted_to_draft')) {
+    return;
+  }
+  let draftMessage = ':pencil: This PR has been converted back to a draft.';
+  if (getConfig(context).muteDraftMentions) {
+    draftMessage += ' Reviewers will not be pinged until it is ready for review again.';
+  }
+  await sendThreadMessage(botToken, metadata.thread_id, draftMessage, userMapping);
+}
@@ -0,0 +1,88 @@
+import type { HandlerContext, Core, GitHubPRChanges, GitHubPullRequest } from '../types';
+import { sendThreadMessage, modifyChannel } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { getConfig } from '../utils/config';
+import { getCardState, setCardDescription } from '../utils/card-state';
+import { getThreadName, refreshReviewState, updatePRCard } from '../utils/card';
+import { escapeMentions } from '../utils/markdown';
+
+/**
+ * Thread note describing what was edited, e.g. the old and new title as a diff
+ */
+function buildEditNote(pr: GitHubPullRequest, changes: GitHubPRChanges): string {
+  const lines: string[] = [];
+  if (changes.title) {
+    const from = escapeMentions(changes.title.from);
+    const to = escapeMentions(pr.title);
+    lines.push(`:pencil2: Title changed:\n\`\`\`diff\n- ${from}\n+ ${to}\n\`\`\``);
+  }
+  if (changes.body) {
+    lines.push(':pencil2: Description updated');
+  }
+  if (changes.base) {
+    lines.push(
+      `:twisted_rightwards_arrows: Base branch changed from \`${changes.base.ref.from}\` to \`${pr.base.ref}\``
+    );
+  }
+  return lines.join('\n');
+}
+
+export async function handlePREdited(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+  const changes = context.payload.changes || {};
+
+  if (!changes.title && !changes.body && !changes.base) {
+    core.info('No title, description or base branch change. Skipping.');
+    return;
+  }
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    try {
+      await postMetadataMissingComment(context, prNumber);
+    } catch (e) {
+      core.warning(`Failed to comment in PR: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+
+  // Update the header, description and branch line of the parent message
+  try {
+    let card = setCardDescription(
+      { ...getCardState(metadata, pr), title: pr.title, base_branch: pr.base.ref },
+      pr.body
+    );
+    if (changes.base) {
+      // The new base branch may require a different number of approvals
+      card = await refreshReviewState(context, card, pr);
+    }
+    await updatePRCard(context, prNumber, metadata, card);
+  } catch (e) {
+    core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (changes.title) {
+    try {
+      await modifyChannel(botToken, metadata.thread_id, { name: getThreadName(pr) });
+    } catch (e) {
+      core.warning(`Failed to rename thread: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (getConfig(context).announceEdits) {
+    await sendThreadMessage(botToken, metadata.thread_id, buildEditNote(pr, changes), userMapping);
+  }
+}
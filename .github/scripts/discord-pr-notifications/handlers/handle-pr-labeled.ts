@@ -0,0 +1,73 @@
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { getConfig, findLabelRule } from '../utils/config';
+import { isEscalationEnabled, isHotfixLabel, pingOperations } from '../utils/escalation';
+import { getCardState } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+
+/**
+ * Handle labeled and unlabeled events: refresh the card's label badges and, when a
+ * label with a rule is added, post the rule's notice. Adding the hotfix label pings
+ * the operations role.
+ */
+export async function handlePRLabeled(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+  const label = context.payload.label?.name;
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    try {
+      await postMetadataMissingComment(context, prNumber);
+    } catch (e) {
+      core.warning(`Failed to comment in PR: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+
+  // The payload carries the PR's full label list after the change
+  try {
+    const card = { ...getCardState(metadata, pr), labels: (pr.labels || []).map((l) => l.name) };
+    await updatePRCard(context, prNumber, metadata, card);
+  } catch (e) {
+    core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!label || context.payload.action !== 'labeled') {
+    return;
+  }
+  const rule = findLabelRule(context, label);
+  const hotfix = isEscalationEnabled(context, 'hotfix') && isHotfixLabel(context, label);
+  if (!rule && !hotfix) {
+    return;
+  }
+
+  const notice = rule?.notice || `:label: This PR has been labeled \`${label}\`.`;
+  if (!rule?.pingOperations && !hotfix) {
+    await sendThreadMessage(botToken, metadata.thread_id, notice, userMapping);
+    return;
+  }
+
+  const message = pingOperations(context, notice);
+  if (!message && rule?.pingOperations) {
+    core.warning(
+      `Label rule for "${rule.label}" pings operations, but DISCORD_OPERATIONS_ROLE_ID is not set`
+    );
+  } else if (!message) {
+    core.info('Skipping operations escalation: DISCORD_OPERATIONS_ROLE_ID is not set');
+  }
+  await sendThreadMessage(botToken, metadata.thread_id, message || notice, userMapping);
+}
@@ -1,20 +1,23 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage, addReaction, archiveThread } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment } from '../utils/github';
-import { replaceStatusLine, mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, addReaction, archiveThread } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { DISCORD_MESSAGE_LIMIT, formatQuote } from '../utils/formatting';
+import { getCardState, setCardStatus } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+import { escalate, isEscalationEnabled } from '../utils/escalation';
+import { renderTemplate } from '../utils/templates';
+import { getConfig, isAnnounced, shouldLockThread } from '../utils/config';
 
 export async function handlePRMerged(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
   const prUrl = pr.html_url;
   const baseBranch = pr.base.ref;
-  const author = pr.user.login;
-  const merger = pr.merged_by ? pr.merged_by.login : 'unknown';
   const mergeCommitSha = pr.merge_commit_sha;
 
   if (!botToken) {
@@ -37,7 +40,7 @@ export async function handlePRMerged(
     }
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata) {
     core.warning('No Discord metadata found for this PR. Skipping.');
@@ -51,27 +54,43 @@ export async function handlePRMerged(
 
   // Add celebration emoji reaction
   try {
-    await addReaction(botToken, metadata.channel_id, metadata.message_id, '🎉');
+    await addReaction(botToken, metadata.channel_id, metadata.message_id, getConfig(context).reactions.merged);
   } catch (e) {
     core.warning(`Failed to add reaction: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  // Build merge message
-  const authorMention = mapToDiscord(author, userMapping);
-  const mergerMention = mapToDiscord(merger, userMapping);
-  let mergeNotification = `:tada: ${authorMention} - [PR #${prNumber}](${prUrl}) has been merged into \`${baseBranch}\`\n\n`;
+  // Build merge message, quoting the commit message in whatever room the template leaves
+  const values = { base: baseBranch, commit_message: '' };
   if (mergeMessage) {
-    mergeNotification += `> ${mergeMessage}\n\n`;
+    const budget = DISCORD_MESSAGE_LIMIT - renderTemplate(context, 'merged', values).length - 2;
+    values.commit_message = `${formatQuote(mergeMessage, budget)}\n\n`;
   }
-  mergeNotification += `Remember to delete associative branch if it is no longer needed!`;
+  const mergeNotification = renderTemplate(context, 'merged', values);
 
   // Post in thread
   if (metadata.thread_id) {
-    await sendThreadMessage(botToken, metadata.thread_id, mergeNotification);
+    if (isAnnounced(context, 'merged')) {
+      await sendThreadMessage(botToken, metadata.thread_id, mergeNotification, userMapping);
+    }
+
+    const defaultBranch = context.payload.repository?.default_branch;
+    if (isEscalationEnabled(context, 'default_branch_merge') && baseBranch === defaultBranch) {
+      try {
+        await escalate(
+          context,
+          core,
+          botToken,
+          metadata.thread_id,
+          `:rotating_light: [PR #${prNumber}](${prUrl}) was merged into the default branch \`${baseBranch}\`.`
+        );
+      } catch (e) {
+        core.warning(`Failed to escalate: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
 
-    // Archive and lock the thread
+    // Archive the thread, locking it unless the config leaves merged threads open
     try {
-      await archiveThread(botToken, metadata.thread_id);
+      await archiveThread(botToken, metadata.thread_id, shouldLockThread(context, 'merged'));
     } catch (e) {
       core.warning(`Failed to archive thread: ${e instanceof Error ? e.message : String(e)}`);
     }
@@ -79,13 +98,8 @@ export async function handlePRMerged(
 
   // Update parent message status
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = replaceStatusLine(
-      messageData.content,
-      `:tada: Merged by ${mergerMention}`
-    );
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+    const card = setCardStatus(getCardState(metadata, pr), 'merged', pr.merged_by?.login);
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
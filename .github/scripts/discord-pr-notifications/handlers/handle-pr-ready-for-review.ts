@@ -1,14 +1,17 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment } from '../utils/github';
-import { replaceStatusLine } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, lockThread } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { applyReviewVerdicts, getCardState, setCardStatus } from '../utils/card-state';
+import { refreshReviewState, updatePRCard } from '../utils/card';
+import { renderTemplate } from '../utils/templates';
+import { getConfig, isAnnounced, shouldLockThread } from '../utils/config';
 
 export async function handlePRReadyForReview(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  _userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
 
@@ -17,7 +20,7 @@ export async function handlePRReadyForReview(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -29,19 +32,42 @@ export async function handlePRReadyForReview(
     return;
   }
 
-  // Remove DRAFT marker from parent message
+  // Replace the DRAFT marker with the status from the PR's reviews, which may have approved
+  // it or requested changes before it went back to draft
+  let card = setCardStatus(getCardState(metadata, pr), 'ready_for_review');
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = replaceStatusLine(
-      messageData.content,
-      ':eyes: Ready for Review'
+    card = await refreshReviewState(context, card, pr);
+  } catch (e) {
+    core.warning(
+      `Failed to fetch reviews, using stored review state: ${e instanceof Error ? e.message : String(e)}`
     );
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+    card = applyReviewVerdicts(card, card.verdicts, {
+      requestedLogins: (pr.requested_reviewers || []).map((r) => r.login),
+      requiredApprovals: card.required_approvals ?? 1,
+    });
+  }
+  try {
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
 
+  // Converting to draft unlocked an approved thread; lock it again
+  if (card.status === 'approved' && shouldLockThread(context, 'approved')) {
+    try {
+      await lockThread(botToken, metadata.thread_id, true);
+    } catch (e) {
+      core.warning(`Failed to lock thread: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
   // Post in thread
-  await sendThreadMessage(botToken, metadata.thread_id, ':eyes: This PR is now ready for review!');
+  if (isAnnounced(context, 'ready')) {
+    await sendThreadMessage(
+      botToken,
+      metadata.thread_id,
+      renderTemplate(context, 'ready'),
+      userMapping
+    );
+  }
 }
@@ -0,0 +1,79 @@
+import type { HandlerContext, Core, PRCardStatus } from '../types';
+import { sendThreadMessage, lockThread, unarchiveThread, removeReaction } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { mapToDiscord } from '../utils/formatting';
+import { getCardState } from '../utils/card-state';
+import { buildCardFromPR, updatePRCard } from '../utils/card';
+import { getConfig, isAnnounced, shouldLockThread } from '../utils/config';
+
+export async function handlePRReopened(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping, reactions } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+  const prUrl = pr.html_url;
+  const reopener = context.payload.sender?.login || pr.user.login;
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    try {
+      await postMetadataMissingComment(context, prNumber);
+    } catch (e) {
+      core.warning(`Failed to comment in PR: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+
+  // Revive the thread before posting in it
+  try {
+    await unarchiveThread(botToken, metadata.thread_id);
+  } catch (e) {
+    core.warning(`Failed to unarchive thread: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  try {
+    await removeReaction(botToken, metadata.channel_id, metadata.message_id, reactions.closed);
+  } catch (e) {
+    core.warning(`Failed to remove reaction: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Restore the draft or review status from the PR's current reviews
+  let status: PRCardStatus = pr.draft ? 'draft' : 'ready_for_review';
+  try {
+    const card = await buildCardFromPR(context, pr, getCardState(metadata, pr));
+    status = card.status;
+    await updatePRCard(context, prNumber, metadata, card);
+  } catch (e) {
+    core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Post in thread, pinging the reviewers still awaited
+  if (isAnnounced(context, 'reopened')) {
+    const reopenerMention = mapToDiscord(reopener, userMapping);
+    let reopenMessage = `:recycle: [PR #${prNumber}](${prUrl}) has been reopened by ${reopenerMention}`;
+    const reviewers = (pr.requested_reviewers || []).map((r) => mapToDiscord(r.login, userMapping));
+    if (!pr.draft && reviewers.length > 0) {
+      reopenMessage += `\n\n:bellhop: ${reviewers.join(', ')} - your review is still requested`;
+    }
+    await sendThreadMessage(botToken, metadata.thread_id, reopenMessage, userMapping);
+  }
+
+  // An approved PR's thread stays locked, as it was before it was closed
+  if (status === 'approved' && shouldLockThread(context, 'approved')) {
+    try {
+      await lockThread(botToken, metadata.thread_id, true);
+    } catch (e) {
+      core.warning(`Failed to lock thread: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
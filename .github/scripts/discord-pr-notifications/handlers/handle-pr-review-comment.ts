@@ -0,0 +1,54 @@
+import type { HandlerContext, Core, GitHubReviewComment } from '../types';
+import { resolveMetadata } from '../utils/recovery';
+import { getMarkdownOptions } from '../utils/markdown';
+import {
+  formatReviewComment,
+  isBotComment,
+  isMirroringEnabled,
+  mirrorComment,
+} from '../utils/comments';
+import { getConfig } from '../utils/config';
+
+export async function handlePRReviewComment(
+  context: HandlerContext,
+  core: Core
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const comment = context.payload.comment as GitHubReviewComment | undefined;
+  if (!comment) {
+    core.warning('No review comment found in payload');
+    return;
+  }
+
+  if (!isMirroringEnabled(context, 'review_comment')) {
+    core.info('Mirroring review comments is disabled, skipping.');
+    return;
+  }
+
+  if (isBotComment(context, comment)) {
+    core.info('Comment was written by a bot, skipping.');
+    return;
+  }
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    return;
+  }
+
+  await mirrorComment(
+    context,
+    core,
+    pr.number,
+    metadata,
+    `review_comment:${comment.id}`,
+    formatReviewComment(comment, getMarkdownOptions(context, userMapping))
+  );
+}
@@ -1,14 +1,70 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage, addReaction, removeReaction, lockThread } from '../utils/discord';
-import { getMetadataFromPR, getReviewDetails, postMetadataMissingComment } from '../utils/github';
-import { mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core, TemplateName } from '../types';
+import { sendThreadMessage, addReaction, removeReaction, lockThread } from '../utils/discord';
+import { getReviewDetails, postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import {
+  DISCORD_MESSAGE_LIMIT,
+  formatQuote,
+  mapToDiscord,
+  getApprovalSummary,
+} from '../utils/formatting';
+import { applyReviewVerdicts, getCardState } from '../utils/card-state';
+import { refreshReviewState, updatePRCard } from '../utils/card';
+import { formatReviewSummary, isMirroringEnabled, mirrorComment } from '../utils/comments';
+import { getMarkdownOptions } from '../utils/markdown';
+import { renderTemplate } from '../utils/templates';
+import { getConfig, isAnnounced, shouldLockThread } from '../utils/config';
+
+/**
+ * Copy a comment-only review's summary into the thread. Its inline comments arrive as
+ * separate review comment events.
+ */
+async function mirrorCommentReview(
+  context: HandlerContext,
+  core: Core,
+  reviewBody: string
+): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
+  const pr = context.payload.pull_request;
+  const review = context.payload.review!;
+
+  if (!isMirroringEnabled(context, 'review') || reviewBody.trim() === '') {
+    core.info('Review is just a comment, skipping.');
+    return;
+  }
+
+  if (!botToken) {
+    core.setFailed('DISCORD_BOT_TOKEN secret must be set');
+    return;
+  }
+
+  const metadata = await resolveMetadata(context, core);
+
+  if (!metadata || !metadata.thread_id) {
+    core.warning('No Discord thread found for this PR. Skipping.');
+    return;
+  }
+
+  await mirrorComment(
+    context,
+    core,
+    pr.number,
+    metadata,
+    `review:${review.id}`,
+    formatReviewSummary(
+      review.user.login,
+      reviewBody,
+      review.html_url,
+      getMarkdownOptions(context, userMapping)
+    )
+  );
+}
 
 export async function handlePRReview(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const review = context.payload.review;
   if (!review) {
@@ -17,7 +73,6 @@ export async function handlePRReview(
   }
 
   const prNumber = pr.number;
-  const author = pr.user.login;
   const reviewer = review.user.login;
   const reviewState = review.state; // 'approved', 'changes_requested', or 'commented'
 
@@ -34,9 +89,15 @@ export async function handlePRReview(
     }
   }
 
-  // Skip if it's just a comment (not approval or changes requested)
+  // Comment-only reviews don't change the card; their summary may be mirrored
   if (reviewState === 'commented') {
-    core.info('Review is just a comment, skipping.');
+    await mirrorCommentReview(context, core, reviewBody);
+    return;
+  }
+
+  // Editing an approval or change request's summary doesn't repeat the verdict
+  if (context.payload.action === 'edited') {
+    core.info('Only comment-only review edits are mirrored, skipping.');
     return;
   }
 
@@ -45,7 +106,7 @@ export async function handlePRReview(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata) {
     core.warning('No Discord metadata found for this PR. Skipping.');
@@ -57,65 +118,76 @@ export async function handlePRReview(
     return;
   }
 
-  // Determine emoji and status text based on review state
-  let emoji = '';
-  if (reviewState === 'approved') {
-    emoji = '✅';
-  } else if (reviewState === 'changes_requested') {
-    emoji = '❌';
+  // Aggregate every reviewer's latest review rather than trusting this one alone
+  const verdict = reviewState === 'approved' ? 'approved' : 'changes_requested';
+  let card = getCardState(metadata, pr);
+  try {
+    card = await refreshReviewState(context, card, pr, reviewer);
+  } catch (e) {
+    core.warning(
+      `Failed to fetch reviews, using stored review state: ${e instanceof Error ? e.message : String(e)}`
+    );
+    card = applyReviewVerdicts(
+      card,
+      { ...card.verdicts, [reviewer]: verdict },
+      {
+        requestedLogins: (pr.requested_reviewers || []).map((r) => r.login),
+        requiredApprovals: card.required_approvals ?? 1,
+        actor: reviewer,
+      }
+    );
   }
 
-  // Remove existing reactions before adding new one (mutually exclusive)
-  if (emoji) {
-    // Remove opposite reaction if present
-    if (reviewState === 'approved') {
-      // Remove ❌ if present
-      try {
-        await removeReaction(botToken, metadata.channel_id, metadata.message_id, '❌');
-      } catch (e) {
-        // Reaction might not exist, that's okay
-      }
-    } else if (reviewState === 'changes_requested') {
-      // Remove ✅ if present
-      try {
-        await removeReaction(botToken, metadata.channel_id, metadata.message_id, '✅');
-      } catch (e) {
-        // Reaction might not exist, that's okay
-      }
+  // Reactions reflect the combined review status and are mutually exclusive
+  const { approved, changes_requested } = getConfig(context).reactions;
+  const reactions: { [status: string]: string } = { approved, changes_requested };
+  for (const [status, emoji] of Object.entries(reactions)) {
+    if (status === card.status) {
+      continue;
+    }
+    try {
+      await removeReaction(botToken, metadata.channel_id, metadata.message_id, emoji);
+    } catch (e) {
+      // Reaction might not exist, that's okay
     }
-
-    // Add new reaction
-    await addReaction(botToken, metadata.channel_id, metadata.message_id, emoji);
+  }
+  if (reactions[card.status]) {
+    await addReaction(botToken, metadata.channel_id, metadata.message_id, reactions[card.status]);
   }
 
   // Build review message for thread
   const reviewerMention = mapToDiscord(reviewer, userMapping);
-  const authorMention = mapToDiscord(author, userMapping);
 
   core.info(`Review body from payload: ${review.body || '(empty)'}`);
   core.info(`Review body after fetch: ${reviewBody || '(empty)'}`);
 
-  let reviewMessage = '';
+  let templateName: TemplateName = 'changes_requested';
   if (reviewState === 'approved') {
-    reviewMessage = `:white_check_mark: ${authorMention} - ${reviewerMention} has approved the PR\n`;
-    if (reviewBody && reviewBody.trim() !== '') {
-      reviewMessage += `> ${reviewBody.replace(/\n/g, '\n> ')}\n\n`;
-    }
-    reviewMessage += `Feel free to merge if all other conditions have been met`;
-  } else if (reviewState === 'changes_requested') {
-    reviewMessage = `:tools: ${authorMention} - changes have been requested by ${reviewerMention}.\n`;
-    if (reviewBody && reviewBody.trim() !== '') {
-      reviewMessage += `> ${reviewBody.replace(/\n/g, '\n> ')}\n\n`;
+    if (card.status === 'approved') {
+      templateName = 'approved';
+    } else if (card.status === 'changes_requested') {
+      templateName = 'approved_changes_pending';
+    } else {
+      templateName = 'approved_more_needed';
     }
-    reviewMessage += `Please resolve them and re-request a review.`;
   }
 
+  const values = { reviewer: reviewerMention, approvals: getApprovalSummary(card), review: '' };
+  if (reviewBody && reviewBody.trim() !== '') {
+    const budget = DISCORD_MESSAGE_LIMIT - renderTemplate(context, templateName, values).length - 2;
+    const markdown = getMarkdownOptions(context, userMapping);
+    values.review = `${formatQuote(reviewBody, budget, review.html_url, markdown)}\n\n`;
+  }
+  const reviewMessage = renderTemplate(context, templateName, values);
+
   // Post in thread
   if (metadata.thread_id) {
-    await sendThreadMessage(botToken, metadata.thread_id, reviewMessage);
+    if (isAnnounced(context, 'review')) {
+      await sendThreadMessage(botToken, metadata.thread_id, reviewMessage, userMapping);
+    }
 
-    // Lock thread if approved
-    if (reviewState === 'approved') {
+    // Lock thread only once the PR is approved overall
+    if (card.status === 'approved' && shouldLockThread(context, 'approved')) {
       try {
         await lockThread(botToken, metadata.thread_id, true);
       } catch (e) {
@@ -126,57 +198,7 @@ export async function handlePRReview(
 
   // Update parent message with review status
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    let content = messageData.content;
-
-    // Process lines and update status - remove approval/changes lines, only keep Status
-    const lines = content.split('\n');
-    let newLines: string[] = [];
-    let statusLineFound = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Update status line if found
-      if (line.startsWith('**Status**:')) {
-        if (reviewState === 'approved') {
-          newLines.push(`**Status**: :white_check_mark: Approved by ${reviewerMention}`);
-        } else if (reviewState === 'changes_requested') {
-          newLines.push(`**Status**: :tools: Changes Requested by ${reviewerMention}`);
-        } else {
-          newLines.push(line); // Keep original if unknown state
-        }
-        statusLineFound = true;
-      } else {
-        newLines.push(line);
-      }
-    }
-
-    // If no status line was found, add it after Reviewers
-    if (!statusLineFound) {
-      const reviewersIndex = newLines.findIndex(
-        (line) => line.includes('Reviewers:') || line.includes('WARNING::No reviewers assigned')
-      );
-      if (reviewersIndex >= 0) {
-        newLines.splice(
-          reviewersIndex + 1,
-          0,
-          reviewState === 'approved'
-            ? `**Status**: :white_check_mark: Approved by ${reviewerMention}`
-            : `**Status**: :tools: Changes Requested by ${reviewerMention}`
-        );
-      } else {
-        newLines.push(
-          reviewState === 'approved'
-            ? `**Status**: :white_check_mark: Approved by ${reviewerMention}`
-            : `**Status**: :tools: Changes Requested by ${reviewerMention}`
-        );
-      }
-    }
-
-    content = newLines.join('\n');
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, content);
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
@@ -1,14 +1,18 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage, lockThread } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment, requestReviewers } from '../utils/github';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, lockThread } from '../utils/discord';
+import { postMetadataMissingComment, requestReviewers } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
 import { mapToDiscord } from '../utils/formatting';
+import { getCardState, setCardStatus } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+import { renderTemplate } from '../utils/templates';
+import { getConfig, isAnnounced } from '../utils/config';
 
 export async function handlePRSynchronize(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
 
@@ -17,7 +21,7 @@ export async function handlePRSynchronize(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -29,18 +33,15 @@ export async function handlePRSynchronize(
     return;
   }
 
-  // Check if PR was previously approved by reading Discord message
+  // Check if PR was previously approved from the stored card state
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const content = messageData.content;
+    const card = getCardState(metadata, pr);
 
-    // Check if status is "Approved"
-    const isApproved = content.includes('**Status**: :white_check_mark: Approved');
-
-    if (isApproved) {
-      // Get current reviewers
-      const allReviewers = pr.requested_reviewers || [];
-      const allReviewerLogins = allReviewers.map((r) => r.login);
+    if (card.status === 'approved') {
+      // Reviewers who already approved are no longer requested on GitHub, so take them from the card
+      const allReviewerLogins = [
+        ...new Set([...card.reviewers, ...(pr.requested_reviewers || []).map((r) => r.login)]),
+      ];
 
       // Unlock thread if it was locked
       try {
@@ -49,33 +50,38 @@ export async function handlePRSynchronize(
         core.warning(`Failed to unlock thread: ${e instanceof Error ? e.message : String(e)}`);
       }
 
-      // Update status to "In Review"
-      const lines = content.split('\n');
-      const newLines = lines.map((line) => {
-        if (line.startsWith('**Status**:')) {
-          return '**Status**: :eyes: Ready for Review';
-        }
-        return line;
-      });
-
-      const updatedContent = newLines.join('\n');
-
-      await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+      // Update status to "In Review"; approvals are stale once new commits land
+      const verdicts = Object.fromEntries(
+        Object.entries(card.verdicts).map(([login, verdict]) => [
+          login,
+          verdict === 'approved' ? 'pending' : verdict,
+        ])
+      ) as typeof card.verdicts;
+      await updatePRCard(
+        context,
+        prNumber,
+        metadata,
+        setCardStatus({ ...card, verdicts }, 'ready_for_review')
+      );
 
       // Post in thread to notify reviewers
-      if (allReviewerLogins.length > 0) {
-        const reviewerMentions = allReviewerLogins.map((login) => mapToDiscord(login, userMapping)).join(' ');
-        await sendThreadMessage(
-          botToken,
-          metadata.thread_id,
-          `⚠️ New commits have been pushed to this PR. ${reviewerMentions} Please review the updates.`
-        );
-      } else {
-        await sendThreadMessage(
-          botToken,
-          metadata.thread_id,
-          '⚠️ New commits have been pushed to this PR. Please add reviewers if needed.'
-        );
+      if (isAnnounced(context, 'synchronize')) {
+        if (allReviewerLogins.length > 0) {
+          const reviewerMentions = allReviewerLogins.map((login) => mapToDiscord(login, userMapping)).join(' ');
+          await sendThreadMessage(
+            botToken,
+            metadata.thread_id,
+            renderTemplate(context, 'synchronize', { reviewers: reviewerMentions }),
+            userMapping
+          );
+        } else {
+          await sendThreadMessage(
+            botToken,
+            metadata.thread_id,
+            renderTemplate(context, 'synchronize_no_reviewers'),
+            userMapping
+          );
+        }
       }
 
       // Re-request reviews
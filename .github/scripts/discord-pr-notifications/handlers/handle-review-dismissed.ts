@@ -1,14 +1,18 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment } from '../utils/github';
-import { replaceStatusLine, mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { mentionReviewer } from '../utils/formatting';
+import { getConfig, areReviewerMentionsMuted, isAnnounced } from '../utils/config';
+import { applyReviewVerdicts, getCardState } from '../utils/card-state';
+import { refreshReviewState, updatePRCard } from '../utils/card';
+import { renderTemplate } from '../utils/templates';
 
 export async function handleReviewDismissed(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const review = context.payload.review;
   if (!review) {
@@ -31,7 +35,7 @@ export async function handleReviewDismissed(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -44,19 +48,35 @@ export async function handleReviewDismissed(
   }
 
   // Post in thread to notify the reviewer
-  const reviewerMention = mapToDiscord(reviewer, userMapping);
-  await sendThreadMessage(
-    botToken,
-    metadata.thread_id,
-    `✅ ${reviewerMention} The requested changes have been addressed. Please review the updates.`
-  );
-
-  // Update parent message status to "In Review"
-  try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = replaceStatusLine(messageData.content, ':eyes: Ready for Review');
+  if (isAnnounced(context, 'dismissed')) {
+    const reviewerMention = mentionReviewer(reviewer, userMapping, areReviewerMentionsMuted(context));
+    await sendThreadMessage(
+      botToken,
+      metadata.thread_id,
+      renderTemplate(context, 'dismissed', { reviewer: reviewerMention }),
+      userMapping
+    );
+  }
 
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+  // Update parent message status from the remaining reviews
+  try {
+    let card = getCardState(metadata, pr);
+    try {
+      card = await refreshReviewState(context, card, pr);
+    } catch (e) {
+      core.warning(
+        `Failed to fetch reviews, using stored review state: ${e instanceof Error ? e.message : String(e)}`
+      );
+      card = applyReviewVerdicts(
+        card,
+        { ...card.verdicts, [reviewer]: 'dismissed' },
+        {
+          requestedLogins: (pr.requested_reviewers || []).map((r) => r.login),
+          requiredApprovals: card.required_approvals ?? 1,
+        }
+      );
+    }
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
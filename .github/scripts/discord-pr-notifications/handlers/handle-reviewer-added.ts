@@ -1,17 +1,20 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment } from '../utils/github';
-import { updateReviewersLine, mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { mentionReviewer } from '../utils/formatting';
+import { getConfig, areReviewerMentionsMuted, isAnnounced } from '../utils/config';
+import { getCardState, setCardReviewers } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
+import { renderTemplate } from '../utils/templates';
 
 export async function handleReviewerAdded(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
-  const prUrl = pr.html_url;
 
   // Get ALL current reviewers from PR (not just the one that triggered the event)
   const allReviewers = pr.requested_reviewers || [];
@@ -26,7 +29,7 @@ export async function handleReviewerAdded(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -39,21 +42,20 @@ export async function handleReviewerAdded(
   }
 
   // Post in thread for the newly added reviewer(s)
-  if (reviewerLogin) {
-    const reviewerMention = mapToDiscord(reviewerLogin, userMapping);
+  if (reviewerLogin && isAnnounced(context, 'reviewer_requested')) {
+    const reviewerMention = mentionReviewer(reviewerLogin, userMapping, areReviewerMentionsMuted(context));
     await sendThreadMessage(
       botToken,
       metadata.thread_id,
-      `:bellhop: ${reviewerMention} - your review as been requested for [PR #${prNumber}](${prUrl})`
+      renderTemplate(context, 'reviewer_requested', { reviewer: reviewerMention }),
+      userMapping
     );
   }
 
   // Update parent message with ALL current reviewers (handles multiple additions)
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = updateReviewersLine(messageData.content, allReviewerLogins, userMapping);
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+    const card = setCardReviewers(getCardState(metadata, pr), allReviewerLogins);
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
@@ -1,14 +1,18 @@
-import type { HandlerContext, Core, UserMapping } from '../types';
-import { getMessage, editMessage, sendThreadMessage, removeThreadMember } from '../utils/discord';
-import { getMetadataFromPR, postMetadataMissingComment } from '../utils/github';
-import { updateReviewersLine, mapToDiscord } from '../utils/formatting';
+import type { HandlerContext, Core } from '../types';
+import { sendThreadMessage, removeThreadMember } from '../utils/discord';
+import { postMetadataMissingComment } from '../utils/github';
+import { resolveMetadata } from '../utils/recovery';
+import { DiscordApiError } from '../utils/errors';
+import { mentionReviewer } from '../utils/formatting';
+import { getConfig, areReviewerMentionsMuted, isAnnounced } from '../utils/config';
+import { getCardState, setCardReviewers } from '../utils/card-state';
+import { updatePRCard } from '../utils/card';
 
 export async function handleReviewerRemoved(
   context: HandlerContext,
-  core: Core,
-  botToken: string,
-  userMapping: UserMapping
+  core: Core
 ): Promise<void> {
+  const { botToken, userMapping } = getConfig(context);
   const pr = context.payload.pull_request;
   const prNumber = pr.number;
 
@@ -25,7 +29,7 @@ export async function handleReviewerRemoved(
     return;
   }
 
-  const metadata = await getMetadataFromPR(context, prNumber);
+  const metadata = await resolveMetadata(context, core);
 
   if (!metadata || !metadata.thread_id) {
     core.warning('No Discord thread found for this PR. Skipping.');
@@ -39,12 +43,15 @@ export async function handleReviewerRemoved(
 
   // Post in thread for the removed reviewer
   if (removedReviewerLogin) {
-    const removedReviewerMention = mapToDiscord(removedReviewerLogin, userMapping);
-    await sendThreadMessage(
-      botToken,
-      metadata.thread_id,
-      `👋 ${removedReviewerMention} has been removed as a reviewer from this PR.`
-    );
+    if (isAnnounced(context, 'reviewer_removed')) {
+      const removedReviewerMention = mentionReviewer(removedReviewerLogin, userMapping, areReviewerMentionsMuted(context));
+      await sendThreadMessage(
+        botToken,
+        metadata.thread_id,
+        `👋 ${removedReviewerMention} has been removed as a reviewer from this PR.`,
+        userMapping
+      );
+    }
 
     // Remove reviewer from thread
     if (userMapping[removedReviewerLogin]) {
@@ -54,8 +61,10 @@ export async function handleReviewerRemoved(
         core.info(`Removed ${removedReviewerLogin} from Discord thread`);
       } catch (e) {
         // User not in thread or other error - that's okay
-        if (e instanceof Error && !e.message.includes('404')) {
-          core.warning(`Error removing ${removedReviewerLogin} from thread: ${e.message}`);
+        if (!(e instanceof DiscordApiError && e.isNotFound)) {
+          core.warning(
+            `Error removing ${removedReviewerLogin} from thread: ${e instanceof Error ? e.message : String(e)}`
+          );
         }
       }
     }
@@ -63,10 +72,8 @@ export async function handleReviewerRemoved(
 
   // Update parent message with ALL current reviewers (after removal)
   try {
-    const messageData = await getMessage(botToken, metadata.channel_id, metadata.message_id);
-    const updatedContent = updateReviewersLine(messageData.content, allReviewerLogins, userMapping);
-
-    await editMessage(botToken, metadata.channel_id, metadata.message_id, updatedContent);
+    const card = setCardReviewers(getCardState(metadata, pr), allReviewerLogins);
+    await updatePRCard(context, prNumber, metadata, card);
   } catch (e) {
     core.warning(`Failed to edit parent message: ${e instanceof Error ? e.message : String(e)}`);
   }
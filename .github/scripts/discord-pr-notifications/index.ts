@@ -1,73 +1,45 @@
 import * as core from '@actions/core';
-import * as github from '@actions/github';
 import * as fs from 'fs';
-import type { HandlerContext, Core, UserMapping, Env } from './types';
+import type { GitHubEventPayload, HandlerContext } from './types';
 import { handlePROpened } from './handlers/handle-pr-opened';
 import { handlePRReadyForReview } from './handlers/handle-pr-ready-for-review';
+import { handlePRConvertedToDraft } from './handlers/handle-pr-converted-to-draft';
 import { handleReviewerAdded } from './handlers/handle-reviewer-added';
 import { handleReviewerRemoved } from './handlers/handle-reviewer-removed';
 import { handlePRReview } from './handlers/handle-pr-review';
 import { handlePRSynchronize } from './handlers/handle-pr-synchronize';
 import { handleReviewDismissed } from './handlers/handle-review-dismissed';
 import { handlePRClosed } from './handlers/handle-pr-closed';
+import { handlePRReopened } from './handlers/handle-pr-reopened';
+import { handlePREdited } from './handlers/handle-pr-edited';
+import { handlePRLabeled } from './handlers/handle-pr-labeled';
 import { handlePRMerged } from './handlers/handle-pr-merged';
-
-/**
- * Create a Core wrapper that matches our Core interface
- */
-function createCore(): Core {
-  return {
-    setFailed: (message: string) => core.setFailed(message),
-    warning: (message: string) => core.warning(message),
-    info: (message: string) => core.info(message),
-    error: (message: string) => core.error(message),
-  };
-}
-
-/**
- * Parse environment variables
- */
-function getEnv(): Env {
-  return {
-    DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN,
-    DISCORD_CHANNEL_ID: process.env.DISCORD_CHANNEL_ID,
-    DISCORD_USER_MAPPING: process.env.DISCORD_USER_MAPPING,
-    DISCORD_OPERATIONS_ROLE_ID: process.env.DISCORD_OPERATIONS_ROLE_ID,
-    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
-    GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME,
-    GITHUB_EVENT_PATH: process.env.GITHUB_EVENT_PATH,
-    GITHUB_REPOSITORY: process.env.GITHUB_REPOSITORY,
-    GITHUB_REPO_OWNER: process.env.GITHUB_REPO_OWNER,
-  };
-}
+import { handlePRComment } from './handlers/handle-pr-comment';
+import { handlePRReviewComment } from './handlers/handle-pr-review-comment';
+import { handleCIStatus } from './handlers/handle-ci-status';
+import { getConfig } from './utils/config';
+import { loadRepositoryConfig } from './utils/config-file';
+import { reconcileCards, formatReconcileSummary, getReconcileSince } from './commands/reconcile';
+import {
+  createCore,
+  createHandlerContext,
+  getEnv,
+  writeJobSummary,
+} from './utils/runtime';
 
 /**
  * Load and parse the GitHub event payload
  */
-function loadEventPayload(eventPath?: string): any {
+function loadEventPayload(eventPath?: string): GitHubEventPayload {
   const path = eventPath || process.env.GITHUB_EVENT_PATH || '/github/workflow/event.json';
   try {
     const eventData = fs.readFileSync(path, 'utf8');
-    return JSON.parse(eventData);
+    return JSON.parse(eventData) as GitHubEventPayload;
   } catch (e) {
     throw new Error(`Failed to load event payload: ${e instanceof Error ? e.message : String(e)}`);
   }
 }
 
-/**
- * Parse user mapping from environment variable
- */
-function parseUserMapping(userMappingStr?: string): UserMapping {
-  if (!userMappingStr) {
-    return {};
-  }
-  try {
-    return JSON.parse(userMappingStr);
-  } catch (e) {
-    throw new Error(`Failed to parse DISCORD_USER_MAPPING: ${e instanceof Error ? e.message : String(e)}`);
-  }
-}
-
 /**
  * Main entry point
  */
@@ -88,47 +60,28 @@ async function main(): Promise<void> {
     return;
   }
 
-  const octokit = github.getOctokit(token);
-
   // Load event payload
   const payload = loadEventPayload(env.GITHUB_EVENT_PATH);
 
-  // Parse repository info - prefer environment variable, fallback to github.context
-  let owner: string;
-  let repo: string;
-  if (env.GITHUB_REPOSITORY) {
-    [owner, repo] = env.GITHUB_REPOSITORY.split('/');
-  } else if (env.GITHUB_REPO_OWNER) {
-    owner = env.GITHUB_REPO_OWNER;
-    repo = github.context.repo.repo;
-  } else {
-    owner = github.context.repo.owner;
-    repo = github.context.repo.repo;
+  // Create handler context from the repository config file, overridden by the environment
+  let context: HandlerContext;
+  try {
+    const fileConfig = loadRepositoryConfig(env.DISCORD_CONFIG_FILE);
+    context = createHandlerContext(token, env, payload, fileConfig);
+  } catch (e) {
+    coreWrapper.setFailed(`Invalid configuration: ${e instanceof Error ? e.message : String(e)}`);
+    return;
   }
 
-  // Create handler context
-  const context: HandlerContext = {
-    github: {
-      rest: octokit.rest,
-    },
-    repo: {
-      owner,
-      repo,
-    },
-    payload,
-  };
-
-  // Parse user mapping
-  const userMapping = parseUserMapping(env.DISCORD_USER_MAPPING);
-
-  // Get required secrets
-  const botToken = env.DISCORD_BOT_TOKEN;
-  const channelId = env.DISCORD_CHANNEL_ID;
-
-  if (!botToken) {
+  const config = getConfig(context);
+  if (!config.botToken) {
     coreWrapper.setFailed('DISCORD_BOT_TOKEN secret must be set');
     return;
   }
+  if (config.metadataStore === 'comment' && !config.metadataSecret) {
+    coreWrapper.setFailed('DISCORD_METADATA_SECRET secret must be set');
+    return;
+  }
 
   // Route to appropriate handler based on event
   try {
@@ -136,33 +89,58 @@ async function main(): Promise<void> {
       const action = payload.action;
 
       if (action === 'opened') {
-        if (!channelId) {
-          coreWrapper.setFailed('DISCORD_CHANNEL_ID secret must be set');
-          return;
-        }
-        await handlePROpened(context, coreWrapper, botToken, channelId, userMapping);
+        await handlePROpened(context, coreWrapper);
       } else if (action === 'ready_for_review') {
-        await handlePRReadyForReview(context, coreWrapper, botToken, userMapping);
+        await handlePRReadyForReview(context, coreWrapper);
+      } else if (action === 'converted_to_draft') {
+        await handlePRConvertedToDraft(context, coreWrapper);
       } else if (action === 'review_requested') {
-        await handleReviewerAdded(context, coreWrapper, botToken, userMapping);
+        await handleReviewerAdded(context, coreWrapper);
       } else if (action === 'review_request_removed') {
-        await handleReviewerRemoved(context, coreWrapper, botToken, userMapping);
+        await handleReviewerRemoved(context, coreWrapper);
       } else if (action === 'synchronize') {
-        await handlePRSynchronize(context, coreWrapper, botToken, userMapping);
+        await handlePRSynchronize(context, coreWrapper);
       } else if (action === 'closed') {
         if (payload.pull_request?.merged === true) {
-          await handlePRMerged(context, coreWrapper, botToken, userMapping);
+          await handlePRMerged(context, coreWrapper);
         } else {
-          await handlePRClosed(context, coreWrapper, botToken, userMapping);
+          await handlePRClosed(context, coreWrapper);
         }
+      } else if (action === 'reopened') {
+        await handlePRReopened(context, coreWrapper);
+      } else if (action === 'edited') {
+        await handlePREdited(context, coreWrapper);
+      } else if (action === 'labeled' || action === 'unlabeled') {
+        await handlePRLabeled(context, coreWrapper);
       }
     } else if (eventName === 'pull_request_review') {
       const action = payload.action;
 
-      if (action === 'submitted') {
-        await handlePRReview(context, coreWrapper, botToken, userMapping);
+      if (action === 'submitted' || action === 'edited') {
+        await handlePRReview(context, coreWrapper);
       } else if (action === 'dismissed') {
-        await handleReviewDismissed(context, coreWrapper, botToken, userMapping);
+        await handleReviewDismissed(context, coreWrapper);
+      }
+    } else if (eventName === 'issue_comment') {
+      if (payload.action === 'created' || payload.action === 'edited') {
+        await handlePRComment(context, coreWrapper);
+      }
+    } else if (eventName === 'pull_request_review_comment') {
+      if (payload.action === 'created' || payload.action === 'edited') {
+        await handlePRReviewComment(context, coreWrapper);
+      }
+    } else if (eventName === 'check_suite' || eventName === 'check_run') {
+      if (payload.action === 'completed') {
+        await handleCIStatus(context, coreWrapper);
+      }
+    } else if (eventName === 'status') {
+      await handleCIStatus(context, coreWrapper);
+    } else if (eventName === 'schedule') {
+      const since = await getReconcileSince(context, coreWrapper, env.GITHUB_WORKFLOW_REF);
+      const result = await reconcileCards(context, coreWrapper, { since });
+      await writeJobSummary(formatReconcileSummary(result), coreWrapper);
+      if (result.failed.length > 0) {
+        coreWrapper.warning(`${result.failed.length} PRs could not be reconciled`);
       }
     } else {
       coreWrapper.warning(`Unhandled event: ${eventName}`);
@@ -0,0 +1,64 @@
+import * as core from '@actions/core';
+import type { GitHubEventPayload } from './types';
+import { getConfig, parseMetadataStoreType } from './utils/config';
+import { loadRepositoryConfig } from './utils/config-file';
+import { createCore, createHandlerContext, getEnv } from './utils/runtime';
+import { createMetadataStore } from './stores/metadata-store';
+import { migrateMetadata } from './commands/migrate-metadata';
+
+/**
+ * Copy Discord metadata between stores.
+ * MIGRATE_FROM / MIGRATE_TO name the stores; MIGRATE_DRY_RUN and MIGRATE_OVERWRITE are 'true' or unset.
+ */
+async function main(): Promise<void> {
+  const coreWrapper = createCore();
+  const env = getEnv();
+
+  const token = env.GITHUB_TOKEN;
+  if (!token) {
+    coreWrapper.setFailed('GITHUB_TOKEN is required');
+    return;
+  }
+
+  const from = process.env.MIGRATE_FROM;
+  const to = process.env.MIGRATE_TO;
+  if (!from || !to) {
+    coreWrapper.setFailed('MIGRATE_FROM and MIGRATE_TO must be set');
+    return;
+  }
+  const sourceType = parseMetadataStoreType(from, 'MIGRATE_FROM');
+  const targetType = parseMetadataStoreType(to, 'MIGRATE_TO');
+  if (sourceType === targetType) {
+    coreWrapper.setFailed('MIGRATE_FROM and MIGRATE_TO must name different stores');
+    return;
+  }
+
+  const fileConfig = loadRepositoryConfig(env.DISCORD_CONFIG_FILE);
+  const context = createHandlerContext(token, env, {} as GitHubEventPayload, fileConfig);
+  if ([sourceType, targetType].includes('comment') && !getConfig(context).metadataSecret) {
+    coreWrapper.setFailed('DISCORD_METADATA_SECRET secret must be set');
+    return;
+  }
+
+  const result = await migrateMetadata(
+    createMetadataStore(sourceType, context, coreWrapper),
+    createMetadataStore(targetType, context, coreWrapper),
+    coreWrapper,
+    {
+      dryRun: process.env.MIGRATE_DRY_RUN === 'true',
+      overwrite: process.env.MIGRATE_OVERWRITE === 'true',
+    }
+  );
+
+  coreWrapper.info(
+    `Migration from ${sourceType} to ${targetType} finished: ${result.copied} copied, ${result.skipped} skipped, ${result.failed} failed`
+  );
+  if (result.failed > 0) {
+    coreWrapper.setFailed(`${result.failed} metadata entries failed to migrate`);
+  }
+}
+
+main().catch((error) => {
+  core.setFailed(`Unhandled error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
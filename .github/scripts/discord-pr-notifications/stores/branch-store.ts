@@ -0,0 +1,186 @@
+import type { DiscordMetadata, HandlerContext, MetadataStore } from '../types';
+
+// Path of the JSON map on the metadata branch
+export const METADATA_FILE_PATH = 'discord-pr-metadata.json';
+
+// Concurrent workflow runs can race on the file; retry a write this many times
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface MetadataMap {
+  [prNumber: string]: DiscordMetadata;
+}
+
+/**
+ * HTTP status of an Octokit request error
+ */
+function getStatus(e: unknown): number | undefined {
+  return typeof e === 'object' && e !== null ? (e as { status?: number }).status : undefined;
+}
+
+/**
+ * Read the map and the blob SHA needed to update it. A missing branch or file reads as empty.
+ */
+async function readMap(
+  context: HandlerContext,
+  branch: string
+): Promise<{ entries: MetadataMap; sha: string | null }> {
+  try {
+    const { owner, repo } = context.repo;
+    const response = await context.github.rest.repos.getContent({
+      owner,
+      repo,
+      path: METADATA_FILE_PATH,
+      ref: branch,
+    });
+    const file = response.data;
+    if (Array.isArray(file) || !('content' in file)) {
+      throw new Error(`${METADATA_FILE_PATH} is not a file`);
+    }
+    let { content } = file;
+    // Above 1 MB the contents API leaves the content out; the blob API serves it
+    if (file.encoding === 'none' || !content) {
+      const blob = await context.github.rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: file.sha,
+      });
+      content = blob.data.content;
+    }
+    return {
+      entries: JSON.parse(Buffer.from(content, 'base64').toString('utf8')) as MetadataMap,
+      sha: file.sha,
+    };
+  } catch (e) {
+    if (getStatus(e) === 404) {
+      return { entries: {}, sha: null };
+    }
+    throw new Error(
+      `Failed to read metadata from branch ${branch}: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
+
+/**
+ * Serialize the map as the file's content
+ */
+function toFileContent(entries: MetadataMap): string {
+  return `${JSON.stringify(entries, null, 2)}\n`;
+}
+
+/**
+ * Create the branch with no history, holding only the metadata file.
+ * Returns false if the branch already exists.
+ */
+async function createOrphanBranch(
+  context: HandlerContext,
+  branch: string,
+  entries: MetadataMap
+): Promise<boolean> {
+  const { owner, repo } = context.repo;
+  const content = toFileContent(entries);
+  const tree = await context.github.rest.git.createTree({
+    owner,
+    repo,
+    tree: [{ path: METADATA_FILE_PATH, mode: '100644', type: 'blob', content }],
+  });
+  const commit = await context.github.rest.git.createCommit({
+    owner,
+    repo,
+    message: 'Initialize Discord PR metadata',
+    tree: tree.data.sha,
+    parents: [],
+  });
+
+  try {
+    await context.github.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha: commit.data.sha,
+    });
+    return true;
+  } catch (e) {
+    if (getStatus(e) === 422) {
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Write the map to the existing branch, adding the file when `sha` is null
+ */
+async function writeMap(
+  context: HandlerContext,
+  branch: string,
+  entries: MetadataMap,
+  sha: string | null,
+  message: string
+): Promise<void> {
+  const content = toFileContent(entries);
+  await context.github.rest.repos.createOrUpdateFileContents({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    path: METADATA_FILE_PATH,
+    branch,
+    message,
+    content: Buffer.from(content, 'utf8').toString('base64'),
+    sha: sha ?? undefined,
+  });
+}
+
+/**
+ * Metadata kept as a JSON map on a dedicated orphan branch, via the contents API
+ */
+export function createBranchStore(context: HandlerContext, branch: string): MetadataStore {
+  return {
+    async get(prNumber) {
+      const { entries } = await readMap(context, branch);
+      return entries[String(prNumber)] || null;
+    },
+
+    async save(prNumber, metadata) {
+      let branchExists = false;
+      for (let attempt = 1; ; attempt++) {
+        const { entries, sha } = await readMap(context, branch);
+        const updated = { ...entries, [String(prNumber)]: metadata };
+        try {
+          if (sha === null && !branchExists) {
+            if (await createOrphanBranch(context, branch, updated)) {
+              return;
+            }
+            // Another run may have just created the branch with its own entries; re-read
+            // them rather than writing over the file blind
+            branchExists = true;
+            continue;
+          }
+          await writeMap(
+            context,
+            branch,
+            updated,
+            sha,
+            `Update Discord metadata for PR #${prNumber}`
+          );
+          return;
+        } catch (e) {
+          // 409: the file changed since it was read; 422 without a SHA: it was added since.
+          // Either way, re-read and try again.
+          const conflict = getStatus(e) === 409 || (sha === null && getStatus(e) === 422);
+          if (!conflict || attempt >= MAX_SAVE_ATTEMPTS) {
+            throw new Error(
+              `Failed to save metadata to branch ${branch}: ${e instanceof Error ? e.message : String(e)}`
+            );
+          }
+        }
+      }
+    },
+
+    async list() {
+      const { entries } = await readMap(context, branch);
+      return Object.entries(entries).map(([prNumber, metadata]) => ({
+        pr_number: Number(prNumber),
+        metadata,
+      }));
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import type { Core, HandlerContext, MetadataStore } from '../types';
+import { getMetadataFromPR, listMetadataFromRepo, saveMetadataToPR } from '../utils/github';
+
+/**
+ * Metadata kept in a signed hidden comment on each PR
+ */
+export function createCommentStore(context: HandlerContext, core?: Core): MetadataStore {
+  return {
+    get: (prNumber) => getMetadataFromPR(context, prNumber, core),
+
+    save: (prNumber, metadata) => saveMetadataToPR(context, prNumber, metadata, core),
+
+    list: () => listMetadataFromRepo(context, core),
+  };
+}
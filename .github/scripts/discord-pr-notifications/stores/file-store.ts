@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DiscordMetadata, MetadataStore } from '../types';
+
+interface MetadataMap {
+  [prNumber: string]: DiscordMetadata;
+}
+
+/**
+ * Read the map; a missing file reads as empty
+ */
+async function readMap(filePath: string): Promise<MetadataMap> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as MetadataMap;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(
+      `Failed to read metadata file ${filePath}: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
+
+/**
+ * Replace the file atomically so a crash never leaves half-written JSON behind
+ */
+async function writeMap(filePath: string, entries: MetadataMap): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, `${JSON.stringify(entries, null, 2)}\n`, 'utf8');
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Metadata kept in a local JSON file, for tests and self-hosted runners with persistent disks
+ */
+export function createFileStore(filePath: string): MetadataStore {
+  return {
+    async get(prNumber) {
+      const entries = await readMap(filePath);
+      return entries[String(prNumber)] || null;
+    },
+
+    async save(prNumber, metadata) {
+      const entries = await readMap(filePath);
+      await writeMap(filePath, { ...entries, [String(prNumber)]: metadata });
+    },
+
+    async list() {
+      const entries = await readMap(filePath);
+      return Object.entries(entries).map(([prNumber, metadata]) => ({
+        pr_number: Number(prNumber),
+        metadata,
+      }));
+    },
+  };
+}
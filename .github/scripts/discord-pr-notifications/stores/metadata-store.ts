@@ -0,0 +1,31 @@
+import type { Core, HandlerContext, MetadataStore, MetadataStoreType } from '../types';
+import { getConfig } from '../utils/config';
+import { createCommentStore } from './comment-store';
+import { createBranchStore } from './branch-store';
+import { createFileStore } from './file-store';
+
+/**
+ * Create a metadata store of the given type, using the context's settings for it
+ */
+export function createMetadataStore(
+  type: MetadataStoreType,
+  context: HandlerContext,
+  core?: Core
+): MetadataStore {
+  const config = getConfig(context);
+  switch (type) {
+    case 'comment':
+      return createCommentStore(context, core);
+    case 'branch':
+      return createBranchStore(context, config.metadataBranch);
+    case 'file':
+      return createFileStore(config.metadataFile);
+  }
+}
+
+/**
+ * Get the configured metadata store
+ */
+export function getMetadataStore(context: HandlerContext, core?: Core): MetadataStore {
+  return createMetadataStore(getConfig(context).metadataStore, context, core);
+}
@@ -1,9 +1,55 @@
 // TypeScript type definitions for Discord PR Notifications
 
+import type { getOctokit } from '@actions/github';
+
+type Octokit = ReturnType<typeof getOctokit>;
+
 export interface DiscordMetadata {
     message_id: string;
     thread_id: string;
     channel_id: string;
+    card?: PRCardState; // Last rendered state of the parent message
+    history?: MetadataHistoryEntry[]; // Messages and threads this PR was posted to before, oldest first
+    mirrored_comments?: { [commentKey: string]: string }; // Thread message ID of each mirrored GitHub comment, oldest first
+    ci_failure_message_id?: string; // Thread message reporting failed checks, removed once they pass
+  }
+
+  export interface MetadataHistoryEntry {
+    message_id: string;
+    thread_id: string;
+    channel_id: string;
+  }
+
+  export type PRCardStatus =
+    | 'draft'
+    | 'ready_for_review'
+    | 'changes_requested'
+    | 'approved'
+    | 'merged'
+    | 'closed';
+
+  export type ReviewVerdict = 'pending' | 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+
+  export type CIStatus = 'none' | 'pending' | 'success' | 'failure';
+
+  export interface PRCardState {
+    number: number;
+    title: string;
+    url: string;
+    head_branch: string;
+    base_branch: string;
+    author: string;
+    description: string; // At most STORED_DESCRIPTION_LIMIT characters of the PR body
+    description_truncated?: boolean; // Set when the PR body was longer than the stored description
+    reviewers: string[]; // GitHub logins, in display order
+    verdicts: { [githubUsername: string]: ReviewVerdict };
+    status: PRCardStatus;
+    status_actor?: string; // GitHub login of whoever caused the status (approver, merger, closer)
+    required_approvals?: number; // Approvals needed before the PR counts as approved
+    ci: CIStatus;
+    labels: string[];
+    author_avatar_url?: string;
+    updated_at?: string; // ISO timestamp of the last card update
   }
   
   export interface UserMapping {
@@ -13,6 +59,7 @@ export interface DiscordMetadata {
   export interface GitHubUser {
     login: string;
     id?: number;
+    avatar_url?: string;
     [key: string]: any; // Allow additional properties from GitHub API
   }
   
@@ -33,11 +80,15 @@ export interface DiscordMetadata {
     };
     head: {
       ref: string;
+      sha?: string;
     };
     requested_reviewers?: GitHubReviewer[];
+    labels?: { name: string }[];
     merged?: boolean;
+    merged_at?: string | null; // Listed PRs carry this instead of `merged`
     merged_by?: GitHubUser | null;
     merge_commit_sha?: string | null;
+    updated_at?: string;
   }
   
   export interface GitHubReview {
@@ -45,6 +96,17 @@ export interface DiscordMetadata {
     user: GitHubUser;
     state: 'approved' | 'changes_requested' | 'commented' | 'dismissed';
     body: string | null;
+    submitted_at?: string;
+    html_url?: string;
+  }
+  
+  // A review as the REST API lists it, before getPRReviews normalizes it
+  export interface GitHubListedReview {
+    id: number;
+    user: GitHubUser | null; // Null for deleted accounts
+    state: string; // 'APPROVED', 'CHANGES_REQUESTED', 'COMMENTED', 'DISMISSED' or 'PENDING'
+    body: string | null;
+    submitted_at?: string;
   }
   
   export interface GitHubComment {
@@ -52,19 +114,240 @@ export interface DiscordMetadata {
     body?: string | null;
     user: GitHubUser;
     created_at: string;
+    html_url?: string;
+    issue_url?: string; // Set on repository-wide listings, which mix every issue's comments
+  }
+
+  export interface GitHubReviewComment extends GitHubComment {
+    path: string;
+    line?: number | null; // Null when the line no longer exists in the diff
+    original_line?: number | null;
+    diff_hunk: string;
+  }
+
+  export interface GitHubIssue {
+    number: number;
+    pull_request?: { url: string }; // Only set when the issue is a pull request
+  }
+
+  export interface GitHubCheckEvent {
+    head_sha: string;
+    pull_requests: { number: number }[]; // Empty for PRs from forks
+  }
+
+  export interface GitHubCheckRun {
+    name: string;
+    status: string; // 'queued', 'in_progress' or 'completed'
+    conclusion: string | null; // Set once completed, e.g. 'success' or 'failure'
+    html_url?: string | null;
+  }
+
+  export interface GitHubCommitStatus {
+    context: string;
+    state: 'error' | 'failure' | 'pending' | 'success';
+    target_url?: string | null;
+  }
+
+  export interface CIResult {
+    status: CIStatus;
+    failing: { name: string; url?: string }[];
+  }
+
+  export interface LabelEmojiMap {
+    [labelPrefix: string]: string; // e.g. 'type:' -> ':label:'; matched case-insensitively
+  }
+
+  export interface LabelRule {
+    label: string; // Label name, matched case-insensitively
+    notice?: string; // Thread message posted when the label is added
+    pingOperations?: boolean; // Mention the operations role in the notice
+  }
+
+  export type TemplateName =
+    | 'opened' // First message in a new card's thread
+    | 'reviewer_requested'
+    | 'approved' // An approval that leaves the PR approved overall
+    | 'approved_more_needed' // An approval while more are needed
+    | 'approved_changes_pending' // An approval while other reviewers still request changes
+    | 'changes_requested'
+    | 'synchronize' // New commits on an approved PR
+    | 'synchronize_no_reviewers'
+    | 'dismissed' // A change request is dismissed
+    | 'merged'
+    | 'closed'
+    | 'ready';
+
+  export type MessageTemplates = {
+    [name in TemplateName]: string; // Text with {placeholder}s, see utils/templates
+  };
+
+  export interface MarkdownOptions {
+    repoUrl: string; // e.g. https://github.com/owner/repo, for issue references and relative links
+    ref?: string; // Branch relative links point at; defaults to HEAD
+    userMapping: UserMapping; // Turns @user references into Discord mentions
+    unmappedMentions?: UnmappedMentionStyle; // How @user references without a mapping are shown; defaults to 'text'
+  }
+
+  export type UnmappedMentionStyle = 'text' | 'link'; // '@login' as typed, or a link to the GitHub profile
+
+  export type MirroredCommentType = 'conversation' | 'review_comment' | 'review';
+
+  export type EscalationRule =
+    | 'no_reviewers' // A ready PR is opened without requested reviewers
+    | 'release_branch' // A PR is opened against a branch matching `releaseBranches`
+    | 'protected_branch' // A PR is opened against a protected branch
+    | 'hotfix' // A PR is opened with, or gains, the `hotfixLabel` label
+    | 'default_branch_merge'; // A PR is merged into the default branch
+
+  export type AnnouncementType =
+    | 'opened' // The first message in a new card's thread
+    | 'reviewer_requested'
+    | 'reviewer_removed'
+    | 'review' // Approvals and change requests
+    | 'synchronize' // New commits on an approved PR
+    | 'dismissed'
+    | 'ready'
+    | 'converted_to_draft'
+    | 'reopened'
+    | 'merged'
+    | 'closed';
+
+  export type ThreadLockStatus = 'approved' | 'closed' | 'merged';
+
+  export type ThreadArchiveMinutes = 60 | 1440 | 4320 | 10080; // The durations Discord accepts
+
+  export interface ReactionEmoji {
+    approved: string;
+    changes_requested: string;
+    merged: string;
+    closed: string;
+  }
+
+  export interface ChannelRoute {
+    channel: string; // Discord channel the PR's card is posted in
+    baseBranches?: string[]; // Base branch patterns; '*' matches anything
+    labels?: string[]; // Matches PRs with any of these labels, case-insensitively
+  }
+
+  // Shape of a config file value, checked by utils/config-file
+  export type ConfigSchema =
+    | { type: 'string'; check?: (value: string) => string | undefined } // check returns an error
+    | { type: 'boolean' }
+    | { type: 'integer'; min?: number; values?: number[] }
+    | { type: 'enum'; values: string[] }
+    | { type: 'list'; items: ConfigSchema }
+    | { type: 'object'; properties: { [key: string]: ConfigSchema }; required?: string[] }
+    | { type: 'map'; values: ConfigSchema }; // Any keys
+  
+  export interface MetadataEntry {
+    pr_number: number;
+    metadata: DiscordMetadata;
+  }
+
+  export interface MetadataStore {
+    get(prNumber: number): Promise<DiscordMetadata | null>;
+    save(prNumber: number, metadata: DiscordMetadata): Promise<void>; // Creates or replaces the entry
+    list(): Promise<MetadataEntry[]>;
+  }
+
+  export type MetadataStoreType = 'comment' | 'branch' | 'file';
+
+  export interface MigrationResult {
+    copied: number;
+    skipped: number; // Already present in the target store
+    failed: number;
+  }
+
+  export interface BackfillResult {
+    created: number[]; // PR numbers that got a new card
+    updated: number[]; // PRs whose card was recovered or brought up to date
+    skipped: number[]; // PRs whose card was already up to date
+    failed: { pr_number: number; error: string }[];
+  }
+
+  export interface ReconcileResult {
+    checked: number;
+    skipped: number; // Unchanged since the last reconcile, or closed with a final card
+    corrected: { pr_number: number; fixes: string[] }[];
+    failed: { pr_number: number; error: string }[];
+  }
+
+  export interface MetadataVerification {
+    botLogin: string; // Only metadata comments posted by this login are trusted
+    secret: string; // HMAC key the metadata was signed with
+    allowUnsigned?: boolean; // Trust unsigned metadata written before signing was added
+    onRejected?: (comment: GitHubComment, reason: string) => void; // Called for forged or unsigned metadata
   }
   
   export interface GitHubEventPayload {
     pull_request: GitHubPullRequest;
     review?: GitHubReview;
     requested_reviewer?: GitHubReviewer;
+    sender?: GitHubUser; // Who triggered the event
+    changes?: GitHubPRChanges; // Previous values on `edited` events
+    comment?: GitHubComment | GitHubReviewComment;
+    issue?: GitHubIssue; // Set instead of `pull_request` on `issue_comment` events
+    check_suite?: GitHubCheckEvent;
+    check_run?: GitHubCheckEvent;
+    sha?: string; // Commit of a `status` event
+    label?: { name: string }; // Label added or removed on `labeled`/`unlabeled` events
+    repository?: { default_branch: string };
     action: string;
   }
   
+  export interface GitHubPRChanges {
+    title?: { from: string };
+    body?: { from: string | null };
+    base?: { ref: { from: string }; sha: { from: string } };
+  }
+
+  export interface DiscordChannelChanges {
+    name?: string;
+    archived?: boolean;
+    locked?: boolean;
+  }
+
   export interface DiscordMessage {
     id: string;
     content: string;
     channel_id: string;
+    embeds?: DiscordEmbed[];
+    author?: { id: string; bot?: boolean };
+    thread?: DiscordThread; // Thread started from this message, if any
+  }
+
+  export interface DiscordEmbed {
+    title?: string;
+    url?: string;
+    description?: string;
+    color?: number;
+    author?: {
+      name: string;
+      url?: string;
+      icon_url?: string;
+    };
+    fields?: {
+      name: string;
+      value: string;
+      inline?: boolean;
+    }[];
+    footer?: {
+      text: string;
+    };
+    timestamp?: string;
+  }
+
+  export interface DiscordAllowedMentions {
+    parse: ('roles' | 'users' | 'everyone')[]; // Mention types pinged wherever they appear
+    roles?: string[];
+    users?: string[];
+  }
+
+  export interface DiscordMessagePayload {
+    content?: string;
+    embeds?: DiscordEmbed[];
+    flags?: number;
+    allowed_mentions?: DiscordAllowedMentions;
   }
   
   export interface DiscordThread {
@@ -72,18 +355,62 @@ export interface DiscordMetadata {
     name: string;
     locked?: boolean;
     archived?: boolean;
+    parent_id?: string; // Channel the thread was started in
+    thread_metadata?: {
+      archived: boolean;
+      locked: boolean;
+      archive_timestamp: string;
+    };
   }
   
   export interface HandlerContext {
     github: {
-      rest: any; // Using any to match actual Octokit RestEndpointMethods type
+      rest: Octokit['rest'];
+      paginate: Octokit['paginate']; // For list endpoints that span several pages
     };
     repo: {
       owner: string;
       repo: string;
     };
     payload: GitHubEventPayload;
+    config?: Partial<BotConfig>; // Unset fields fall back to defaults in utils/config
   }
+
+  export type CardFormat = 'embed' | 'text';
+
+  export interface BotConfig {
+    cardFormat: CardFormat; // 'text' for channels where embeds are disabled
+    requiredApprovals?: number; // Overrides the base branch protection rule when set
+    botLogin: string; // GitHub login that authors the metadata comment
+    metadataSecret?: string; // HMAC key for signing the metadata comment; required to read or write it
+    allowUnsignedMetadata: boolean; // Trust unsigned metadata comments from before signing, while migrating; each is signed on its next save
+    metadataStore: MetadataStoreType; // Where thread/message IDs are kept
+    metadataBranch: string; // Orphan branch used by the 'branch' store (needs `contents: write`)
+    metadataFile: string; // JSON file used by the 'file' store
+    channelId?: string; // Channel the cards are posted in; searched to recover lost metadata
+    createMissingCards: boolean; // Post a card for open PRs that have none when one of their events arrives (e.g. opened before the bot was installed)
+    muteDraftMentions: boolean; // Name reviewers instead of pinging them while the PR is a draft
+    announceEdits: boolean; // Post a note in the thread when the title, description or base branch changes
+    mirrorComments: MirroredCommentType[]; // GitHub comments copied into the thread
+    labelEmoji: LabelEmojiMap; // Badge emoji for labels on the card, by label prefix
+    labelRules: LabelRule[]; // Extra behaviour when specific labels are added
+    operationsRoleId?: string; // Discord role pinged by escalations and label rules that escalate
+    escalations: EscalationRule[]; // Situations that ping the operations role
+    releaseBranches: string[]; // Base branch patterns for the 'release_branch' escalation; '*' matches anything
+    hotfixLabel: string; // Label that marks a PR as a hotfix
+    unmappedMentions: UnmappedMentionStyle; // How @user references in PR text show users missing from the mapping
+    templates: Partial<MessageTemplates>; // Overrides for the default thread message wording
+    botToken?: string; // Discord bot token; only read from DISCORD_BOT_TOKEN
+    userMapping: UserMapping; // GitHub login to Discord user ID
+    threadArchiveMinutes: ThreadArchiveMinutes; // Idle time before a card's thread auto-archives
+    lockThreads: ThreadLockStatus[]; // Statuses whose threads are locked
+    announce: AnnouncementType[]; // Events that post a message in the thread
+    reactions: ReactionEmoji; // Reactions added to the card
+    routes: ChannelRoute[]; // Channels for matching PRs' cards; the first match wins, then `channelId`
+  }
+
+  // Settings a repository config file may hold: everything but secrets
+  export type ConfigFile = Omit<Partial<BotConfig>, 'botToken' | 'metadataSecret'>;
   
   export interface Core {
     setFailed: (message: string) => void;
@@ -97,10 +424,30 @@ export interface DiscordMetadata {
     DISCORD_CHANNEL_ID?: string;
     DISCORD_USER_MAPPING?: string;
     DISCORD_OPERATIONS_ROLE_ID?: string;
+    DISCORD_CARD_FORMAT?: string;
+    DISCORD_REQUIRED_APPROVALS?: string;
+    GITHUB_BOT_LOGIN?: string;
+    DISCORD_METADATA_SECRET?: string;
+    DISCORD_ALLOW_UNSIGNED_METADATA?: string;
+    DISCORD_METADATA_STORE?: string;
+    DISCORD_METADATA_BRANCH?: string;
+    DISCORD_METADATA_FILE?: string;
+    DISCORD_CREATE_MISSING_CARDS?: string;
+    DISCORD_MUTE_DRAFT_MENTIONS?: string;
+    DISCORD_ANNOUNCE_EDITS?: string;
+    DISCORD_MIRROR_COMMENTS?: string;
+    DISCORD_LABEL_EMOJI?: string;
+    DISCORD_LABEL_RULES?: string;
+    DISCORD_ESCALATIONS?: string;
+    DISCORD_RELEASE_BRANCHES?: string;
+    DISCORD_HOTFIX_LABEL?: string;
+    DISCORD_UNMAPPED_MENTIONS?: string;
+    DISCORD_CONFIG_FILE?: string;
     GITHUB_TOKEN?: string;
     GITHUB_EVENT_NAME?: string;
     GITHUB_EVENT_PATH?: string;
     GITHUB_REPOSITORY?: string;
     GITHUB_REPO_OWNER?: string;
+    GITHUB_WORKFLOW_REF?: string; // Set by Actions; finds the previous scheduled reconcile
   }
   
\ No newline at end of file
@@ -0,0 +1,263 @@
+import type {
+  DiscordMetadata,
+  GitHubPullRequest,
+  GitHubReview,
+  PRCardState,
+  PRCardStatus,
+  ReviewVerdict,
+} from '../types';
+
+// Longest PR description kept in card state, so the metadata comment stays well within
+// GitHub's 65,536-character comment limit. The card only shows the start of it anyway.
+export const STORED_DESCRIPTION_LIMIT = 16000;
+
+/**
+ * Build card state from scratch using the current pull request payload
+ */
+export function createCardState(pr: GitHubPullRequest): PRCardState {
+  const reviewers = (pr.requested_reviewers || []).map((r) => r.login);
+
+  let status: PRCardStatus = pr.draft ? 'draft' : 'ready_for_review';
+  let statusActor: string | undefined;
+  if (pr.merged) {
+    status = 'merged';
+    statusActor = pr.merged_by?.login;
+  } else if (pr.state === 'closed') {
+    status = 'closed';
+  }
+
+  const card: PRCardState = {
+    number: pr.number,
+    title: pr.title,
+    url: pr.html_url,
+    head_branch: pr.head.ref,
+    base_branch: pr.base.ref,
+    author: pr.user.login,
+    description: '',
+    reviewers,
+    verdicts: Object.fromEntries(reviewers.map((login) => [login, 'pending' as ReviewVerdict])),
+    status,
+    status_actor: statusActor,
+    ci: 'none',
+    labels: (pr.labels || []).map((label) => label.name),
+    author_avatar_url: pr.user.avatar_url,
+  };
+  return setCardDescription(card, pr.body);
+}
+
+/**
+ * Get the stored card state, regenerating it from the PR for metadata saved before card state existed
+ */
+export function getCardState(metadata: DiscordMetadata, pr: GitHubPullRequest): PRCardState {
+  if (!metadata.card) {
+    return createCardState(pr);
+  }
+  return {
+    ...metadata.card,
+    reviewers: [...metadata.card.reviewers],
+    verdicts: { ...metadata.card.verdicts },
+    labels: [...metadata.card.labels],
+  };
+}
+
+/**
+ * Set the lifecycle status and who caused it
+ */
+export function setCardStatus(
+  card: PRCardState,
+  status: PRCardStatus,
+  actor?: string
+): PRCardState {
+  return { ...card, status, status_actor: actor };
+}
+
+/**
+ * Set the PR description, keeping at most STORED_DESCRIPTION_LIMIT characters of it
+ */
+export function setCardDescription(
+  card: PRCardState,
+  body: string | null | undefined
+): PRCardState {
+  const description = body || '';
+  if (description.length <= STORED_DESCRIPTION_LIMIT) {
+    return { ...card, description, description_truncated: undefined };
+  }
+  return {
+    ...card,
+    description: description.slice(0, STORED_DESCRIPTION_LIMIT),
+    description_truncated: true,
+  };
+}
+
+/**
+ * Sync the reviewer list with GitHub's requested reviewers. Requested reviewers are
+ * awaiting a review; reviewers that already submitted one (and so are no longer
+ * requested) keep their verdict.
+ */
+export function setCardReviewers(card: PRCardState, requestedLogins: string[]): PRCardState {
+  const reviewers = card.reviewers.filter(
+    (login) => requestedLogins.includes(login) || (card.verdicts[login] || 'pending') !== 'pending'
+  );
+  for (const login of requestedLogins) {
+    if (!reviewers.includes(login)) {
+      reviewers.push(login);
+    }
+  }
+
+  const verdicts: PRCardState['verdicts'] = {};
+  for (const login of reviewers) {
+    verdicts[login] = requestedLogins.includes(login) ? 'pending' : card.verdicts[login];
+  }
+  return { ...card, reviewers, verdicts };
+}
+
+/**
+ * Record a reviewer's verdict, adding them to the reviewer list if needed
+ */
+export function setReviewerVerdict(
+  card: PRCardState,
+  reviewer: string,
+  verdict: ReviewVerdict
+): PRCardState {
+  const reviewers = card.reviewers.includes(reviewer)
+    ? card.reviewers
+    : [...card.reviewers, reviewer];
+  return { ...card, reviewers, verdicts: { ...card.verdicts, [reviewer]: verdict } };
+}
+
+// Statuses that reviews can move a card between; draft, merged and closed PRs keep their status
+const REVIEW_STATUSES: PRCardStatus[] = ['ready_for_review', 'changes_requested', 'approved'];
+
+/**
+ * Each reviewer's latest effective verdict from chronological reviews. A comment-only
+ * review does not replace an earlier approval or change request, matching GitHub.
+ */
+export function getLatestVerdicts(
+  reviews: GitHubReview[],
+  author: string
+): PRCardState['verdicts'] {
+  const verdicts: PRCardState['verdicts'] = {};
+  for (const review of reviews) {
+    const login = review.user.login;
+    if (login === author) {
+      continue;
+    }
+    const previous = verdicts[login];
+    if (
+      review.state === 'commented' &&
+      (previous === 'approved' || previous === 'changes_requested')
+    ) {
+      continue;
+    }
+    verdicts[login] = review.state;
+  }
+  return verdicts;
+}
+
+/**
+ * Count reviewers whose current verdict is an approval
+ */
+export function countApprovals(card: PRCardState): number {
+  return card.reviewers.filter((login) => card.verdicts[login] === 'approved').length;
+}
+
+/**
+ * Review-driven status: any outstanding change request blocks the PR, and it only
+ * counts as approved once enough reviewers approve
+ */
+export function getReviewStatus(card: PRCardState): PRCardStatus {
+  if (card.reviewers.some((login) => card.verdicts[login] === 'changes_requested')) {
+    return 'changes_requested';
+  }
+  if (countApprovals(card) >= (card.required_approvals ?? 1)) {
+    return 'approved';
+  }
+  return 'ready_for_review';
+}
+
+/**
+ * Replace the card's verdicts with the given ones and derive the status from them.
+ * Requested reviewers are awaiting a (re-)review, so they count as pending whatever
+ * they said before. The status actor is `actor` if their verdict decided the status,
+ * otherwise the first reviewer with the deciding verdict.
+ */
+export function applyReviewVerdicts(
+  card: PRCardState,
+  verdicts: PRCardState['verdicts'],
+  options: { requestedLogins: string[]; requiredApprovals: number; actor?: string }
+): PRCardState {
+  const { requestedLogins, requiredApprovals, actor } = options;
+
+  const reviewers = card.reviewers.filter(
+    (login) => requestedLogins.includes(login) || (verdicts[login] || 'pending') !== 'pending'
+  );
+  for (const login of [...Object.keys(verdicts), ...requestedLogins]) {
+    if (!reviewers.includes(login) && (verdicts[login] || requestedLogins.includes(login))) {
+      reviewers.push(login);
+    }
+  }
+
+  const updated: PRCardState = {
+    ...card,
+    reviewers,
+    verdicts: Object.fromEntries(
+      reviewers.map((login) => [
+        login,
+        requestedLogins.includes(login) ? 'pending' : verdicts[login] || 'pending',
+      ])
+    ),
+    required_approvals: requiredApprovals,
+  };
+
+  if (!REVIEW_STATUSES.includes(card.status)) {
+    return updated;
+  }
+
+  const status = getReviewStatus(updated);
+  if (status === 'ready_for_review') {
+    return setCardStatus(updated, status);
+  }
+  const deciding = (login: string) => updated.verdicts[login] === status;
+  const statusActor = actor && deciding(actor) ? actor : updated.reviewers.find(deciding);
+  return setCardStatus(updated, status, statusActor);
+}
+
+/**
+ * Apply a PR's full review history to the card
+ */
+export function applyReviews(
+  card: PRCardState,
+  reviews: GitHubReview[],
+  options: { requestedLogins: string[]; requiredApprovals: number; actor?: string }
+): PRCardState {
+  return applyReviewVerdicts(card, getLatestVerdicts(reviews, card.author), options);
+}
+
+/**
+ * Normalise a value for comparison: sorted object keys, undefined fields dropped
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .filter((key) => record[key] !== undefined)
+        .map((key) => [key, canonicalize(record[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether two cards would render the same, ignoring when they were last updated
+ */
+export function isSameCard(a: PRCardState, b: PRCardState): boolean {
+  return (
+    JSON.stringify(canonicalize({ ...a, updated_at: undefined })) ===
+    JSON.stringify(canonicalize({ ...b, updated_at: undefined }))
+  );
+}
@@ -0,0 +1,212 @@
+import type {
+  HandlerContext,
+  Core,
+  DiscordMessagePayload,
+  DiscordMetadata,
+  GitHubPullRequest,
+  PRCardState,
+  UserMapping,
+} from '../types';
+import { editMessage, sendMessage, createThread, sendThreadMessage } from './discord';
+import { getPRReviews, getRequiredApprovalsForBranch } from './github';
+import {
+  CARD_DESCRIPTION_LIMIT,
+  renderDescription,
+  renderPRCardMessage,
+  splitMessage,
+} from './formatting';
+import { applyReviews, createCardState } from './card-state';
+import { getBotToken, getConfig, isAnnounced } from './config';
+import { getMetadataStore } from '../stores/metadata-store';
+import { renderTemplate } from './templates';
+
+/**
+ * Render the parent message payload for a card in the configured format
+ */
+export function renderCardForContext(
+  context: HandlerContext,
+  card: PRCardState
+): DiscordMessagePayload {
+  const config = getConfig(context);
+  return renderPRCardMessage(card, config.userMapping, {
+    format: config.cardFormat,
+    repository: `${context.repo.owner}/${context.repo.repo}`,
+    labelEmoji: config.labelEmoji,
+    unmappedMentions: config.unmappedMentions,
+  });
+}
+
+/**
+ * Name of the PR's Discord thread, cut to Discord's 100 character limit
+ */
+export function getThreadName(pr: GitHubPullRequest): string {
+  return `PR #${pr.number}: ${pr.title}`.substring(0, 100);
+}
+
+/**
+ * Post a new card for the PR in its current state, start its thread and save the metadata.
+ * Returns null if the thread could not be created.
+ */
+export async function createPRCard(
+  context: HandlerContext,
+  core: Core,
+  channelId: string
+): Promise<DiscordMetadata | null> {
+  const pr = context.payload.pull_request;
+  const prNumber = pr.number;
+  const botToken = getBotToken(context);
+  const { userMapping } = getConfig(context);
+
+  // Build and send message (card state includes reviewers and draft status)
+  const card = { ...createCardState(pr), updated_at: new Date().toISOString() };
+  const message = renderCardForContext(context, card);
+
+  const messageData = await sendMessage(botToken, channelId, message, userMapping);
+  const discordMessageId = messageData.id;
+
+  // Create thread
+  let metadata: DiscordMetadata;
+  try {
+    const threadData = await createThread(
+      botToken,
+      channelId,
+      discordMessageId,
+      getThreadName(pr),
+      getConfig(context).threadArchiveMinutes
+    );
+    if (!threadData) {
+      return null;
+    }
+    const threadId = threadData.id;
+
+    // Post thread message
+    if (isAnnounced(context, 'opened')) {
+      await sendThreadMessage(botToken, threadId, renderTemplate(context, 'opened'), userMapping);
+    }
+
+    // Store metadata so later events can find the message and thread
+    metadata = {
+      message_id: discordMessageId,
+      thread_id: threadId,
+      channel_id: channelId,
+      card,
+    };
+
+    await getMetadataStore(context, core).save(prNumber, metadata);
+  } catch (e) {
+    core.warning(`Failed to create thread: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+
+  // Card state may hold only the start of a long description; post the PR's own body
+  const description = renderDescription(
+    { ...card, description: pr.body || '' },
+    userMapping,
+    getConfig(context).unmappedMentions
+  );
+  if (description.length > CARD_DESCRIPTION_LIMIT) {
+    try {
+      await postFullDescription(botToken, metadata.thread_id, description, userMapping);
+    } catch (e) {
+      core.warning(
+        `Failed to post the full description: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Post a description too long for the card in the thread, over as many messages as it needs
+ */
+async function postFullDescription(
+  botToken: string,
+  threadId: string,
+  description: string,
+  userMapping: UserMapping
+): Promise<void> {
+  const text = `:page_facing_up: **Full description:**\n${description}`;
+  for (const part of splitMessage(text)) {
+    await sendThreadMessage(botToken, threadId, part, userMapping);
+  }
+}
+
+/**
+ * Persist new card state alongside the metadata and re-render the parent message from it
+ */
+export async function updatePRCard(
+  context: HandlerContext,
+  prNumber: number,
+  metadata: DiscordMetadata,
+  card: PRCardState
+): Promise<DiscordMetadata> {
+  const updatedCard: PRCardState = { ...card, updated_at: new Date().toISOString() };
+  const updatedMetadata: DiscordMetadata = { ...metadata, card: updatedCard };
+  await getMetadataStore(context).save(prNumber, updatedMetadata);
+  await editMessage(
+    getBotToken(context),
+    metadata.channel_id,
+    metadata.message_id,
+    renderCardForContext(context, updatedCard),
+    getConfig(context).userMapping
+  );
+  return updatedMetadata;
+}
+
+/**
+ * Approvals a PR needs: the configured count, else the base branch's rule, else one
+ */
+export async function getRequiredApprovals(
+  context: HandlerContext,
+  baseBranch: string
+): Promise<number> {
+  const configured = getConfig(context).requiredApprovals;
+  if (configured) {
+    return configured;
+  }
+  return (await getRequiredApprovalsForBranch(context, baseBranch)) ?? 1;
+}
+
+/**
+ * Recompute reviewer verdicts and the review status from all of the PR's reviews
+ */
+export async function refreshReviewState(
+  context: HandlerContext,
+  card: PRCardState,
+  pr: GitHubPullRequest,
+  actor?: string
+): Promise<PRCardState> {
+  const [reviews, requiredApprovals] = await Promise.all([
+    getPRReviews(context, pr.number),
+    getRequiredApprovals(context, pr.base.ref),
+  ]);
+  return applyReviews(card, reviews, {
+    requestedLogins: (pr.requested_reviewers || []).map((r) => r.login),
+    requiredApprovals,
+    actor,
+  });
+}
+
+/**
+ * Build the card the PR should have from live GitHub data. Reviewer order, CI status
+ * and the status actor are carried over from `previous`, since the PR payload lacks them.
+ */
+export async function buildCardFromPR(
+  context: HandlerContext,
+  pr: GitHubPullRequest,
+  previous?: PRCardState
+): Promise<PRCardState> {
+  const fresh = createCardState(pr);
+  const base: PRCardState = previous
+    ? {
+        ...fresh,
+        reviewers: previous.reviewers,
+        ci: previous.ci,
+        status_actor:
+          fresh.status === previous.status
+            ? (fresh.status_actor ?? previous.status_actor)
+            : fresh.status_actor,
+      }
+    : fresh;
+  return refreshReviewState(context, base, pr);
+}
@@ -0,0 +1,74 @@
+import type {
+  CIResult,
+  CIStatus,
+  GitHubCheckRun,
+  GitHubCommitStatus,
+  HandlerContext,
+} from '../types';
+import { getCheckRuns, getCommitStatuses } from './github';
+
+// Check run conclusions that mean the check failed; 'neutral' and 'skipped' count as passing
+const FAILED_CONCLUSIONS = [
+  'failure',
+  'timed_out',
+  'cancelled',
+  'action_required',
+  'startup_failure',
+];
+
+function getCheckRunStatus(run: GitHubCheckRun): CIStatus {
+  if (run.status !== 'completed') {
+    return 'pending';
+  }
+  return FAILED_CONCLUSIONS.includes(run.conclusion || '') ? 'failure' : 'success';
+}
+
+function getCommitStatusStatus(status: GitHubCommitStatus): CIStatus {
+  return status.state === 'error' ? 'failure' : status.state;
+}
+
+/**
+ * Combine check runs and commit statuses: any failure fails CI, otherwise anything
+ * still running keeps it pending. A commit with no checks has status 'none'.
+ */
+export function aggregateCIStatus(
+  checkRuns: GitHubCheckRun[],
+  statuses: GitHubCommitStatus[]
+): CIResult {
+  const checks = [
+    ...checkRuns.map((run) => ({
+      name: run.name,
+      url: run.html_url || undefined,
+      status: getCheckRunStatus(run),
+    })),
+    ...statuses.map((status) => ({
+      name: status.context,
+      url: status.target_url || undefined,
+      status: getCommitStatusStatus(status),
+    })),
+  ];
+
+  const failing = checks
+    .filter((check) => check.status === 'failure')
+    .map(({ name, url }) => ({ name, url }));
+  let status: CIStatus = 'none';
+  if (failing.length > 0) {
+    status = 'failure';
+  } else if (checks.some((check) => check.status === 'pending')) {
+    status = 'pending';
+  } else if (checks.length > 0) {
+    status = 'success';
+  }
+  return { status, failing };
+}
+
+/**
+ * Fetch and aggregate every check run and commit status on a commit
+ */
+export async function getCIResult(context: HandlerContext, sha: string): Promise<CIResult> {
+  const [checkRuns, statuses] = await Promise.all([
+    getCheckRuns(context, sha),
+    getCommitStatuses(context, sha),
+  ]);
+  return aggregateCIStatus(checkRuns, statuses);
+}
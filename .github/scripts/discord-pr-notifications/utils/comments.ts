@@ -0,0 +1,154 @@
+import type {
+  HandlerContext,
+  Core,
+  DiscordMetadata,
+  GitHubComment,
+  GitHubReviewComment,
+  MarkdownOptions,
+  MirroredCommentType,
+} from '../types';
+import { sendThreadMessage, editMessage } from './discord';
+import { DISCORD_MESSAGE_LIMIT, formatQuote, mapToDiscord, truncateText } from './formatting';
+import { escapeMentions } from './markdown';
+import { getBotToken, getConfig } from './config';
+import { getMetadataStore } from '../stores/metadata-store';
+
+// Mirrored comments remembered for edits; older ones are posted anew if edited
+const MAX_MIRRORED_COMMENTS = 200;
+
+// Diff lines shown above an inline review comment, counting back from the commented line
+const DIFF_HUNK_LINES = 5;
+
+// Longest diff excerpt shown above a review comment
+const DIFF_EXCERPT_LIMIT = 500;
+
+/**
+ * Whether comments of this type should be copied into the thread
+ */
+export function isMirroringEnabled(context: HandlerContext, type: MirroredCommentType): boolean {
+  return getConfig(context).mirrorComments.includes(type);
+}
+
+/**
+ * Whether the comment was written by this bot or another bot, e.g. the metadata comment
+ */
+export function isBotComment(context: HandlerContext, comment: GitHubComment): boolean {
+  return comment.user.type === 'Bot' || comment.user.login === getConfig(context).botLogin;
+}
+
+/**
+ * Quote a comment body under `header`, shortened so the message fits in one Discord message
+ */
+function withQuote(
+  header: string,
+  body: string,
+  markdown: MarkdownOptions,
+  url?: string
+): string {
+  const budget = DISCORD_MESSAGE_LIMIT - header.length - 1;
+  return `${header}\n${formatQuote(body, budget, url, markdown)}`;
+}
+
+/**
+ * Thread message for a comment on the PR's conversation tab
+ */
+export function formatConversationComment(
+  comment: GitHubComment,
+  markdown: MarkdownOptions
+): string {
+  const author = mapToDiscord(comment.user.login, markdown.userMapping);
+  return withQuote(
+    `:speech_balloon: ${author} [commented](${comment.html_url}):`,
+    comment.body || '',
+    markdown,
+    comment.html_url
+  );
+}
+
+/**
+ * Thread message for an inline review comment, with the end of its diff hunk for context
+ */
+export function formatReviewComment(
+  comment: GitHubReviewComment,
+  markdown: MarkdownOptions
+): string {
+  const author = mapToDiscord(comment.user.login, markdown.userMapping);
+  const line = comment.line ?? comment.original_line;
+  const location = line ? `\`${comment.path}\` line ${line}` : `\`${comment.path}\``;
+  const excerpt = escapeMentions(comment.diff_hunk)
+    .split('\n')
+    .filter((hunkLine) => !hunkLine.startsWith('@@'))
+    .slice(-DIFF_HUNK_LINES)
+    .join('\n');
+  return withQuote(
+    `:mag: ${author} [commented](${comment.html_url}) on ${location}:\n` +
+      `\`\`\`diff\n${truncateText(excerpt, DIFF_EXCERPT_LIMIT)}\n\`\`\``,
+    comment.body || '',
+    markdown,
+    comment.html_url
+  );
+}
+
+/**
+ * Thread message for a comment-only review's summary
+ */
+export function formatReviewSummary(
+  reviewer: string,
+  body: string,
+  reviewUrl: string | undefined,
+  markdown: MarkdownOptions
+): string {
+  const author = mapToDiscord(reviewer, markdown.userMapping);
+  const reviewed = reviewUrl ? `[reviewed](${reviewUrl})` : 'reviewed';
+  return withQuote(`:speech_balloon: ${author} ${reviewed} the PR:`, body, markdown, reviewUrl);
+}
+
+/**
+ * Post a GitHub comment in the PR's thread, or edit the earlier copy if the comment
+ * was mirrored before, so edits never produce duplicates. `key` identifies the comment
+ * across runs, e.g. `conversation:123`.
+ */
+export async function mirrorComment(
+  context: HandlerContext,
+  core: Core,
+  prNumber: number,
+  metadata: DiscordMetadata,
+  key: string,
+  content: string
+): Promise<void> {
+  const botToken = getBotToken(context);
+  const { userMapping } = getConfig(context);
+  const mirrored = { ...metadata.mirrored_comments };
+  const existing = mirrored[key];
+  if (existing) {
+    try {
+      // Keep the link previews the first post had
+      await editMessage(botToken, metadata.thread_id, existing, content, userMapping, false);
+      return;
+    } catch (e) {
+      // The copy was deleted in Discord; post it again below
+      core.warning(
+        `Failed to edit mirrored comment, posting it again: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  const message = await sendThreadMessage(botToken, metadata.thread_id, content, userMapping);
+  delete mirrored[key];
+  mirrored[key] = message.id;
+  const keys = Object.keys(mirrored);
+  for (const old of keys.slice(0, Math.max(0, keys.length - MAX_MIRRORED_COMMENTS))) {
+    delete mirrored[old];
+  }
+
+  try {
+    await getMetadataStore(context, core).save(prNumber, {
+      ...metadata,
+      mirrored_comments: mirrored,
+    });
+  } catch (e) {
+    core.warning(
+      `Failed to record mirrored comment, later edits will be posted again: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
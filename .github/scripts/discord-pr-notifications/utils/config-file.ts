@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { BotConfig, ConfigFile, ConfigSchema, TemplateName } from '../types';
+import {
+  ANNOUNCEMENT_TYPES,
+  CARD_FORMATS,
+  DEFAULT_CONFIG,
+  ESCALATION_RULES,
+  METADATA_STORE_TYPES,
+  MIRRORED_COMMENT_TYPES,
+  THREAD_ARCHIVE_MINUTES,
+  THREAD_LOCK_STATUSES,
+  UNMAPPED_MENTION_STYLES,
+} from './config';
+import { DEFAULT_TEMPLATES, getTemplateError } from './templates';
+
+// Repository config file, relative to the checkout; DISCORD_CONFIG_FILE overrides it
+export const DEFAULT_CONFIG_FILE = '.github/discord-pr.yml';
+
+// Earlier JSON config file, still read when the YAML file doesn't exist
+export const LEGACY_CONFIG_FILE = '.github/discord-pr.json';
+
+const STRING: ConfigSchema = { type: 'string' };
+const BOOLEAN: ConfigSchema = { type: 'boolean' };
+const STRING_LIST: ConfigSchema = { type: 'list', items: STRING };
+
+function choiceList(values: string[]): ConfigSchema {
+  return { type: 'list', items: { type: 'enum', values } };
+}
+
+const TEMPLATES_SCHEMA: ConfigSchema = {
+  type: 'object',
+  properties: Object.fromEntries(
+    (Object.keys(DEFAULT_TEMPLATES) as TemplateName[]).map((name): [string, ConfigSchema] => [
+      name,
+      {
+        type: 'string',
+        check: (template) =>
+          template.trim() === '' ? 'expected a non-empty string' : getTemplateError(name, template),
+      },
+    ])
+  ),
+};
+
+// Every setting except secrets, which only come from the environment
+const CONFIG_FILE_SCHEMA: ConfigSchema = {
+  type: 'object',
+  properties: {
+    channelId: STRING,
+    routes: {
+      type: 'list',
+      items: {
+        type: 'object',
+        properties: { channel: STRING, baseBranches: STRING_LIST, labels: STRING_LIST },
+        required: ['channel'],
+      },
+    },
+    operationsRoleId: STRING,
+    userMapping: { type: 'map', values: STRING },
+    cardFormat: { type: 'enum', values: CARD_FORMATS },
+    requiredApprovals: { type: 'integer', min: 1 },
+    botLogin: STRING,
+    allowUnsignedMetadata: BOOLEAN,
+    metadataStore: { type: 'enum', values: METADATA_STORE_TYPES },
+    metadataBranch: STRING,
+    metadataFile: STRING,
+    createMissingCards: BOOLEAN,
+    muteDraftMentions: BOOLEAN,
+    announce: choiceList(ANNOUNCEMENT_TYPES),
+    announceEdits: BOOLEAN,
+    mirrorComments: choiceList(MIRRORED_COMMENT_TYPES),
+    threadArchiveMinutes: { type: 'integer', values: THREAD_ARCHIVE_MINUTES },
+    lockThreads: choiceList(THREAD_LOCK_STATUSES),
+    reactions: {
+      type: 'object',
+      properties: { approved: STRING, changes_requested: STRING, merged: STRING, closed: STRING },
+    },
+    labelEmoji: { type: 'map', values: STRING },
+    labelRules: {
+      type: 'list',
+      items: {
+        type: 'object',
+        properties: { label: STRING, notice: STRING, pingOperations: BOOLEAN },
+        required: ['label'],
+      },
+    },
+    escalations: choiceList(ESCALATION_RULES),
+    releaseBranches: STRING_LIST,
+    hotfixLabel: STRING,
+    unmappedMentions: { type: 'enum', values: UNMAPPED_MENTION_STYLES },
+    templates: TEMPLATES_SCHEMA,
+  },
+};
+
+function isMapping(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against its schema. Returns the first problem, prefixed with the path
+ * to the offending value (e.g. `routes[0].channel`), or undefined when it matches.
+ */
+export function validateConfigValue(
+  value: unknown,
+  schema: ConfigSchema,
+  path = ''
+): string | undefined {
+  const problem = (message: string) => (path ? `${path}: ${message}` : message);
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return problem('expected a string');
+      }
+      const error = schema.check?.(value);
+      return error ? problem(error) : undefined;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : problem('expected true or false');
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return problem('expected an integer');
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return problem(`expected an integer of at least ${schema.min}`);
+      }
+      if (schema.values && !schema.values.includes(value)) {
+        return problem(`expected one of ${schema.values.join(', ')}`);
+      }
+      return undefined;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? undefined
+        : problem(`expected one of ${schema.values.join(', ')}`);
+    case 'list':
+      if (!Array.isArray(value)) {
+        return problem('expected a list');
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = validateConfigValue(value[i], schema.items, `${path}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return undefined;
+    case 'object': {
+      if (!isMapping(value)) {
+        return problem('expected a mapping');
+      }
+      const missing = (schema.required || []).find((key) => value[key] === undefined);
+      if (missing !== undefined) {
+        return `${joinPath(path, missing)}: is required`;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        if (!Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+          return `${joinPath(path, key)}: unknown setting`;
+        }
+        const error = validateConfigValue(item, schema.properties[key], joinPath(path, key));
+        if (error) {
+          return error;
+        }
+      }
+      return undefined;
+    }
+    case 'map':
+      if (!isMapping(value)) {
+        return problem('expected a mapping');
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const error = validateConfigValue(item, schema.values, joinPath(path, key));
+        if (error) {
+          return error;
+        }
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Parse and validate the YAML (or JSON) text of a config file. An empty file has no
+ * settings.
+ */
+export function parseConfigFile(text: string, source: string): Partial<BotConfig> {
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(text);
+  } catch (e) {
+    throw new Error(`Invalid ${source}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (parsed === undefined || parsed === null) {
+    return {};
+  }
+
+  const error = validateConfigValue(parsed, CONFIG_FILE_SCHEMA);
+  if (error) {
+    throw new Error(`Invalid ${source}: ${error}`);
+  }
+
+  // Reactions the file leaves out keep their defaults
+  const config = parsed as ConfigFile;
+  return config.reactions
+    ? { ...config, reactions: { ...DEFAULT_CONFIG.reactions, ...config.reactions } }
+    : config;
+}
+
+/**
+ * Read settings from the repository's config file; a missing file has none. Invalid
+ * settings throw so a bad file fails the run before anything is posted.
+ */
+export function loadConfigFile(filePath: string): Partial<BotConfig> {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(
+      `Failed to read config file ${filePath}: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+  return parseConfigFile(text, `config file ${filePath}`);
+}
+
+/**
+ * Read the repository's settings from `configFile` when one is given, otherwise from
+ * DEFAULT_CONFIG_FILE in the `root` checkout or, if only that exists, LEGACY_CONFIG_FILE.
+ */
+export function loadRepositoryConfig(configFile?: string, root = '.'): Partial<BotConfig> {
+  if (configFile) {
+    return loadConfigFile(configFile);
+  }
+  const defaultFile = path.join(root, DEFAULT_CONFIG_FILE);
+  const legacyFile = path.join(root, LEGACY_CONFIG_FILE);
+  return loadConfigFile(
+    fs.existsSync(defaultFile) || !fs.existsSync(legacyFile) ? defaultFile : legacyFile
+  );
+}
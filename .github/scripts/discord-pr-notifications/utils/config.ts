@@ -0,0 +1,377 @@
+import type {
+  AnnouncementType,
+  BotConfig,
+  CardFormat,
+  Env,
+  EscalationRule,
+  HandlerContext,
+  LabelEmojiMap,
+  LabelRule,
+  MetadataStoreType,
+  MirroredCommentType,
+  ThreadArchiveMinutes,
+  ThreadLockStatus,
+  UnmappedMentionStyle,
+  UserMapping,
+} from '../types';
+
+export const DEFAULT_CONFIG: BotConfig = {
+  cardFormat: 'embed',
+  botLogin: 'github-actions[bot]', // Author of comments made with the workflow's GITHUB_TOKEN
+  allowUnsignedMetadata: false,
+  metadataStore: 'comment',
+  metadataBranch: 'discord-pr-metadata',
+  metadataFile: '.discord-pr-metadata.json',
+  createMissingCards: true,
+  muteDraftMentions: false,
+  announceEdits: false,
+  mirrorComments: ['conversation', 'review_comment', 'review'],
+  labelEmoji: {
+    'type:': ':label:',
+    'priority:': ':rotating_light:',
+  },
+  labelRules: [
+    { label: 'blocked', notice: ':no_entry: This PR has been marked as blocked.' },
+    // Pinged through the 'hotfix' escalation rather than `pingOperations`
+    { label: 'hotfix', notice: ':fire: This PR is a hotfix and needs attention.' },
+  ],
+  // 'protected_branch' is opt-in: the default branch is usually protected too
+  escalations: ['no_reviewers', 'release_branch', 'hotfix', 'default_branch_merge'],
+  releaseBranches: ['release/*', 'release-*'],
+  hotfixLabel: 'hotfix',
+  unmappedMentions: 'text',
+  templates: {},
+  userMapping: {},
+  threadArchiveMinutes: 1440,
+  lockThreads: ['approved', 'closed', 'merged'],
+  announce: [
+    'opened',
+    'reviewer_requested',
+    'reviewer_removed',
+    'review',
+    'synchronize',
+    'dismissed',
+    'ready',
+    'converted_to_draft',
+    'reopened',
+    'merged',
+    'closed',
+  ],
+  reactions: {
+    approved: '✅',
+    changes_requested: '❌',
+    merged: '🎉',
+    closed: '🚫',
+  },
+  routes: [],
+};
+
+export const CARD_FORMATS: CardFormat[] = ['embed', 'text'];
+export const METADATA_STORE_TYPES: MetadataStoreType[] = ['comment', 'branch', 'file'];
+export const MIRRORED_COMMENT_TYPES: MirroredCommentType[] = [
+  'conversation',
+  'review_comment',
+  'review',
+];
+export const ESCALATION_RULES: EscalationRule[] = [
+  'no_reviewers',
+  'release_branch',
+  'protected_branch',
+  'hotfix',
+  'default_branch_merge',
+];
+export const UNMAPPED_MENTION_STYLES: UnmappedMentionStyle[] = ['text', 'link'];
+export const ANNOUNCEMENT_TYPES: AnnouncementType[] = [...DEFAULT_CONFIG.announce];
+export const THREAD_LOCK_STATUSES: ThreadLockStatus[] = ['approved', 'closed', 'merged'];
+export const THREAD_ARCHIVE_MINUTES: ThreadArchiveMinutes[] = [60, 1440, 4320, 10080];
+
+/**
+ * Validate a metadata store name from user input
+ */
+export function parseMetadataStoreType(value: string, source: string): MetadataStoreType {
+  if (!METADATA_STORE_TYPES.includes(value as MetadataStoreType)) {
+    throw new Error(
+      `Invalid ${source} "${value}": expected one of ${METADATA_STORE_TYPES.join(', ')}`
+    );
+  }
+  return value as MetadataStoreType;
+}
+
+/**
+ * Parse a 'true'/'false' environment variable
+ */
+function parseBoolean(value: string, source: string): boolean {
+  if (!['true', 'false'].includes(value)) {
+    throw new Error(`Invalid ${source} "${value}": expected true or false`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Parse a comma-separated list of choices; 'none' gives an empty list
+ */
+function parseChoiceList<T extends string>(value: string, source: string, choices: T[]): T[] {
+  if (value.trim() === 'none') {
+    return [];
+  }
+  const items = value.split(',').map((item) => item.trim());
+  const invalid = items.find((item) => !choices.includes(item as T));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid ${source} "${value}": expected none or a list of ${choices.join(', ')}`);
+  }
+  return items as T[];
+}
+
+/**
+ * Parse a JSON environment variable holding an object of label prefix to emoji
+ */
+function parseLabelEmoji(value: string, source: string): LabelEmojiMap {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (e) {
+    throw new Error(`Invalid ${source}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((emoji) => typeof emoji !== 'string')
+  ) {
+    throw new Error(`Invalid ${source}: expected an object of label prefix to emoji`);
+  }
+  return parsed as LabelEmojiMap;
+}
+
+/**
+ * Parse a JSON environment variable holding a list of label rules
+ */
+function parseLabelRules(value: string, source: string): LabelRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (e) {
+    throw new Error(`Invalid ${source}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const isRule = (rule: unknown): rule is LabelRule => {
+    if (!rule || typeof rule !== 'object') {
+      return false;
+    }
+    const { label, notice, pingOperations } = rule as Record<string, unknown>;
+    return (
+      typeof label === 'string' &&
+      (notice === undefined || typeof notice === 'string') &&
+      (pingOperations === undefined || typeof pingOperations === 'boolean')
+    );
+  };
+  if (!Array.isArray(parsed) || !parsed.every(isRule)) {
+    throw new Error(
+      `Invalid ${source}: expected a list of { label, notice?, pingOperations? } rules`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Parse a JSON environment variable holding an object of GitHub login to Discord user ID
+ */
+function parseUserMapping(value: string, source: string): UserMapping {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (e) {
+    throw new Error(`Failed to parse ${source}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((id) => typeof id !== 'string')
+  ) {
+    throw new Error(`Invalid ${source}: expected an object of GitHub login to Discord user ID`);
+  }
+  return parsed as UserMapping;
+}
+
+/**
+ * Get the effective configuration for a handler run
+ */
+export function getConfig(context: HandlerContext): BotConfig {
+  return { ...DEFAULT_CONFIG, ...context.config };
+}
+
+/**
+ * The Discord bot token, for helpers called once the handler has checked it is set
+ */
+export function getBotToken(context: HandlerContext): string {
+  const { botToken } = getConfig(context);
+  if (!botToken) {
+    throw new Error('DISCORD_BOT_TOKEN secret must be set');
+  }
+  return botToken;
+}
+
+/**
+ * Read configuration overrides from environment variables
+ */
+export function getConfigFromEnv(env: Env): Partial<BotConfig> {
+  const config: Partial<BotConfig> = {};
+
+  if (env.DISCORD_BOT_TOKEN) {
+    config.botToken = env.DISCORD_BOT_TOKEN;
+  }
+
+  if (env.DISCORD_USER_MAPPING) {
+    config.userMapping = parseUserMapping(env.DISCORD_USER_MAPPING, 'DISCORD_USER_MAPPING');
+  }
+
+  if (env.DISCORD_CARD_FORMAT) {
+    const cardFormat = env.DISCORD_CARD_FORMAT as CardFormat;
+    if (!CARD_FORMATS.includes(cardFormat)) {
+      throw new Error(
+        `Invalid DISCORD_CARD_FORMAT "${env.DISCORD_CARD_FORMAT}": expected one of ${CARD_FORMATS.join(', ')}`
+      );
+    }
+    config.cardFormat = cardFormat;
+  }
+
+  if (env.DISCORD_REQUIRED_APPROVALS) {
+    const requiredApprovals = Number(env.DISCORD_REQUIRED_APPROVALS);
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1) {
+      throw new Error(
+        `Invalid DISCORD_REQUIRED_APPROVALS "${env.DISCORD_REQUIRED_APPROVALS}": expected a positive integer`
+      );
+    }
+    config.requiredApprovals = requiredApprovals;
+  }
+
+  if (env.GITHUB_BOT_LOGIN) {
+    config.botLogin = env.GITHUB_BOT_LOGIN;
+  }
+
+  if (env.DISCORD_METADATA_SECRET) {
+    config.metadataSecret = env.DISCORD_METADATA_SECRET;
+  }
+
+  if (env.DISCORD_ALLOW_UNSIGNED_METADATA) {
+    config.allowUnsignedMetadata = parseBoolean(
+      env.DISCORD_ALLOW_UNSIGNED_METADATA,
+      'DISCORD_ALLOW_UNSIGNED_METADATA'
+    );
+  }
+
+  if (env.DISCORD_METADATA_STORE) {
+    config.metadataStore = parseMetadataStoreType(env.DISCORD_METADATA_STORE, 'DISCORD_METADATA_STORE');
+  }
+
+  if (env.DISCORD_METADATA_BRANCH) {
+    config.metadataBranch = env.DISCORD_METADATA_BRANCH;
+  }
+
+  if (env.DISCORD_METADATA_FILE) {
+    config.metadataFile = env.DISCORD_METADATA_FILE;
+  }
+
+  if (env.DISCORD_CHANNEL_ID) {
+    config.channelId = env.DISCORD_CHANNEL_ID;
+  }
+
+  if (env.DISCORD_CREATE_MISSING_CARDS) {
+    config.createMissingCards = parseBoolean(
+      env.DISCORD_CREATE_MISSING_CARDS,
+      'DISCORD_CREATE_MISSING_CARDS'
+    );
+  }
+
+  if (env.DISCORD_MUTE_DRAFT_MENTIONS) {
+    config.muteDraftMentions = parseBoolean(
+      env.DISCORD_MUTE_DRAFT_MENTIONS,
+      'DISCORD_MUTE_DRAFT_MENTIONS'
+    );
+  }
+
+  if (env.DISCORD_ANNOUNCE_EDITS) {
+    config.announceEdits = parseBoolean(env.DISCORD_ANNOUNCE_EDITS, 'DISCORD_ANNOUNCE_EDITS');
+  }
+
+  if (env.DISCORD_MIRROR_COMMENTS) {
+    config.mirrorComments = parseChoiceList(
+      env.DISCORD_MIRROR_COMMENTS,
+      'DISCORD_MIRROR_COMMENTS',
+      MIRRORED_COMMENT_TYPES
+    );
+  }
+
+  if (env.DISCORD_LABEL_EMOJI) {
+    config.labelEmoji = parseLabelEmoji(env.DISCORD_LABEL_EMOJI, 'DISCORD_LABEL_EMOJI');
+  }
+
+  if (env.DISCORD_LABEL_RULES) {
+    config.labelRules = parseLabelRules(env.DISCORD_LABEL_RULES, 'DISCORD_LABEL_RULES');
+  }
+
+  if (env.DISCORD_OPERATIONS_ROLE_ID) {
+    config.operationsRoleId = env.DISCORD_OPERATIONS_ROLE_ID;
+  }
+
+  if (env.DISCORD_ESCALATIONS) {
+    config.escalations = parseChoiceList(
+      env.DISCORD_ESCALATIONS,
+      'DISCORD_ESCALATIONS',
+      ESCALATION_RULES
+    );
+  }
+
+  if (env.DISCORD_RELEASE_BRANCHES) {
+    config.releaseBranches = env.DISCORD_RELEASE_BRANCHES.split(',')
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern !== '');
+  }
+
+  if (env.DISCORD_HOTFIX_LABEL) {
+    config.hotfixLabel = env.DISCORD_HOTFIX_LABEL;
+  }
+
+  if (env.DISCORD_UNMAPPED_MENTIONS) {
+    const style = env.DISCORD_UNMAPPED_MENTIONS as UnmappedMentionStyle;
+    if (!UNMAPPED_MENTION_STYLES.includes(style)) {
+      throw new Error(
+        `Invalid DISCORD_UNMAPPED_MENTIONS "${env.DISCORD_UNMAPPED_MENTIONS}": expected one of ${UNMAPPED_MENTION_STYLES.join(', ')}`
+      );
+    }
+    config.unmappedMentions = style;
+  }
+
+  return config;
+}
+
+/**
+ * Whether reviewers should be named rather than pinged, because the PR is a draft
+ * and `muteDraftMentions` is on
+ */
+export function areReviewerMentionsMuted(context: HandlerContext): boolean {
+  return getConfig(context).muteDraftMentions && !!context.payload.pull_request.draft;
+}
+
+/**
+ * The rule for a label, if one is configured
+ */
+export function findLabelRule(context: HandlerContext, label: string): LabelRule | undefined {
+  return getConfig(context).labelRules.find(
+    (rule) => rule.label.toLowerCase() === label.toLowerCase()
+  );
+}
+
+/**
+ * Whether the event posts a message in the thread
+ */
+export function isAnnounced(context: HandlerContext, type: AnnouncementType): boolean {
+  return getConfig(context).announce.includes(type);
+}
+
+/**
+ * Whether threads are locked once the PR reaches the status
+ */
+export function shouldLockThread(context: HandlerContext, status: ThreadLockStatus): boolean {
+  return getConfig(context).lockThreads.includes(status);
+}
@@ -1,14 +1,180 @@
+import type {
+  DiscordAllowedMentions,
+  DiscordChannelChanges,
+  DiscordEmbed,
+  DiscordMessage,
+  DiscordMessagePayload,
+  DiscordThread,
+  ThreadArchiveMinutes,
+  UserMapping,
+} from '../types';
+import { DiscordApiError, isRetryableStatus } from './errors';
+
 const DISCORD_API_BASE = 'https://discord.com/api/v10';
 
 interface DiscordAPIResponse {
   ok: boolean;
   status: number;
-  json: () => Promise<any>;
+  route: string;
+  json: <T>() => Promise<T>; // Typed by the caller from the endpoint it requested
   text: () => Promise<string>;
 }
 
+export interface RetryPolicy {
+  /** How many times a rate-limited, 5xx or network-failed request is retried */
+  maxRetries: number;
+  /** Base delay for exponential backoff on 5xx and network errors */
+  baseDelayMs: number;
+  /** Upper bound for any single wait, including Retry-After */
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+interface RateLimitBucket {
+  remaining: number;
+  resetAt: number;
+}
+
+// Route -> bucket key, learned from X-RateLimit-Bucket response headers
+const routeBuckets = new Map<string, string>();
+// Bucket key -> remaining requests and reset time
+const buckets = new Map<string, RateLimitBucket>();
+let globalResetAt = 0;
+
+/**
+ * Override the retry policy used for all Discord requests
+ */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+/**
+ * Forget all learned rate-limit state and restore the default retry policy
+ */
+export function resetRateLimits(): void {
+  routeBuckets.clear();
+  buckets.clear();
+  globalResetAt = 0;
+  retryPolicy = { ...DEFAULT_RETRY_POLICY };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Build the rate-limit route for a request. Discord buckets requests per route
+ * template and major parameter (the channel), so minor IDs and query strings are collapsed.
+ */
+function getRoute(method: string, endpoint: string): string {
+  const path = endpoint
+    .replace(/\?.*$/, '')
+    .replace(/\/(messages|thread-members)\/[^/]+/g, '/$1/:id')
+    .replace(/\/reactions\/[^/]+/, '/reactions/:emoji');
+  return `${method} ${path}`;
+}
+
+function getMajorParameter(endpoint: string): string {
+  const match = endpoint.match(/^\/(channels|guilds)\/([^/]+)/);
+  return match ? match[2] : 'global';
+}
+
+function getNumericHeader(headers: Headers | undefined, name: string): number | undefined {
+  const value = headers?.get(name);
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 /**
- * Make a Discord API request
+ * Exponential backoff with jitter: a random delay between half and all of base * 2^attempt
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Wait until the global limit and the route's bucket allow another request
+ */
+async function waitForRateLimit(route: string): Promise<void> {
+  const now = Date.now();
+  let waitUntil = globalResetAt;
+
+  const bucketKey = routeBuckets.get(route);
+  const bucket = bucketKey ? buckets.get(bucketKey) : undefined;
+  if (bucket && bucket.remaining <= 0) {
+    waitUntil = Math.max(waitUntil, bucket.resetAt);
+  }
+
+  if (waitUntil > now) {
+    await sleep(Math.min(waitUntil - now, retryPolicy.maxDelayMs));
+  }
+}
+
+/**
+ * Record the bucket state reported by X-RateLimit-* headers
+ */
+function updateRateLimits(route: string, endpoint: string, headers: Headers | undefined): void {
+  const bucketHash = headers?.get('x-ratelimit-bucket');
+  if (!bucketHash) {
+    return;
+  }
+
+  const bucketKey = `${bucketHash}:${getMajorParameter(endpoint)}`;
+  routeBuckets.set(route, bucketKey);
+
+  const remaining = getNumericHeader(headers, 'x-ratelimit-remaining');
+  const resetAfter = getNumericHeader(headers, 'x-ratelimit-reset-after');
+  if (remaining !== undefined && resetAfter !== undefined) {
+    buckets.set(bucketKey, { remaining, resetAt: Date.now() + resetAfter * 1000 });
+  }
+}
+
+/**
+ * Work out how long to wait after a 429, preferring headers over the JSON body
+ */
+async function getRetryAfterMs(response: Response, attempt: number): Promise<number> {
+  let retryAfter =
+    getNumericHeader(response.headers, 'retry-after') ??
+    getNumericHeader(response.headers, 'x-ratelimit-reset-after');
+  let isGlobal =
+    response.headers?.get('x-ratelimit-global') === 'true' ||
+    response.headers?.get('x-ratelimit-scope') === 'global';
+
+  if (retryAfter === undefined) {
+    try {
+      const body = (await response.json()) as { retry_after?: number; global?: boolean } | null;
+      if (typeof body?.retry_after === 'number') {
+        retryAfter = body.retry_after;
+      }
+      isGlobal = isGlobal || body?.global === true;
+    } catch (e) {
+      // Body is not JSON, fall back to backoff
+    }
+  }
+
+  const delay =
+    retryAfter !== undefined
+      ? Math.min(retryAfter * 1000, retryPolicy.maxDelayMs)
+      : getBackoffDelay(attempt);
+  if (isGlobal) {
+    globalResetAt = Date.now() + delay;
+  }
+  return delay;
+}
+
+/**
+ * Make a Discord API request, honouring rate limits and retrying transient failures
  */
 async function discordRequest(
   botToken: string,
@@ -16,55 +182,152 @@ async function discordRequest(
   options: RequestInit = {}
 ): Promise<DiscordAPIResponse> {
   const url = `${DISCORD_API_BASE}${endpoint}`;
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      Authorization: `Bot ${botToken}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
+  const route = getRoute(options.method || 'GET', endpoint);
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForRateLimit(route);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          Authorization: `Bot ${botToken}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      });
+    } catch (e) {
+      // A POST may have reached Discord before the connection failed; sending it again
+      // could post a duplicate message or thread
+      const retryable = options.method !== 'POST';
+      if (retryable && attempt < retryPolicy.maxRetries) {
+        await sleep(getBackoffDelay(attempt));
+        continue;
+      }
+      throw new DiscordApiError(
+        `Discord request ${route} failed: ${e instanceof Error ? e.message : String(e)}`,
+        { status: 0, route, retryable }
+      );
+    }
+
+    updateRateLimits(route, endpoint, response.headers);
+
+    if (isRetryableStatus(response.status) && attempt < retryPolicy.maxRetries) {
+      const delay =
+        response.status === 429
+          ? await getRetryAfterMs(response, attempt)
+          : getBackoffDelay(attempt);
+      await sleep(delay);
+      continue;
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      route,
+      json: <T>() => response.json() as Promise<T>,
+      text: () => response.text(),
+    };
+  }
+}
+
+/**
+ * Build a typed error from a failed response
+ */
+async function toDiscordApiError(
+  response: DiscordAPIResponse,
+  action: string
+): Promise<DiscordApiError> {
+  const errorText = await response.text();
+  let code: number | undefined;
+  try {
+    const body = JSON.parse(errorText) as { code?: unknown } | null;
+    code = typeof body?.code === 'number' ? body.code : undefined;
+  } catch (e) {
+    // Not a JSON error body
+  }
+
+  return new DiscordApiError(`${action}: ${errorText}`, {
+    status: response.status,
+    code,
+    route: response.route,
+    retryable: isRetryableStatus(response.status),
   });
+}
 
+/**
+ * Mentions a message may ping: only the mapped users it mentions, never @everyone,
+ * @here or roles. A `<@id>` that doesn't belong to the user mapping stays silent even
+ * if it slips past escapeMentions.
+ */
+export function getAllowedMentions(
+  content = '',
+  userMapping: UserMapping = {}
+): DiscordAllowedMentions {
+  const mapped = new Set(Object.values(userMapping));
+  const users = new Set(
+    [...content.matchAll(/<@!?(\d+)>/g)].map((match) => match[1]).filter((id) => mapped.has(id))
+  );
+  return { parse: [], users: [...users].slice(0, 100) }; // Discord's limit per message
+}
+
+/**
+ * Build the request body for a message. Plain strings suppress link previews unless
+ * `suppressEmbeds` is off; payloads are sent as given so they can carry embeds.
+ * Every body gets explicit allowed mentions unless the payload sets its own.
+ */
+function toMessageBody(
+  message: string | DiscordMessagePayload,
+  userMapping: UserMapping,
+  suppressEmbeds = true
+): DiscordMessagePayload {
+  if (typeof message === 'string') {
+    const body: DiscordMessagePayload = {
+      content: message,
+      allowed_mentions: getAllowedMentions(message, userMapping),
+    };
+    if (suppressEmbeds) {
+      body.flags = 4; // Suppress embeds
+    }
+    return body;
+  }
   return {
-    ok: response.ok,
-    status: response.status,
-    json: () => response.json(),
-    text: () => response.text(),
+    ...message,
+    allowed_mentions: message.allowed_mentions ?? getAllowedMentions(message.content, userMapping),
   };
 }
 
 /**
- * Send a message to a Discord channel
+ * Send a message to a Discord channel, pinging only the users in `userMapping`
  */
 export async function sendMessage(
   botToken: string,
   channelId: string,
-  content: string
+  message: string | DiscordMessagePayload,
+  userMapping: UserMapping = {}
 ): Promise<{ id: string }> {
   const response = await discordRequest(botToken, `/channels/${channelId}/messages`, {
     method: 'POST',
-    body: JSON.stringify({
-      content,
-      flags: 4, // Suppress embeds
-    }),
+    body: JSON.stringify(toMessageBody(message, userMapping)),
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to send Discord message: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to send Discord message');
   }
 
   return response.json();
 }
 
 /**
- * Create a thread from a message
+ * Create a thread from a message, archived by Discord after `autoArchiveMinutes` idle
  */
 export async function createThread(
   botToken: string,
   channelId: string,
   messageId: string,
-  threadName: string
+  threadName: string,
+  autoArchiveMinutes: ThreadArchiveMinutes = 1440
 ): Promise<{ id: string } | null> {
   const response = await discordRequest(
     botToken,
@@ -73,38 +336,37 @@ export async function createThread(
       method: 'POST',
       body: JSON.stringify({
         name: threadName,
-        auto_archive_duration: 1440, // 24 hours
+        auto_archive_duration: autoArchiveMinutes,
       }),
     }
   );
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to create thread: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to create thread');
   }
 
   return response.json();
 }
 
 /**
- * Send a message in a thread
+ * Send a message in a thread, pinging only the users in `userMapping`
  */
 export async function sendThreadMessage(
   botToken: string,
   threadId: string,
-  content: string
-): Promise<void> {
+  message: string | DiscordMessagePayload,
+  userMapping: UserMapping = {}
+): Promise<{ id: string }> {
   const response = await discordRequest(botToken, `/channels/${threadId}/messages`, {
     method: 'POST',
-    body: JSON.stringify({
-      content,
-    }),
+    body: JSON.stringify(toMessageBody(message, userMapping, false)),
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to send thread message: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to send thread message');
   }
+
+  return response.json();
 }
 
 /**
@@ -114,39 +376,55 @@ export async function getMessage(
   botToken: string,
   channelId: string,
   messageId: string
-): Promise<{ id: string; content: string }> {
+): Promise<{ id: string; content: string; embeds?: DiscordEmbed[] }> {
   const response = await discordRequest(botToken, `/channels/${channelId}/messages/${messageId}`, {
     method: 'GET',
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get Discord message: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to get Discord message');
   }
 
   return response.json();
 }
 
 /**
- * Edit a Discord message
+ * Edit a Discord message, pinging only the users in `userMapping`. Text messages have
+ * their link previews suppressed unless `suppressEmbeds` is false, as for thread messages.
  */
 export async function editMessage(
   botToken: string,
   channelId: string,
   messageId: string,
-  content: string
+  message: string | DiscordMessagePayload,
+  userMapping: UserMapping = {},
+  suppressEmbeds = true
 ): Promise<void> {
   const response = await discordRequest(botToken, `/channels/${channelId}/messages/${messageId}`, {
     method: 'PATCH',
-    body: JSON.stringify({
-      content,
-      flags: 4, // Suppress embeds
-    }),
+    body: JSON.stringify(toMessageBody(message, userMapping, suppressEmbeds)),
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to edit Discord message: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to edit Discord message');
+  }
+}
+
+/**
+ * Delete a Discord message. Messages that are already gone are ignored.
+ */
+export async function deleteMessage(
+  botToken: string,
+  channelId: string,
+  messageId: string
+): Promise<void> {
+  const response = await discordRequest(botToken, `/channels/${channelId}/messages/${messageId}`, {
+    method: 'DELETE',
+  });
+
+  // 204 is success, 404 means the message was already deleted
+  if (!response.ok && response.status !== 204 && response.status !== 404) {
+    throw await toDiscordApiError(response, 'Failed to delete Discord message');
   }
 }
 
@@ -171,8 +449,7 @@ export async function addReaction(
 
   if (!response.ok && response.status !== 204) {
     // 204 is success for reactions
-    const errorText = await response.text();
-    throw new Error(`Failed to add reaction: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to add reaction');
   }
 }
 
@@ -196,8 +473,7 @@ export async function removeReaction(
 
   // 204 is success, 404 means reaction didn't exist (which is fine)
   if (!response.ok && response.status !== 204 && response.status !== 404) {
-    const errorText = await response.text();
-    throw new Error(`Failed to remove reaction: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to remove reaction');
   }
 }
 
@@ -217,26 +493,63 @@ export async function lockThread(
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to ${locked ? 'lock' : 'unlock'} thread: ${errorText}`);
+    throw await toDiscordApiError(response, `Failed to ${locked ? 'lock' : 'unlock'} thread`);
   }
 }
 
 /**
- * Archive and lock a thread
+ * Archive a thread, locking it unless `locked` is false
  */
-export async function archiveThread(botToken: string, threadId: string): Promise<void> {
+export async function archiveThread(
+  botToken: string,
+  threadId: string,
+  locked = true
+): Promise<void> {
   const response = await discordRequest(botToken, `/channels/${threadId}`, {
     method: 'PATCH',
     body: JSON.stringify({
       archived: true,
-      locked: true,
+      locked,
     }),
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to archive thread: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to archive thread');
+  }
+}
+
+/**
+ * Unarchive and unlock a thread
+ */
+export async function unarchiveThread(botToken: string, threadId: string): Promise<void> {
+  const response = await discordRequest(botToken, `/channels/${threadId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      archived: false,
+      locked: false,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to unarchive thread');
+  }
+}
+
+/**
+ * Update a channel or thread's settings, e.g. rename a thread
+ */
+export async function modifyChannel(
+  botToken: string,
+  channelId: string,
+  changes: DiscordChannelChanges
+): Promise<void> {
+  const response = await discordRequest(botToken, `/channels/${channelId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to modify channel');
   }
 }
 
@@ -254,7 +567,128 @@ export async function removeThreadMember(
 
   // 204 is success, 404 means user wasn't in thread (which is fine)
   if (!response.ok && response.status !== 204 && response.status !== 404) {
-    const errorText = await response.text();
-    throw new Error(`Failed to remove thread member: ${errorText}`);
+    throw await toDiscordApiError(response, 'Failed to remove thread member');
   }
 }
+
+/**
+ * List messages in a channel, newest first. Pass `before` to page further back.
+ */
+export async function getChannelMessages(
+  botToken: string,
+  channelId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<DiscordMessage[]> {
+  const query = new URLSearchParams({ limit: String(options.limit ?? 100) });
+  if (options.before) {
+    query.set('before', options.before);
+  }
+  const response = await discordRequest(
+    botToken,
+    `/channels/${channelId}/messages?${query.toString()}`,
+    {
+      method: 'GET',
+    }
+  );
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to list Discord messages');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the bot's own Discord user, e.g. to tell its messages apart from other bots'
+ */
+export async function getCurrentUser(botToken: string): Promise<{ id: string }> {
+  const response = await discordRequest(botToken, '/users/@me', {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to get the bot user');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get a channel, e.g. to learn which guild it belongs to
+ */
+export async function getChannel(
+  botToken: string,
+  channelId: string
+): Promise<{ id: string; guild_id?: string }> {
+  const response = await discordRequest(botToken, `/channels/${channelId}`, {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to get Discord channel');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get a thread, including whether it is locked or archived
+ */
+export async function getThread(botToken: string, threadId: string): Promise<DiscordThread> {
+  const response = await discordRequest(botToken, `/channels/${threadId}`, {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to get thread');
+  }
+
+  return response.json();
+}
+
+/**
+ * List all active threads in a guild
+ */
+export async function getActiveThreads(
+  botToken: string,
+  guildId: string
+): Promise<DiscordThread[]> {
+  const response = await discordRequest(botToken, `/guilds/${guildId}/threads/active`, {
+    method: 'GET',
+  });
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to list active threads');
+  }
+
+  const data = await response.json<{ threads: DiscordThread[] }>();
+  return data.threads;
+}
+
+/**
+ * List a channel's archived public threads, most recently archived first.
+ * Pass the last thread's archive timestamp as `before` to page further back.
+ */
+export async function getArchivedThreads(
+  botToken: string,
+  channelId: string,
+  before?: string
+): Promise<{ threads: DiscordThread[]; has_more: boolean }> {
+  const query = new URLSearchParams({ limit: '100' });
+  if (before) {
+    query.set('before', before);
+  }
+  const response = await discordRequest(
+    botToken,
+    `/channels/${channelId}/threads/archived/public?${query.toString()}`,
+    {
+      method: 'GET',
+    }
+  );
+
+  if (!response.ok) {
+    throw await toDiscordApiError(response, 'Failed to list archived threads');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,62 @@
+/**
+ * Error thrown when a Discord API request fails
+ */
+export class DiscordApiError extends Error {
+  /** HTTP status code, or 0 when the request never got a response */
+  readonly status: number;
+  /** Discord JSON error code (e.g. 50013 for missing permissions), if provided */
+  readonly code?: number;
+  /** Method and rate-limit route of the failed request, e.g. `PATCH /channels/123` */
+  readonly route: string;
+  /** Whether the same request may succeed if tried again later */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    details: { status: number; code?: number; route: string; retryable: boolean }
+  ) {
+    super(message);
+    this.name = 'DiscordApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.route = details.route;
+    this.retryable = details.retryable;
+  }
+
+  /**
+   * True when the bot lacks access or permissions for the target resource
+   */
+  get isPermissionError(): boolean {
+    return (
+      this.status === 403 ||
+      this.code === DISCORD_ERROR_CODES.MISSING_ACCESS ||
+      this.code === DISCORD_ERROR_CODES.MISSING_PERMISSIONS
+    );
+  }
+
+  /**
+   * True when the target resource does not exist
+   */
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+/**
+ * Discord JSON error codes the bot cares about
+ * See https://discord.com/developers/docs/topics/opcodes-and-status-codes#json
+ */
+export const DISCORD_ERROR_CODES = {
+  UNKNOWN_CHANNEL: 10003,
+  UNKNOWN_MESSAGE: 10008,
+  MISSING_ACCESS: 50001,
+  MISSING_PERMISSIONS: 50013,
+  THREAD_ARCHIVED: 50083,
+} as const;
+
+/**
+ * Whether an HTTP status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
@@ -0,0 +1,115 @@
+import type {
+  Core,
+  DiscordMessagePayload,
+  EscalationRule,
+  GitHubPullRequest,
+  HandlerContext,
+} from '../types';
+import { sendThreadMessage } from './discord';
+import { isBranchProtected } from './github';
+import { getConfig } from './config';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether an escalation rule is turned on
+ */
+export function isEscalationEnabled(context: HandlerContext, rule: EscalationRule): boolean {
+  return getConfig(context).escalations.includes(rule);
+}
+
+/**
+ * Whether a branch matches any of the patterns, where '*' matches any run of characters
+ */
+export function matchesBranchPattern(branch: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(branch)
+  );
+}
+
+/**
+ * Whether a label is the configured hotfix label
+ */
+export function isHotfixLabel(context: HandlerContext, label: string): boolean {
+  return label.toLowerCase() === getConfig(context).hotfixLabel.toLowerCase();
+}
+
+/**
+ * Why a newly opened PR needs the operations role's attention, one reason per enabled
+ * rule that applies
+ */
+export async function getOpenedEscalations(
+  context: HandlerContext,
+  pr: GitHubPullRequest
+): Promise<string[]> {
+  const reasons: string[] = [];
+  const base = pr.base.ref;
+
+  // Drafts are not expected to have reviewers yet
+  if (
+    isEscalationEnabled(context, 'no_reviewers') &&
+    !pr.draft &&
+    (pr.requested_reviewers || []).length === 0
+  ) {
+    reasons.push('No reviewers are requested');
+  }
+
+  if (
+    isEscalationEnabled(context, 'release_branch') &&
+    matchesBranchPattern(base, getConfig(context).releaseBranches)
+  ) {
+    reasons.push(`Targets the release branch \`${base}\``);
+  } else if (
+    isEscalationEnabled(context, 'protected_branch') &&
+    (await isBranchProtected(context, base))
+  ) {
+    reasons.push(`Targets the protected branch \`${base}\``);
+  }
+
+  if (
+    isEscalationEnabled(context, 'hotfix') &&
+    (pr.labels || []).some((label) => isHotfixLabel(context, label.name))
+  ) {
+    reasons.push('Labeled as a hotfix');
+  }
+
+  return reasons;
+}
+
+/**
+ * Prefix the content with a mention of the operations role. Only that role may be
+ * pinged by the message. Returns null when no role is configured.
+ */
+export function pingOperations(
+  context: HandlerContext,
+  content: string
+): DiscordMessagePayload | null {
+  const roleId = getConfig(context).operationsRoleId;
+  if (!roleId) {
+    return null;
+  }
+  return {
+    content: `<@&${roleId}> ${content}`,
+    allowed_mentions: { parse: [], roles: [roleId] },
+  };
+}
+
+/**
+ * Ping the operations role in the thread. Skipped when no role is configured.
+ */
+export async function escalate(
+  context: HandlerContext,
+  core: Core,
+  botToken: string,
+  threadId: string,
+  content: string
+): Promise<void> {
+  const message = pingOperations(context, content);
+  if (!message) {
+    core.info('Skipping operations escalation: DISCORD_OPERATIONS_ROLE_ID is not set');
+    return;
+  }
+  await sendThreadMessage(botToken, threadId, message);
+}
@@ -1,4 +1,199 @@
-import type { UserMapping } from '../types';
+import type {
+  CardFormat,
+  CIStatus,
+  DiscordEmbed,
+  DiscordMessagePayload,
+  LabelEmojiMap,
+  MarkdownOptions,
+  PRCardState,
+  PRCardStatus,
+  ReviewVerdict,
+  UnmappedMentionStyle,
+  UserMapping,
+} from '../types';
+import { countApprovals } from './card-state';
+import { convertMarkdown, escapeMentions } from './markdown';
+
+// Embed sidebar colour per lifecycle status
+export const STATUS_COLORS: Record<PRCardStatus, number> = {
+  draft: 0x95a5a6, // grey
+  ready_for_review: 0x3498db, // blue
+  changes_requested: 0xe67e22, // orange
+  approved: 0x2ecc71, // green
+  merged: 0x9b59b6, // purple
+  closed: 0xe74c3c, // red
+};
+
+// Checklist icon per reviewer verdict
+const VERDICT_ICONS: Record<ReviewVerdict, string> = {
+  pending: ':hourglass_flowing_sand:',
+  approved: ':white_check_mark:',
+  changes_requested: ':tools:',
+  commented: ':speech_balloon:',
+  dismissed: ':arrows_counterclockwise:',
+};
+
+// CI line text per aggregated check status; 'none' has no line
+const CI_TEXT: Record<Exclude<CIStatus, 'none'>, string> = {
+  pending: ':hourglass_flowing_sand: Checks running',
+  success: ':white_check_mark: Checks passed',
+  failure: ':x: Checks failed',
+};
+
+// Discord message flag that stops link previews from rendering
+const SUPPRESS_EMBEDS_FLAG = 4;
+
+// Longest message content Discord accepts
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+// Longest description shown on the card; longer ones are posted in full in the thread
+export const CARD_DESCRIPTION_LIMIT = 1000;
+
+// Longest value Discord accepts in an embed field
+const EMBED_FIELD_LIMIT = 1024;
+
+// Most characters Discord accepts across an embed's title, description, field names and
+// values, footer and author name together
+const EMBED_TOTAL_LIMIT = 6000;
+
+// Lines longer than this are split when a message is broken up
+const MAX_SPLIT_LINE_LENGTH = DISCORD_MESSAGE_LIMIT - 100;
+
+const CODE_FENCE = /^\s*```/;
+
+/**
+ * The opening fence line of the code block left open at the end of the text, if any
+ */
+function getOpenCodeFence(text: string): string | null {
+  let fence: string | null = null;
+  for (const line of text.split('\n')) {
+    if (CODE_FENCE.test(line)) {
+      fence = fence === null ? line.trim() : null;
+    }
+  }
+  return fence;
+}
+
+/**
+ * Shorten text to at most `limit` characters, cutting at a line or word break, closing
+ * any code block left open and ending with `suffix`
+ */
+export function truncateText(text: string, limit: number, suffix = '…'): string {
+  if (text.length <= limit) {
+    return text;
+  }
+  const cutAt = (budget: number) => {
+    const cut = text.slice(0, Math.max(0, budget));
+    const lastBreak = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf(' '));
+    return (lastBreak > budget / 2 ? cut.slice(0, lastBreak) : cut).trimEnd();
+  };
+
+  const budget = limit - suffix.length;
+  let cut = cutAt(budget);
+  if (getOpenCodeFence(cut) !== null) {
+    // Leave room to close the block
+    cut = cutAt(budget - '\n```'.length);
+    if (getOpenCodeFence(cut) !== null) {
+      cut += '\n```';
+    }
+  }
+  return cut + suffix;
+}
+
+/**
+ * Split text into messages of at most `limit` characters on line breaks. A code block
+ * that spans two messages is closed at the end of the first and reopened in the next.
+ */
+export function splitMessage(text: string, limit = DISCORD_MESSAGE_LIMIT): string[] {
+  const lines = text.split('\n').flatMap((line) => {
+    const parts = [];
+    for (let i = 0; i < line.length; i += MAX_SPLIT_LINE_LENGTH) {
+      parts.push(line.slice(i, i + MAX_SPLIT_LINE_LENGTH));
+    }
+    return parts.length > 0 ? parts : [''];
+  });
+
+  const messages: string[] = [];
+  let current = '';
+  let fence: string | null = null;
+  for (const line of lines) {
+    const closing = fence === null ? '' : '\n```';
+    if (current !== '' && current.length + 1 + line.length + closing.length > limit) {
+      messages.push(current + closing);
+      current = fence === null ? line : `${fence}\n${line}`;
+    } else {
+      current = current === '' ? line : `${current}\n${line}`;
+    }
+    if (CODE_FENCE.test(line)) {
+      fence = fence === null ? line.trim() : null;
+    }
+  }
+  if (current.trim() !== '') {
+    messages.push(current);
+  }
+  return messages;
+}
+
+/**
+ * Quote user-authored text, shortened so the quote fits in `limit` characters and
+ * linking to `url` for the rest. With `markdown` options the text is converted from
+ * GitHub markdown; otherwise only its mentions are escaped.
+ */
+export function formatQuote(
+  text: string,
+  limit: number,
+  url?: string,
+  markdown?: MarkdownOptions
+): string {
+  const suffix = url ? `\n… [Read more](<${url}>)` : '\n…';
+  const body = markdown ? convertMarkdown(text, markdown) : escapeMentions(text.trim());
+  // Quoting adds "> " to every line, so shrink the text until the quote fits
+  for (let budget = limit; ; ) {
+    const quoted = `> ${truncateText(body, budget, suffix).replace(/\n/g, '\n> ')}`;
+    if (quoted.length <= limit || budget <= suffix.length) {
+      return quoted;
+    }
+    budget -= quoted.length - limit;
+  }
+}
+
+/**
+ * The PR description converted for Discord
+ */
+export function renderDescription(
+  card: PRCardState,
+  userMapping: UserMapping,
+  unmappedMentions: UnmappedMentionStyle = 'text'
+): string {
+  return convertMarkdown(card.description, {
+    repoUrl: card.url.replace(/\/pull\/\d+$/, ''),
+    ref: card.base_branch,
+    userMapping,
+    unmappedMentions,
+  });
+}
+
+/**
+ * The PR description as shown on the card, cut to `limit` with a link to the PR.
+ * A description cut short in card state always gets the link; with no room for
+ * the link, a description that doesn't fit is left out.
+ */
+function getCardDescription(
+  card: PRCardState,
+  userMapping: UserMapping,
+  unmappedMentions?: UnmappedMentionStyle,
+  limit = CARD_DESCRIPTION_LIMIT
+): string {
+  const description = renderDescription(card, userMapping, unmappedMentions);
+  if (description.length <= limit && !card.description_truncated) {
+    return description;
+  }
+  const readMore = `\n… [Read more](${card.url})`;
+  if (limit <= readMore.length) {
+    return '';
+  }
+  return truncateText(description, limit - readMore.length, '') + readMore;
+}
 
 /**
  * Map GitHub username to Discord mention
@@ -13,133 +208,286 @@ export function mapToDiscord(
 }
 
 /**
- * Build the initial PR message for Discord
+ * Mention a reviewer, or only name them when `muted` so Discord doesn't ping them
  */
-export function buildPRMessage(params: {
-  prNumber: number;
-  prTitle: string;
-  prUrl: string;
-  headBranch: string;
-  baseBranch: string;
-  author: string;
-  prDescription: string;
-  reviewerLogins: string[];
-  isDraft: boolean;
-  userMapping: UserMapping;
-}): string {
-  const { prNumber, prTitle, prUrl, headBranch, baseBranch, author, prDescription, reviewerLogins, isDraft, userMapping } = params;
+export function mentionReviewer(
+  githubUsername: string,
+  userMapping: UserMapping,
+  muted: boolean
+): string {
+  return muted ? `@${githubUsername}` : mapToDiscord(githubUsername, userMapping);
+}
 
-  let message = `## [PR #${prNumber}: ${prTitle}](${prUrl})\n`;
-  message += `\`${headBranch}\` -> \`${baseBranch}\`\n\n`;
-  message += `**Author:** ${mapToDiscord(author, userMapping)}\n`;
+/**
+ * Status line text for a card, e.g. ":white_check_mark: Approved by @alice"
+ */
+export function getStatusText(card: PRCardState, userMapping: UserMapping): string {
+  const actor = card.status_actor ? mapToDiscord(card.status_actor, userMapping) : null;
 
-  // Add PR description if it exists
-  if (prDescription && prDescription.trim() !== '') {
-    message += `${prDescription}\n\n`;
+  switch (card.status) {
+    case 'draft':
+      return ':pencil: Draft - In Progress';
+    case 'ready_for_review':
+      return ':eyes: Ready for Review';
+    case 'changes_requested':
+      return actor ? `:tools: Changes Requested by ${actor}` : ':tools: Changes Requested';
+    case 'approved':
+      return actor ? `:white_check_mark: Approved by ${actor}` : ':white_check_mark: Approved';
+    case 'merged':
+      return actor ? `:tada: Merged by ${actor}` : ':tada: Merged';
+    case 'closed':
+      return actor ? `:closed_book: Closed by ${actor}` : ':closed_book: Closed';
   }
+}
 
-  // Reviewers section
-  if (reviewerLogins.length > 0) {
-    const reviewerMentions = reviewerLogins.map((login) => mapToDiscord(login, userMapping)).join(' ');
-    message += `**Reviewers:** ${reviewerMentions}\n\n`;
-  } else {
-    // ANSI warning format in code block
-    message += `⚠️ WARNING::No reviewers assigned:\n`;
-    message += `PR has to be reviewed by another member before merging.\n\n`;
-  }
+/**
+ * CI line text for a card, or null when the PR has no checks
+ */
+export function getCIText(card: PRCardState): string | null {
+  return card.ci === 'none' ? null : CI_TEXT[card.ci];
+}
 
-  // Status - check if draft
-  if (isDraft) {
-    message += `**Status**: :pencil: Draft - In Progress\n`;
-  } else {
-    message += `**Status**: :eyes: Ready for Review\n`;
-  }
+/**
+ * Labels as badges, prefixed with the emoji of their longest matching prefix,
+ * e.g. ":label: `type: BUG` `docs`"
+ */
+export function renderLabelBadges(labels: string[], labelEmoji: LabelEmojiMap): string {
+  const prefixes = Object.keys(labelEmoji).sort((a, b) => b.length - a.length);
+  return labels
+    .map((label) => {
+      const prefix = prefixes.find((p) => label.toLowerCase().startsWith(p.toLowerCase()));
+      return prefix ? `${labelEmoji[prefix]} \`${label}\`` : `\`${label}\``;
+    })
+    .join(' ');
+}
 
-  return message;
+/**
+ * Approval progress, e.g. "1/2 approvals"
+ */
+export function getApprovalSummary(card: PRCardState): string {
+  return `${countApprovals(card)}/${card.required_approvals ?? 1} approvals`;
 }
 
 /**
- * Update the reviewers line in a message
+ * One line per reviewer with an icon for their latest verdict
  */
-export function updateReviewersLine(
-  content: string,
-  reviewerLogins: string[],
-  userMapping: UserMapping
+export function renderReviewerChecklist(card: PRCardState, userMapping: UserMapping): string {
+  return card.reviewers
+    .map((login) => `${VERDICT_ICONS[card.verdicts[login] || 'pending']} ${mapToDiscord(login, userMapping)}`)
+    .join('\n');
+}
+
+/**
+ * Render the parent PR message from card state
+ */
+export function renderPRCard(
+  card: PRCardState,
+  userMapping: UserMapping,
+  labelEmoji: LabelEmojiMap = {},
+  unmappedMentions?: UnmappedMentionStyle
 ): string {
-  const lines = content.split('\n');
-  let beforeReviewers: string[] = [];
-  let afterReviewers: string[] = [];
-  let reviewersLineIndex = -1;
-
-  // Find the reviewers line or no reviewers warning
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].includes('Reviewers:') || lines[i].includes('WARNING::No reviewers assigned')) {
-      reviewersLineIndex = i;
-      break;
-    }
-  }
+  let header = `## [PR #${card.number}: ${escapeMentions(card.title)}](${card.url})\n`;
+  header += `\`${card.head_branch}\` -> \`${card.base_branch}\`\n\n`;
+  header += `**Author:** ${mapToDiscord(card.author, userMapping)}\n`;
 
-  if (reviewersLineIndex >= 0) {
-    beforeReviewers = lines.slice(0, reviewersLineIndex);
-    afterReviewers = lines.slice(reviewersLineIndex + 1);
+  let reviewers: string;
+  if (card.reviewers.length > 0) {
+    reviewers = `**Reviewers:** ${getApprovalSummary(card)}\n`;
+    reviewers += renderReviewerChecklist(card, userMapping);
   } else {
-    // If no reviewers line found, assume it should be after the Author line
-    const authorLineIndex = lines.findIndex((line) => line.startsWith('**Author:**'));
-    if (authorLineIndex >= 0) {
-      beforeReviewers = lines.slice(0, authorLineIndex + 1);
-      afterReviewers = lines.slice(authorLineIndex + 1);
-    } else {
-      beforeReviewers = lines;
-      afterReviewers = [];
-    }
+    reviewers = `⚠️ WARNING::No reviewers assigned:\n`;
+    reviewers += `PR has to be reviewed by another member before merging.`;
   }
 
-  // Rebuild the message with current reviewers
-  const rebuiltLines = [...beforeReviewers];
+  let footer = `**Status**: ${getStatusText(card, userMapping)}\n`;
+  const ciText = getCIText(card);
+  if (ciText) {
+    footer += `**CI**: ${ciText}\n`;
+  }
+  if (card.labels.length > 0) {
+    footer += `**Labels:** ${renderLabelBadges(card.labels, labelEmoji)}\n`;
+  }
 
-  if (reviewerLogins.length > 0) {
-    const reviewerMentions = reviewerLogins.map((login) => mapToDiscord(login, userMapping)).join(' ');
-    rebuiltLines.push(`**Reviewers:** ${reviewerMentions}\n\n`);
-  } else {
-    rebuiltLines.push(`⚠️ WARNING::No reviewers assigned:`);
-    rebuiltLines.push(`PR has to be reviewed by another member before merging.\n`);
+  // The header and status always fit; long labels, then a long reviewer list and then
+  // the description give way to stay within the message limit
+  footer = truncateText(footer, DISCORD_MESSAGE_LIMIT - header.length);
+  reviewers = truncateText(reviewers, DISCORD_MESSAGE_LIMIT - header.length - footer.length - 2);
+  const description = getCardDescription(
+    card,
+    userMapping,
+    unmappedMentions,
+    Math.min(
+      CARD_DESCRIPTION_LIMIT,
+      DISCORD_MESSAGE_LIMIT - header.length - reviewers.length - footer.length - 4
+    )
+  );
+
+  let message = header;
+  if (description !== '') {
+    message += `${description}\n\n`;
   }
+  return `${message}${reviewers}\n\n${footer}`;
+}
 
-  rebuiltLines.push(...afterReviewers);
-  return rebuiltLines.join('\n');
+/**
+ * Characters of the embed that count towards Discord's total embed limit
+ */
+function getEmbedLength(embed: DiscordEmbed): number {
+  const fields = (embed.fields || []).reduce(
+    (length, field) => length + field.name.length + field.value.length,
+    0
+  );
+  return (
+    (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    (embed.author?.name.length ?? 0) +
+    fields
+  );
 }
 
 /**
- * Update the status line in a message
+ * Render the parent PR message as a Discord embed
  */
-export function updateStatusLine(content: string, newStatus: string): string {
-  const lines = content.split('\n');
-  const newLines = lines.map((line) => {
-    if (line.startsWith('**Status**:')) {
-      return `**Status**: ${newStatus}`;
-    }
-    return line;
-  });
+export function renderPRCardEmbed(
+  card: PRCardState,
+  userMapping: UserMapping,
+  repository: string,
+  labelEmoji: LabelEmojiMap = {},
+  unmappedMentions?: UnmappedMentionStyle
+): DiscordEmbed {
+  const reviewers =
+    card.reviewers.length > 0
+      ? renderReviewerChecklist(card, userMapping)
+      : '⚠️ No reviewers assigned - PR has to be reviewed by another member before merging.';
 
-  // If no status line was found, add it after Reviewers
-  const hasStatus = newLines.some((line) => line.startsWith('**Status**:'));
-  if (!hasStatus) {
-    const reviewersIndex = newLines.findIndex(
-      (line) => line.includes('Reviewers:') || line.includes('WARNING::No reviewers assigned')
+  let fields: NonNullable<DiscordEmbed['fields']> = [
+    { name: 'Branches', value: `\`${card.head_branch}\` -> \`${card.base_branch}\``, inline: true },
+    { name: 'Author', value: mapToDiscord(card.author, userMapping), inline: true },
+    {
+      name: card.reviewers.length > 0 ? `Reviewers (${getApprovalSummary(card)})` : 'Reviewers',
+      value: reviewers,
+      inline: false,
+    },
+    { name: 'Status', value: getStatusText(card, userMapping), inline: false },
+  ];
+  const ciText = getCIText(card);
+  if (ciText) {
+    fields.push({ name: 'CI', value: ciText, inline: false });
+  }
+  if (card.labels.length > 0) {
+    fields.push({ name: 'Labels', value: renderLabelBadges(card.labels, labelEmoji), inline: false });
+  }
+  fields = fields.map((field) => ({
+    ...field,
+    value: truncateText(field.value, EMBED_FIELD_LIMIT),
+  }));
+
+  const embed: DiscordEmbed = {
+    title: `PR #${card.number}: ${card.title}`.substring(0, 256), // Discord embed title limit
+    url: card.url,
+    color: STATUS_COLORS[card.status],
+    author: {
+      name: card.author,
+      url: `https://github.com/${card.author}`,
+      icon_url: card.author_avatar_url,
+    },
+    fields,
+    footer: { text: repository },
+  };
+  const description = getCardDescription(card, userMapping, unmappedMentions);
+  if (description !== '') {
+    embed.description = description;
+  }
+  if (card.updated_at) {
+    embed.timestamp = card.updated_at;
+  }
+
+  // Each part fits on its own but not always all together; the description, then long
+  // labels and then a long reviewer list give way to stay within the total limit
+  const overBy = () => getEmbedLength(embed) - EMBED_TOTAL_LIMIT;
+  if (embed.description && overBy() > 0) {
+    embed.description = truncateText(
+      embed.description,
+      Math.max(1, embed.description.length - overBy())
     );
-    if (reviewersIndex >= 0) {
-      newLines.splice(reviewersIndex + 1, 0, `**Status**: ${newStatus}`);
-    } else {
-      newLines.push(`**Status**: ${newStatus}`);
+  }
+  for (const field of [fields.find((f) => f.name === 'Labels'), fields[2]]) {
+    if (field && overBy() > 0) {
+      field.value = truncateText(field.value, Math.max(1, field.value.length - overBy()));
     }
   }
+  return embed;
+}
 
-  return newLines.join('\n');
+/**
+ * Render the parent PR message payload in the configured format.
+ * Both formats clear the other's fields so a message can switch formats on edit.
+ */
+export function renderPRCardMessage(
+  card: PRCardState,
+  userMapping: UserMapping,
+  options: {
+    format: CardFormat;
+    repository: string;
+    labelEmoji?: LabelEmojiMap;
+    unmappedMentions?: UnmappedMentionStyle;
+  }
+): DiscordMessagePayload {
+  if (options.format === 'text') {
+    return {
+      content: renderPRCard(card, userMapping, options.labelEmoji, options.unmappedMentions),
+      embeds: [],
+      flags: SUPPRESS_EMBEDS_FLAG,
+    };
+  }
+  return {
+    content: '',
+    embeds: [
+      renderPRCardEmbed(
+        card,
+        userMapping,
+        options.repository,
+        options.labelEmoji,
+        options.unmappedMentions
+      ),
+    ],
+    flags: 0,
+  };
 }
 
 /**
- * Replace status line using regex (for simple replacements)
+ * Build the initial PR message for Discord
  */
-export function replaceStatusLine(content: string, newStatus: string): string {
-  return content.replace(/\*\*Status\*\*: .*/g, `**Status**: ${newStatus}`);
+export function buildPRMessage(params: {
+  prNumber: number;
+  prTitle: string;
+  prUrl: string;
+  headBranch: string;
+  baseBranch: string;
+  author: string;
+  prDescription: string;
+  reviewerLogins: string[];
+  isDraft: boolean;
+  userMapping: UserMapping;
+}): string {
+  const { prNumber, prTitle, prUrl, headBranch, baseBranch, author, prDescription, reviewerLogins, isDraft, userMapping } = params;
+
+  return renderPRCard(
+    {
+      number: prNumber,
+      title: prTitle,
+      url: prUrl,
+      head_branch: headBranch,
+      base_branch: baseBranch,
+      author,
+      description: prDescription || '',
+      reviewers: reviewerLogins,
+      verdicts: Object.fromEntries(reviewerLogins.map((login) => [login, 'pending' as const])),
+      status: isDraft ? 'draft' : 'ready_for_review',
+      ci: 'none',
+      labels: [],
+    },
+    userMapping
+  );
 }
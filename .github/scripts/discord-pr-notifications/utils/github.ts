@@ -1,19 +1,82 @@
-import type { HandlerContext, GitHubComment, DiscordMetadata } from '../types';
-import { findMetadata, createMetadataComment } from './metadata';
+import type {
+  HandlerContext,
+  Core,
+  GitHubCheckRun,
+  GitHubComment,
+  GitHubCommitStatus,
+  GitHubPullRequest,
+  GitHubListedReview,
+  GitHubReview,
+  DiscordMetadata,
+  MetadataEntry,
+  MetadataVerification,
+} from '../types';
+import {
+  findMetadata,
+  findMetadataComments,
+  createMetadataComment,
+  mergeMetadataHistory,
+} from './metadata';
+import { getConfig } from './config';
+
+// Comments fetched during this run, so metadata lookup and handlers share a single listing
+const commentCache = new WeakMap<HandlerContext, Map<number, Promise<GitHubComment[]>>>();
 
 /**
- * Get all comments for a PR
+ * Get all comments for a PR, following pagination. Cached for the lifetime of the context.
  */
 export async function getPRComments(
   context: HandlerContext,
   prNumber: number
 ): Promise<GitHubComment[]> {
-  const comments = await context.github.rest.issues.listComments({
-    owner: context.repo.owner,
-    repo: context.repo.repo,
-    issue_number: prNumber,
-  });
-  return comments.data;
+  let cache = commentCache.get(context);
+  if (!cache) {
+    cache = new Map();
+    commentCache.set(context, cache);
+  }
+
+  let comments = cache.get(prNumber);
+  if (!comments) {
+    const request = context.github.paginate(context.github.rest.issues.listComments, {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      issue_number: prNumber,
+      per_page: 100,
+    }) as Promise<GitHubComment[]>;
+    comments = request;
+    cache.set(prNumber, request);
+    // Don't keep failed listings around; the next call should retry
+    request.catch(() => {
+      if (cache.get(prNumber) === request) {
+        cache.delete(prNumber);
+      }
+    });
+  }
+  return comments;
+}
+
+/**
+ * Drop the cached comments for a PR after the bot changes them
+ */
+function invalidatePRComments(context: HandlerContext, prNumber: number): void {
+  commentCache.get(context)?.delete(prNumber);
+}
+
+/**
+ * How to tell the bot's own metadata comment from forgeries, warning about the latter
+ */
+function getMetadataVerification(context: HandlerContext, core?: Core): MetadataVerification {
+  const config = getConfig(context);
+  if (!config.metadataSecret) {
+    throw new Error('DISCORD_METADATA_SECRET must be set to read or write Discord metadata');
+  }
+  return {
+    botLogin: config.botLogin,
+    secret: config.metadataSecret,
+    allowUnsigned: config.allowUnsignedMetadata,
+    onRejected: (comment, reason) =>
+      core?.warning(`Ignoring untrusted Discord metadata in comment ${comment.id}: ${reason}`),
+  };
 }
 
 /**
@@ -21,27 +84,165 @@ export async function getPRComments(
  */
 export async function getMetadataFromPR(
   context: HandlerContext,
-  prNumber: number
+  prNumber: number,
+  core?: Core
 ): Promise<DiscordMetadata | null> {
   const comments = await getPRComments(context, prNumber);
-  return findMetadata(comments);
+  return findMetadata(comments, getMetadataVerification(context, core));
+}
+
+/**
+ * Every PR's Discord metadata, from one listing of the repository's comments rather than
+ * one per PR. A PR with duplicate metadata comments is described by the newest.
+ */
+export async function listMetadataFromRepo(
+  context: HandlerContext,
+  core?: Core
+): Promise<MetadataEntry[]> {
+  const comments = (await context.github.paginate(context.github.rest.issues.listCommentsForRepo, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    sort: 'created',
+    direction: 'asc',
+    per_page: 100,
+  })) as GitHubComment[];
+
+  const verification = getMetadataVerification(context, core);
+  const byPR = new Map<number, DiscordMetadata>();
+  for (const { comment, metadata } of findMetadataComments(comments, verification)) {
+    const prNumber = Number(comment.issue_url?.split('/').pop());
+    if (Number.isInteger(prNumber)) {
+      byPR.set(prNumber, metadata);
+    }
+  }
+  return [...byPR].map(([pr_number, metadata]) => ({ pr_number, metadata }));
 }
 
 /**
- * Save metadata to PR as a hidden comment
+ * Save metadata to the PR's hidden metadata comment, editing it in place. Threads the
+ * metadata no longer points at are kept in its history, and any duplicate metadata
+ * comments are folded in and deleted.
  */
 export async function saveMetadataToPR(
   context: HandlerContext,
   prNumber: number,
-  metadata: DiscordMetadata
+  metadata: DiscordMetadata,
+  core?: Core
+): Promise<void> {
+  // Re-read rather than trust this run's cached listing: another run may have saved since
+  invalidatePRComments(context, prNumber);
+  const comments = await getPRComments(context, prNumber);
+  const verification = getMetadataVerification(context, core);
+  const existing = findMetadataComments(comments, verification);
+  const merged = mergeMetadataHistory(
+    metadata,
+    existing.map((found) => found.metadata)
+  );
+
+  const keep = existing.pop();
+  try {
+    if (keep) {
+      await context.github.rest.issues.updateComment({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        comment_id: keep.comment.id,
+        body: createMetadataComment(merged, verification.secret),
+      });
+    } else {
+      const { data: created } = await context.github.rest.issues.createComment({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        issue_number: prNumber,
+        body: createMetadataComment(merged, verification.secret),
+      });
+      await resolveConcurrentCreate(context, prNumber, created.id, merged, verification, core);
+    }
+
+    for (const { comment } of existing) {
+      await context.github.rest.issues.deleteComment({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        comment_id: comment.id,
+      });
+    }
+  } finally {
+    invalidatePRComments(context, prNumber);
+  }
+
+  if (existing.length > 0) {
+    core?.info(
+      `Removed ${existing.length} duplicate Discord metadata comment(s) from PR #${prNumber}`
+    );
+  }
+}
+
+/**
+ * When a parallel run created a metadata comment at the same time as this one, both runs
+ * agree to keep the oldest: fold this run's metadata into it and delete the new comment.
+ */
+async function resolveConcurrentCreate(
+  context: HandlerContext,
+  prNumber: number,
+  createdId: number,
+  metadata: DiscordMetadata,
+  verification: MetadataVerification,
+  core?: Core
 ): Promise<void> {
-  const commentBody = createMetadataComment(metadata);
-  await context.github.rest.issues.createComment({
+  invalidatePRComments(context, prNumber);
+  const [oldest] = findMetadataComments(await getPRComments(context, prNumber), verification);
+  if (!oldest || oldest.comment.id === createdId) {
+    return;
+  }
+
+  await context.github.rest.issues.updateComment({
     owner: context.repo.owner,
     repo: context.repo.repo,
-    issue_number: prNumber,
-    body: commentBody,
+    comment_id: oldest.comment.id,
+    body: createMetadataComment(
+      mergeMetadataHistory(metadata, [oldest.metadata]),
+      verification.secret
+    ),
   });
+  await context.github.rest.issues.deleteComment({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    comment_id: createdId,
+  });
+  core?.info(`Merged a concurrently created Discord metadata comment on PR #${prNumber}`);
+}
+
+/**
+ * Collapse duplicate metadata comments on a PR into the newest one.
+ * Returns how many duplicates were removed.
+ */
+export async function cleanupDuplicateMetadata(
+  context: HandlerContext,
+  prNumber: number,
+  core?: Core
+): Promise<number> {
+  const comments = await getPRComments(context, prNumber);
+  const existing = findMetadataComments(comments, getMetadataVerification(context, core));
+  if (existing.length < 2) {
+    return 0;
+  }
+
+  await saveMetadataToPR(context, prNumber, existing[existing.length - 1].metadata, core);
+  return existing.length - 1;
+}
+
+/**
+ * Get a pull request by number
+ */
+export async function getPullRequest(
+  context: HandlerContext,
+  prNumber: number
+): Promise<GitHubPullRequest> {
+  const { data } = await context.github.rest.pulls.get({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    pull_number: prNumber,
+  });
+  return data as GitHubPullRequest;
 }
 
 /**
@@ -65,6 +266,194 @@ export async function getReviewDetails(
   }
 }
 
+/**
+ * Get all submitted reviews for a PR in chronological order.
+ * States are lowercased to match webhook payloads; pending (unsubmitted) reviews are dropped.
+ */
+export async function getPRReviews(
+  context: HandlerContext,
+  prNumber: number
+): Promise<GitHubReview[]> {
+  const reviews: GitHubListedReview[] = await context.github.paginate(
+    context.github.rest.pulls.listReviews,
+    {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      pull_number: prNumber,
+      per_page: 100,
+    }
+  );
+
+  const submitted: GitHubReview[] = [];
+  for (const review of reviews) {
+    if (review.user && review.state !== 'PENDING') {
+      submitted.push({
+        id: review.id,
+        user: review.user,
+        state: review.state.toLowerCase() as GitHubReview['state'],
+        body: review.body,
+        submitted_at: review.submitted_at,
+      });
+    }
+  }
+  return submitted;
+}
+
+/**
+ * Get the number of approving reviews a branch requires, from its classic protection
+ * rule or, failing that, its rulesets. Returns null when neither requires approvals
+ * or the token cannot read them.
+ */
+export async function getRequiredApprovalsForBranch(
+  context: HandlerContext,
+  branch: string
+): Promise<number | null> {
+  try {
+    const protection = await context.github.rest.repos.getBranchProtection({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      branch,
+    });
+    const count = protection.data.required_pull_request_reviews?.required_approving_review_count;
+    if (typeof count === 'number' && count > 0) {
+      return count;
+    }
+  } catch (e) {
+    // Unprotected branch, or the token lacks admin access - try rulesets instead
+  }
+
+  try {
+    const rules = await context.github.paginate(context.github.rest.repos.getBranchRules, {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      branch,
+      per_page: 100,
+    });
+    const counts = rules.map((rule) =>
+      rule.type === 'pull_request' ? rule.parameters?.required_approving_review_count || 0 : 0
+    );
+    const count = Math.max(0, ...counts);
+    return count > 0 ? count : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Whether a branch is protected, by a classic rule or a ruleset. Returns false when
+ * the branch cannot be read.
+ */
+export async function isBranchProtected(context: HandlerContext, branch: string): Promise<boolean> {
+  try {
+    const { data } = await context.github.rest.repos.getBranch({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      branch,
+    });
+    return data.protected;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Get the check runs reported for a commit
+ */
+export async function getCheckRuns(
+  context: HandlerContext,
+  sha: string
+): Promise<GitHubCheckRun[]> {
+  return context.github.paginate(context.github.rest.checks.listForRef, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    ref: sha,
+    per_page: 100,
+  });
+}
+
+/**
+ * Get the latest commit status for each context (the legacy status API)
+ */
+export async function getCommitStatuses(
+  context: HandlerContext,
+  sha: string
+): Promise<GitHubCommitStatus[]> {
+  const combined = await context.github.rest.repos.getCombinedStatusForRef({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    ref: sha,
+    per_page: 100,
+  });
+  // The API types the state as any string, but only reports these four
+  return combined.data.statuses as GitHubCommitStatus[];
+}
+
+/**
+ * Pull requests of every state, most recently updated first. With `since`, only those
+ * updated after it, and paging stops at the first older one.
+ */
+export async function listPullRequests(
+  context: HandlerContext,
+  since?: string
+): Promise<GitHubPullRequest[]> {
+  const isRecent = (pr: { updated_at?: string }) =>
+    !since || !pr.updated_at || Date.parse(pr.updated_at) >= Date.parse(since);
+
+  const pulls = await context.github.paginate(
+    context.github.rest.pulls.list,
+    {
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      state: 'all',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: 100,
+    },
+    (response, done) => {
+      if (!response.data.every(isRecent)) {
+        done();
+      }
+      return response.data;
+    }
+  );
+  return pulls.filter(isRecent) as GitHubPullRequest[];
+}
+
+/**
+ * When the workflow's last successful run for an event started, or null if it has none
+ */
+export async function getLastSuccessfulRunTime(
+  context: HandlerContext,
+  workflowId: string,
+  event: string
+): Promise<string | null> {
+  const { data } = await context.github.rest.actions.listWorkflowRuns({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    workflow_id: workflowId,
+    event,
+    status: 'success',
+    per_page: 1,
+  });
+  const [run] = data.workflow_runs as { run_started_at?: string; created_at: string }[];
+  return run ? (run.run_started_at ?? run.created_at) : null;
+}
+
+/**
+ * Numbers of the open PRs whose head is the given commit
+ */
+export async function getOpenPRsForCommit(
+  context: HandlerContext,
+  sha: string
+): Promise<number[]> {
+  const { data: pulls } = await context.github.rest.repos.listPullRequestsAssociatedWithCommit({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    commit_sha: sha,
+  });
+  return pulls.filter((pr) => pr.state === 'open' && pr.head.sha === sha).map((pr) => pr.number);
+}
+
 /**
  * Re-request reviews on GitHub
  */
@@ -103,6 +492,7 @@ export async function postMetadataMissingComment(
       issue_number: prNumber,
       body: '⚠️ Discord integration: Could not find Discord thread metadata for this PR. The Discord bot may not be able to update notifications.',
     });
+    invalidatePRComments(context, prNumber);
   } catch (e) {
     // If we can't comment, that's okay - just log it
     throw new Error(`Failed to comment in PR: ${e instanceof Error ? e.message : String(e)}`);
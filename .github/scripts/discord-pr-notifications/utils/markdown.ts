@@ -0,0 +1,223 @@
+import type { HandlerContext, MarkdownOptions, UserMapping } from '../types';
+import { getConfig } from './config';
+
+const CODE_FENCE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+/;
+const INLINE_CODE = /(`[^`\n]+`)/;
+
+// Links (kept as links), bare URLs (left alone), issue references and @mentions, in
+// one pass so nothing inside a link or URL is converted twice
+const INLINE_TOKEN = new RegExp(
+  [
+    /(!?)\[([^\]\n]*)\]\(([^)\s]+)(?:\s+"[^"\n]*")?\)/.source,
+    /(<?https?:\/\/[^\s<>]+>?)/.source,
+    /(^|[^\w/&#])((?:[\w.-]+\/[\w.-]+)?)#(\d+)\b/.source,
+    /(^|[^\w`/])@([A-Za-z\d][A-Za-z\d-]*(?:\/[A-Za-z\d_-]+)?)/.source,
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Break up mention syntax in user-authored text so it shows as typed instead of
+ * pinging: @everyone, @here, and user, nickname and role mentions
+ */
+export function escapeMentions(text: string): string {
+  return text
+    .replace(/@(everyone|here)/g, '@\u200b$1')
+    .replace(/<@([!&]?)(\d+)>/g, '<@$1\u200b$2>');
+}
+
+/**
+ * Options for converting markdown from the PR's repository
+ */
+export function getMarkdownOptions(
+  context: HandlerContext,
+  userMapping: UserMapping
+): MarkdownOptions {
+  return {
+    repoUrl: `https://github.com/${context.repo.owner}/${context.repo.repo}`,
+    ref: context.payload.pull_request?.base.ref,
+    userMapping,
+    unmappedMentions: getConfig(context).unmappedMentions,
+  };
+}
+
+/**
+ * Make a link target absolute: root-relative paths are on github.com, other relative
+ * paths are files in the repository
+ */
+function resolveUrl(href: string, options: MarkdownOptions): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith('//')) {
+    return href;
+  }
+  if (href.startsWith('/')) {
+    return `https://github.com${href}`;
+  }
+  return `${options.repoUrl}/blob/${options.ref || 'HEAD'}/${href.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Show a GitHub @user or @org/team reference: mapped users become Discord mentions,
+ * the rest stay as typed or link to GitHub, depending on `unmappedMentions`
+ */
+function renderMention(login: string, options: MarkdownOptions): string {
+  const discordId = options.userMapping[login];
+  if (discordId) {
+    return `<@${discordId}>`;
+  }
+  if (options.unmappedMentions !== 'link') {
+    return `@${login}`;
+  }
+  const [org, team] = login.split('/');
+  const url = team ? `https://github.com/orgs/${org}/teams/${team}` : `https://github.com/${login}`;
+  return `[@${login}](<${url}>)`;
+}
+
+/**
+ * Split a table row into its cells, allowing escaped pipes inside cells
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Flatten a table into one bullet per row, pairing each cell with its column header
+ */
+function flattenTable(header: string, rows: string[]): string[] {
+  const columns = splitTableRow(header);
+  return rows.map((row) => {
+    const cells = splitTableRow(row)
+      .map((cell, i) => (cell === '' ? '' : columns[i] ? `**${columns[i]}:** ${cell}` : cell))
+      .filter((cell) => cell !== '');
+    return `- ${cells.join(' · ')}`;
+  });
+}
+
+/**
+ * Convert block-level syntax line by line: tables, task lists and headings Discord
+ * doesn't render
+ */
+function convertBlocks(text: string): string {
+  const lines = text.split('\n');
+  const converted: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows: string[] = [];
+      for (i += 2; i < lines.length && lines[i].includes('|'); i++) {
+        rows.push(lines[i]);
+      }
+      i--;
+      converted.push(...flattenTable(line, rows));
+      continue;
+    }
+    converted.push(
+      line
+        .replace(TASK_ITEM, (_, indent, mark) => `${indent}- ${mark === ' ' ? '☐' : '☑'} `)
+        .replace(/^#{4,6}\s+(.+?)\s*#*$/, '**$1**')
+    );
+  }
+  return converted.join('\n');
+}
+
+/**
+ * Convert links, images, issue references and @mentions in text outside inline code
+ */
+function convertInline(text: string, options: MarkdownOptions): string {
+  return text.replace(
+    INLINE_TOKEN,
+    (
+      match: string,
+      bang: string | undefined,
+      label: string,
+      href: string | undefined,
+      url: string | undefined,
+      refPrefix: string,
+      refRepo: string,
+      refNumber: string | undefined,
+      mentionPrefix: string,
+      login: string
+    ) => {
+      if (href !== undefined) {
+        if (href.startsWith('#')) {
+          return label; // Anchors on the GitHub page mean nothing in Discord
+        }
+        // Discord doesn't show images inline, so they become links
+        return `[${bang ? label || 'image' : label}](${resolveUrl(href, options)})`;
+      }
+      if (url !== undefined) {
+        return match;
+      }
+      if (refNumber !== undefined) {
+        const repoUrl = refRepo ? `https://github.com/${refRepo}` : options.repoUrl;
+        return `${refPrefix}[${refRepo}#${refNumber}](<${repoUrl}/issues/${refNumber}>)`;
+      }
+      return `${mentionPrefix}${renderMention(login, options)}`;
+    }
+  );
+}
+
+/**
+ * Convert prose: HTML from templates, then block and inline syntax
+ */
+function convertProse(text: string, options: MarkdownOptions): string {
+  const html = text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<summary>\s*([\s\S]*?)\s*<\/summary>/gi, '**$1**')
+    .replace(/<\/?details[^>]*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<img\b([^>]*)>/gi, (_, attributes: string) => {
+      const src = attributes.match(/src="([^"]+)"/i)?.[1];
+      const alt = attributes.match(/alt="([^"]*)"/i)?.[1];
+      return src ? `![${alt || ''}](${src})` : '';
+    });
+
+  return convertBlocks(html)
+    .split('\n')
+    .map((line) =>
+      line
+        .split(INLINE_CODE)
+        .map((part, i) => (i % 2 === 1 ? part : convertInline(part, options)))
+        .join('')
+    )
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n'); // Left behind by removed comments and tags
+}
+
+/**
+ * Convert GitHub-flavoured markdown to what Discord renders. Template comments are
+ * removed, task lists become ☐/☑, tables become bullet lists, images become links,
+ * relative links point at the repository, #123 becomes a link and @user becomes a
+ * mention when mapped. Code blocks are left as they are. Mentions typed in the text
+ * are escaped.
+ */
+export function convertMarkdown(text: string, options: MarkdownOptions): string {
+  const segments: { code: boolean; lines: string[] }[] = [];
+  let inCode = false;
+  for (const line of escapeMentions(text.replace(/\r\n/g, '\n')).split('\n')) {
+    const fence = CODE_FENCE.test(line);
+    const code = inCode || fence;
+    const last = segments[segments.length - 1];
+    if (last && last.code === code) {
+      last.lines.push(line);
+    } else {
+      segments.push({ code, lines: [line] });
+    }
+    if (fence) {
+      inCode = !inCode;
+    }
+  }
+
+  return segments
+    .map((segment) =>
+      segment.code ? segment.lines.join('\n') : convertProse(segment.lines.join('\n'), options)
+    )
+    .join('\n')
+    .trim();
+}
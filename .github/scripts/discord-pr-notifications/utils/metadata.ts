@@ -1,31 +1,189 @@
-import type { DiscordMetadata, GitHubComment } from '../types';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type {
+  DiscordMetadata,
+  GitHubComment,
+  MetadataHistoryEntry,
+  MetadataVerification,
+} from '../types';
 
 const METADATA_REGEX = /<!-- DISCORD_BOT_METADATA\n([\s\S]*?)\n-->/;
 
+// Layout version of the metadata comment; comments with any other version are ignored
+export const METADATA_VERSION = 1;
+
+// Previous threads remembered per PR; older ones are dropped
+export const MAX_METADATA_HISTORY = 10;
+
 /**
- * Find and parse Discord metadata from PR comments
+ * HMAC-SHA256 signature over the version and metadata
+ */
+export function signMetadata(
+  metadata: DiscordMetadata,
+  secret: string,
+  version = METADATA_VERSION
+): string {
+  return createHmac('sha256', secret)
+    .update(`${version}:${JSON.stringify(metadata)}`)
+    .digest('hex');
+}
+
+/**
+ * Check a signature in constant time
+ */
+function isValidSignature(
+  metadata: DiscordMetadata,
+  signature: string,
+  secret: string,
+  version: number
+): boolean {
+  const expected = Buffer.from(signMetadata(metadata, secret, version), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Whether parsed comment JSON is bare metadata, as written before comments were signed
+ */
+function isLegacyMetadata(parsed: object): parsed is DiscordMetadata {
+  const fields = parsed as Record<string, unknown>;
+  return (
+    fields.version === undefined &&
+    fields.signature === undefined &&
+    typeof fields.message_id === 'string' &&
+    typeof fields.thread_id === 'string'
+  );
+}
+
+/**
+ * Verify a single comment. Returns null for comments that hold no metadata at all,
+ * and the reason for comments whose metadata must not be trusted. Unsigned legacy
+ * metadata is only trusted when the bot posted it and `allowUnsigned` is set for the
+ * migration; the next save signs it.
+ */
+function verifyComment(
+  comment: GitHubComment,
+  verification: MetadataVerification
+): { metadata: DiscordMetadata } | { rejected: string } | null {
+  const match = comment.body?.match(METADATA_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  let parsed: { version?: unknown; signature?: unknown; metadata?: DiscordMetadata };
+  try {
+    parsed = JSON.parse(match[1]) as typeof parsed;
+  } catch (e) {
+    // Invalid JSON, not usable metadata
+    return null;
+  }
+
+  if (comment.user?.login !== verification.botLogin) {
+    return { rejected: `posted by @${comment.user?.login}, not the bot` };
+  }
+  if (isLegacyMetadata(parsed)) {
+    return verification.allowUnsigned ? { metadata: parsed } : { rejected: 'unsigned' };
+  }
+  if (typeof parsed.signature !== 'string' || !parsed.metadata) {
+    return { rejected: 'unsigned' };
+  }
+  if (parsed.version !== METADATA_VERSION) {
+    return { rejected: `unsupported version ${String(parsed.version)}` };
+  }
+  if (!isValidSignature(parsed.metadata, parsed.signature, verification.secret, parsed.version)) {
+    return { rejected: 'invalid signature' };
+  }
+  return { metadata: parsed.metadata };
+}
+
+/**
+ * Find every trusted PR comment holding Discord metadata, oldest first.
+ * Only signed comments posted by the bot, or its legacy ones while `allowUnsigned` is
+ * set, are trusted; any other metadata comment is reported through `onRejected` and
+ * skipped.
  */
-export function findMetadata(comments: GitHubComment[]): DiscordMetadata | null {
+export function findMetadataComments(
+  comments: GitHubComment[],
+  verification: MetadataVerification
+): { comment: GitHubComment; metadata: DiscordMetadata }[] {
+  const found: { comment: GitHubComment; metadata: DiscordMetadata }[] = [];
   for (const comment of comments) {
-    if (!comment.body) {
+    const result = verifyComment(comment, verification);
+    if (!result) {
+      continue;
+    }
+    if ('rejected' in result) {
+      verification.onRejected?.(comment, result.rejected);
       continue;
     }
-    const match = comment.body.match(METADATA_REGEX);
-    if (match) {
-      try {
-        return JSON.parse(match[1]) as DiscordMetadata;
-      } catch (e) {
-        // Invalid JSON, continue searching
-        continue;
-      }
+    found.push({ comment, metadata: result.metadata });
+  }
+  return found;
+}
+
+/**
+ * Find the PR comment holding Discord metadata, along with the parsed metadata.
+ * If duplicates were left behind, the newest one describes the current thread.
+ */
+export function findMetadataComment(
+  comments: GitHubComment[],
+  verification: MetadataVerification
+): { comment: GitHubComment; metadata: DiscordMetadata } | null {
+  const found = findMetadataComments(comments, verification);
+  return found.length > 0 ? found[found.length - 1] : null;
+}
+
+/**
+ * Find and parse Discord metadata from PR comments
+ */
+export function findMetadata(
+  comments: GitHubComment[],
+  verification: MetadataVerification
+): DiscordMetadata | null {
+  const found = findMetadataComment(comments, verification);
+  return found ? found.metadata : null;
+}
+
+/**
+ * Fold earlier metadata into the history of `metadata`. Every message/thread other
+ * than the current one is remembered once, oldest first, up to MAX_METADATA_HISTORY.
+ */
+export function mergeMetadataHistory(
+  metadata: DiscordMetadata,
+  previous: DiscordMetadata[]
+): DiscordMetadata {
+  const entries: MetadataHistoryEntry[] = [];
+  for (const earlier of [...previous, metadata]) {
+    const { message_id, thread_id, channel_id } = earlier;
+    entries.push(...(earlier.history ?? []), { message_id, thread_id, channel_id });
+  }
+
+  const history: MetadataHistoryEntry[] = [];
+  const seen = new Set([metadata.thread_id]);
+  for (const entry of entries) {
+    if (!seen.has(entry.thread_id)) {
+      seen.add(entry.thread_id);
+      history.push(entry);
     }
   }
-  return null;
+
+  const merged: DiscordMetadata = { ...metadata };
+  delete merged.history;
+  if (history.length > 0) {
+    merged.history = history.slice(-MAX_METADATA_HISTORY);
+  }
+  return merged;
 }
 
 /**
- * Create a hidden comment body containing metadata
+ * Create a hidden comment body containing signed metadata
  */
-export function createMetadataComment(metadata: DiscordMetadata): string {
-  return `<!-- DISCORD_BOT_METADATA\n${JSON.stringify(metadata, null, 2)}\n-->`;
+export function createMetadataComment(metadata: DiscordMetadata, secret: string): string {
+  const envelope = {
+    version: METADATA_VERSION,
+    signature: signMetadata(metadata, secret),
+    metadata,
+  };
+  // Card state carries user text; escape "-->" so it cannot close the HTML comment early
+  const json = JSON.stringify(envelope, null, 2).replace(/-->/g, '--\\u003e');
+  return `<!-- DISCORD_BOT_METADATA\n${json}\n-->`;
 }
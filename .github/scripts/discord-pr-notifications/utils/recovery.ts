@@ -0,0 +1,258 @@
+import type {
+  HandlerContext,
+  Core,
+  DiscordMessage,
+  DiscordMetadata,
+  DiscordThread,
+  GitHubPullRequest,
+  ThreadArchiveMinutes,
+} from '../types';
+import {
+  getChannelMessages,
+  getMessage,
+  getChannel,
+  getActiveThreads,
+  getArchivedThreads,
+  getCurrentUser,
+  createThread,
+} from './discord';
+import { getBotToken, getConfig } from './config';
+import { createPRCard, getThreadName } from './card';
+import { getMetadataStore } from '../stores/metadata-store';
+import { getCardChannel } from './routing';
+
+// How far back to search the channel before falling back to its threads
+const MAX_SCANNED_MESSAGES = 500;
+const MAX_ARCHIVED_THREAD_PAGES = 5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a message is the card for the PR at `prUrl`, in either the embed or the text format.
+ * Only the bot's own messages count, and a text card is matched by its header alone so a
+ * link to the PR in another card's description doesn't count.
+ */
+export function isPRCard(message: DiscordMessage, prUrl: string, botUserId: string): boolean {
+  if (message.author?.id !== botUserId) {
+    return false;
+  }
+  if (message.embeds?.some((embed) => embed.url === prUrl)) {
+    return true;
+  }
+  const header = (message.content || '').split('\n')[0];
+  return new RegExp(`^## \\[PR #\\d+: .*\\]\\(${escapeRegExp(prUrl)}\\)$`).test(header);
+}
+
+/**
+ * Search the channel's recent messages, newest first, for the card
+ */
+async function findCardInMessages(
+  botToken: string,
+  channelId: string,
+  prUrl: string,
+  botUserId: string
+): Promise<DiscordMessage | null> {
+  let before: string | undefined;
+  for (let scanned = 0; scanned < MAX_SCANNED_MESSAGES; ) {
+    const messages = await getChannelMessages(botToken, channelId, { before, limit: 100 });
+    const card = messages.find((message) => isPRCard(message, prUrl, botUserId));
+    if (card) {
+      return card;
+    }
+    if (messages.length < 100) {
+      return null;
+    }
+    scanned += messages.length;
+    before = messages[messages.length - 1].id;
+  }
+  return null;
+}
+
+/**
+ * Find the PR's thread among the given threads. A thread started from a message
+ * shares its ID, so the starter message is fetched to confirm it is the card.
+ */
+async function findCardThread(
+  botToken: string,
+  channelId: string,
+  pr: GitHubPullRequest,
+  threads: DiscordThread[],
+  botUserId: string
+): Promise<DiscordThread | null> {
+  const candidates = threads.filter(
+    (thread) =>
+      (!thread.parent_id || thread.parent_id === channelId) &&
+      thread.name.startsWith(`PR #${pr.number}:`)
+  );
+  for (const thread of candidates) {
+    try {
+      const starter = await getMessage(botToken, channelId, thread.id);
+      if (isPRCard({ ...starter, channel_id: channelId }, pr.html_url, botUserId)) {
+        return thread;
+      }
+    } catch (e) {
+      // Starter message was deleted; not a usable card
+    }
+  }
+  return null;
+}
+
+/**
+ * Search the channel's active and archived threads for the card's thread
+ */
+async function findCardInThreads(
+  botToken: string,
+  channelId: string,
+  pr: GitHubPullRequest,
+  botUserId: string
+): Promise<DiscordThread | null> {
+  const channel = await getChannel(botToken, channelId);
+  if (channel.guild_id) {
+    const active = await getActiveThreads(botToken, channel.guild_id);
+    const thread = await findCardThread(botToken, channelId, pr, active, botUserId);
+    if (thread) {
+      return thread;
+    }
+  }
+
+  let before: string | undefined;
+  for (let page = 0; page < MAX_ARCHIVED_THREAD_PAGES; page++) {
+    const archived = await getArchivedThreads(botToken, channelId, before);
+    const thread = await findCardThread(botToken, channelId, pr, archived.threads, botUserId);
+    if (thread) {
+      return thread;
+    }
+    const last = archived.threads[archived.threads.length - 1];
+    if (!archived.has_more || !last?.thread_metadata) {
+      break;
+    }
+    before = last.thread_metadata.archive_timestamp;
+  }
+  return null;
+}
+
+/**
+ * Find the PR's card in the channel, along with its thread if it has one
+ */
+export async function findPRCard(
+  botToken: string,
+  channelId: string,
+  pr: GitHubPullRequest
+): Promise<{ message_id: string; thread_id?: string } | null> {
+  const { id: botUserId } = await getCurrentUser(botToken);
+  const card = await findCardInMessages(botToken, channelId, pr.html_url, botUserId);
+  if (card) {
+    return { message_id: card.id, thread_id: card.thread?.id };
+  }
+
+  const thread = await findCardInThreads(botToken, channelId, pr, botUserId);
+  if (thread) {
+    return { message_id: thread.id, thread_id: thread.id };
+  }
+  return null;
+}
+
+/**
+ * Rebuild the PR's metadata from its card in the channel, starting a thread on the
+ * card if it never got one. Returns null when no card exists.
+ */
+export async function recoverMetadata(
+  botToken: string,
+  channelId: string,
+  pr: GitHubPullRequest,
+  autoArchiveMinutes: ThreadArchiveMinutes = 1440
+): Promise<DiscordMetadata | null> {
+  const card = await findPRCard(botToken, channelId, pr);
+  if (!card) {
+    return null;
+  }
+
+  let threadId = card.thread_id;
+  if (!threadId) {
+    const thread = await createThread(
+      botToken,
+      channelId,
+      card.message_id,
+      getThreadName(pr),
+      autoArchiveMinutes
+    );
+    if (!thread) {
+      return null;
+    }
+    threadId = thread.id;
+  }
+  return { message_id: card.message_id, thread_id: threadId, channel_id: channelId };
+}
+
+/**
+ * Get the PR's metadata from the store. If it is missing, recover it from the card in
+ * the PR's channel and save it again. When there is no card, a brand-new one is posted
+ * for open PRs unless `createMissingCards` is turned off.
+ */
+export async function resolveMetadata(
+  context: HandlerContext,
+  core: Core
+): Promise<DiscordMetadata | null> {
+  const pr = context.payload.pull_request;
+  const store = getMetadataStore(context, core);
+  const metadata = await store.get(pr.number);
+  if (metadata) {
+    return metadata;
+  }
+
+  const config = getConfig(context);
+  const channelId = getCardChannel(context, pr);
+  if (!channelId) {
+    core.warning('No Discord channel is configured, so the Discord card cannot be recovered');
+    return null;
+  }
+
+  let recovered: DiscordMetadata | null;
+  try {
+    recovered = await recoverMetadata(
+      getBotToken(context),
+      channelId,
+      pr,
+      config.threadArchiveMinutes
+    );
+  } catch (e) {
+    // Posting a new card now could duplicate one the search failed to reach
+    core.warning(
+      `Failed to search Discord for the PR card: ${e instanceof Error ? e.message : String(e)}`
+    );
+    return null;
+  }
+
+  if (recovered) {
+    core.info(`Recovered Discord metadata for PR #${pr.number} from channel ${channelId}`);
+    try {
+      await store.save(pr.number, recovered);
+    } catch (e) {
+      core.warning(
+        `Failed to save recovered metadata: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+    return recovered;
+  }
+
+  if (!config.createMissingCards) {
+    core.info(`No Discord card found for PR #${pr.number} and creating missing cards is disabled`);
+    return null;
+  }
+  if (pr.state !== 'open') {
+    core.info(`No Discord card found for PR #${pr.number}, and it is no longer open`);
+    return null;
+  }
+
+  // The PR never got a card (e.g. opened before the bot was installed): post one for its
+  // current state, then let the handler apply the triggering event on top
+  core.info(`No Discord card found for PR #${pr.number}, posting a new one`);
+  try {
+    return await createPRCard(context, core, channelId);
+  } catch (e) {
+    core.warning(`Failed to post a new Discord card: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+}
@@ -0,0 +1,26 @@
+import type { ChannelRoute, GitHubPullRequest, HandlerContext } from '../types';
+import { getConfig } from './config';
+import { matchesBranchPattern } from './escalation';
+
+/**
+ * The first route the PR matches. A route matches when the PR satisfies every
+ * condition it sets; a route without conditions matches every PR.
+ */
+export function findRoute(
+  context: HandlerContext,
+  pr: GitHubPullRequest
+): ChannelRoute | undefined {
+  const labels = (pr.labels || []).map((label) => label.name.toLowerCase());
+  return getConfig(context).routes.find(
+    (route) =>
+      (!route.baseBranches || matchesBranchPattern(pr.base.ref, route.baseBranches)) &&
+      (!route.labels || route.labels.some((label) => labels.includes(label.toLowerCase())))
+  );
+}
+
+/**
+ * Channel the PR's card belongs in: its route's channel, or `channelId`
+ */
+export function getCardChannel(context: HandlerContext, pr: GitHubPullRequest): string | undefined {
+  return findRoute(context, pr)?.channel ?? getConfig(context).channelId;
+}
@@ -0,0 +1,103 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import type { BotConfig, HandlerContext, Core, Env, GitHubEventPayload } from '../types';
+import { getConfigFromEnv } from './config';
+
+/**
+ * Create a Core wrapper that matches our Core interface
+ */
+export function createCore(): Core {
+  return {
+    setFailed: (message: string) => core.setFailed(message),
+    warning: (message: string) => core.warning(message),
+    info: (message: string) => core.info(message),
+    error: (message: string) => core.error(message),
+  };
+}
+
+/**
+ * Parse environment variables
+ */
+export function getEnv(): Env {
+  return {
+    DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN,
+    DISCORD_CHANNEL_ID: process.env.DISCORD_CHANNEL_ID,
+    DISCORD_USER_MAPPING: process.env.DISCORD_USER_MAPPING,
+    DISCORD_OPERATIONS_ROLE_ID: process.env.DISCORD_OPERATIONS_ROLE_ID,
+    DISCORD_CARD_FORMAT: process.env.DISCORD_CARD_FORMAT,
+    DISCORD_REQUIRED_APPROVALS: process.env.DISCORD_REQUIRED_APPROVALS,
+    GITHUB_BOT_LOGIN: process.env.GITHUB_BOT_LOGIN,
+    DISCORD_METADATA_SECRET: process.env.DISCORD_METADATA_SECRET,
+    DISCORD_ALLOW_UNSIGNED_METADATA: process.env.DISCORD_ALLOW_UNSIGNED_METADATA,
+    DISCORD_METADATA_STORE: process.env.DISCORD_METADATA_STORE,
+    DISCORD_METADATA_BRANCH: process.env.DISCORD_METADATA_BRANCH,
+    DISCORD_METADATA_FILE: process.env.DISCORD_METADATA_FILE,
+    DISCORD_CREATE_MISSING_CARDS: process.env.DISCORD_CREATE_MISSING_CARDS,
+    DISCORD_MUTE_DRAFT_MENTIONS: process.env.DISCORD_MUTE_DRAFT_MENTIONS,
+    DISCORD_ANNOUNCE_EDITS: process.env.DISCORD_ANNOUNCE_EDITS,
+    DISCORD_MIRROR_COMMENTS: process.env.DISCORD_MIRROR_COMMENTS,
+    DISCORD_LABEL_EMOJI: process.env.DISCORD_LABEL_EMOJI,
+    DISCORD_LABEL_RULES: process.env.DISCORD_LABEL_RULES,
+    DISCORD_ESCALATIONS: process.env.DISCORD_ESCALATIONS,
+    DISCORD_RELEASE_BRANCHES: process.env.DISCORD_RELEASE_BRANCHES,
+    DISCORD_HOTFIX_LABEL: process.env.DISCORD_HOTFIX_LABEL,
+    DISCORD_UNMAPPED_MENTIONS: process.env.DISCORD_UNMAPPED_MENTIONS,
+    DISCORD_CONFIG_FILE: process.env.DISCORD_CONFIG_FILE,
+    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
+    GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME,
+    GITHUB_EVENT_PATH: process.env.GITHUB_EVENT_PATH,
+    GITHUB_REPOSITORY: process.env.GITHUB_REPOSITORY,
+    GITHUB_REPO_OWNER: process.env.GITHUB_REPO_OWNER,
+    GITHUB_WORKFLOW_REF: process.env.GITHUB_WORKFLOW_REF,
+  };
+}
+
+/**
+ * Create the handler context: an authenticated client, the repository, the event payload
+ * and the configuration, where environment variables override the config file
+ */
+export function createHandlerContext(
+  token: string,
+  env: Env,
+  payload: GitHubEventPayload,
+  fileConfig: Partial<BotConfig> = {}
+): HandlerContext {
+  const octokit = github.getOctokit(token);
+
+  // Parse repository info - prefer environment variable, fallback to github.context
+  let owner: string;
+  let repo: string;
+  if (env.GITHUB_REPOSITORY) {
+    [owner, repo] = env.GITHUB_REPOSITORY.split('/');
+  } else if (env.GITHUB_REPO_OWNER) {
+    owner = env.GITHUB_REPO_OWNER;
+    repo = github.context.repo.repo;
+  } else {
+    owner = github.context.repo.owner;
+    repo = github.context.repo.repo;
+  }
+
+  return {
+    github: {
+      rest: octokit.rest,
+      paginate: octokit.paginate,
+    },
+    repo: {
+      owner,
+      repo,
+    },
+    payload,
+    config: { ...fileConfig, ...getConfigFromEnv(env) },
+  };
+}
+
+/**
+ * Write markdown to the Actions job summary, or log it when run outside Actions
+ */
+export async function writeJobSummary(markdown: string, coreWrapper: Core): Promise<void> {
+  if (process.env.GITHUB_STEP_SUMMARY) {
+    await core.summary.addRaw(markdown).write();
+  } else {
+    coreWrapper.info(markdown);
+  }
+}
@@ -0,0 +1,88 @@
+import type { HandlerContext, MessageTemplates, TemplateName } from '../types';
+import { getConfig } from './config';
+import { mapToDiscord } from './formatting';
+import { escapeMentions } from './markdown';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Filled from the PR in every template: {pr} is a link labelled "PR #123" and {author}
+// mentions the PR's author
+const PR_PLACEHOLDERS = ['pr', 'number', 'title', 'url', 'author'];
+
+// Quotes ({review}, {commit_message}, {comment}) include the blank line or line break
+// that follows them and are empty when there is nothing to quote
+const TEMPLATE_PLACEHOLDERS: { [name in TemplateName]: string[] } = {
+  opened: [],
+  reviewer_requested: ['reviewer'],
+  approved: ['reviewer', 'review', 'approvals'],
+  approved_more_needed: ['reviewer', 'review', 'approvals'],
+  approved_changes_pending: ['reviewer', 'review', 'approvals'],
+  changes_requested: ['reviewer', 'review'],
+  synchronize: ['reviewers'],
+  synchronize_no_reviewers: [],
+  dismissed: ['reviewer'],
+  merged: ['base', 'commit_message'],
+  closed: ['closer', 'comment'],
+  ready: [],
+};
+
+export const DEFAULT_TEMPLATES: MessageTemplates = {
+  opened:
+    ":thread: Keep all conversations/dialogue about the contents of the PR in this thread **or** in the PR's comments",
+  reviewer_requested: ':bellhop: {reviewer} - your review has been requested for {pr}',
+  approved:
+    ':white_check_mark: {author} - {reviewer} has approved the PR\n{review}Feel free to merge if all other conditions have been met',
+  approved_more_needed:
+    ':white_check_mark: {author} - {reviewer} has approved the PR\n{review}More approvals are needed before merging ({approvals}).',
+  approved_changes_pending:
+    ':white_check_mark: {author} - {reviewer} has approved the PR\n{review}Changes are still requested by other reviewers ({approvals}).',
+  changes_requested:
+    ':tools: {author} - changes have been requested by {reviewer}.\n{review}Please resolve them and re-request a review.',
+  synchronize: '⚠️ New commits have been pushed to this PR. {reviewers} Please review the updates.',
+  synchronize_no_reviewers:
+    '⚠️ New commits have been pushed to this PR. Please add reviewers if needed.',
+  dismissed: '✅ {reviewer} The requested changes have been addressed. Please review the updates.',
+  merged:
+    ':tada: {author} - {pr} has been merged into `{base}`\n\n{commit_message}Remember to delete associative branch if it is no longer needed!',
+  closed: ':closed_book: {pr} has been closed by {closer}\n{comment}',
+  ready: ':eyes: This PR is now ready for review!',
+};
+
+/**
+ * Why a template override can't be used, or undefined if it can: it must only use the
+ * placeholders its template supports
+ */
+export function getTemplateError(name: TemplateName, template: string): string | undefined {
+  const allowed = [...PR_PLACEHOLDERS, ...TEMPLATE_PLACEHOLDERS[name]];
+  for (const [, placeholder] of template.matchAll(PLACEHOLDER)) {
+    if (!allowed.includes(placeholder)) {
+      return `unknown placeholder {${placeholder}}, expected one of ${allowed.map((p) => `{${p}}`).join(', ')}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Render a thread message from the configured template, or the default one, filling
+ * in the PR's placeholders and the given values
+ */
+export function renderTemplate(
+  context: HandlerContext,
+  name: TemplateName,
+  values: { [placeholder: string]: string } = {}
+): string {
+  const pr = context.payload.pull_request;
+  const filled: { [placeholder: string]: string } = {
+    pr: `[PR #${pr.number}](${pr.html_url})`,
+    number: String(pr.number),
+    title: escapeMentions(pr.title),
+    url: pr.html_url,
+    author: mapToDiscord(pr.user.login, getConfig(context).userMapping),
+    ...values,
+  };
+  const template = getConfig(context).templates[name] ?? DEFAULT_TEMPLATES[name];
+  return template.replace(
+    PLACEHOLDER,
+    (match, placeholder: string) => filled[placeholder] ?? match
+  );
+}
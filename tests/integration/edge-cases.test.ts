@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePROpened } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-opened';
 import { handleReviewerAdded } from '../../.github/scripts/discord-pr-notifications/handlers/handle-reviewer-added';
 import { handlePRReview } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-review';
-import { createMockGitHubContext } from '../mocks/github';
+import { createMockHandlerContext } from '../mocks/github';
+import { getMessageText } from '../mocks/discord';
 import * as discord from '../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping, DiscordMetadata } from '../../.github/scripts/discord-pr-notifications/types';
@@ -32,7 +33,7 @@ describe('Edge Cases Integration Tests', () => {
   describe('Large Data', () => {
     it('should handle PR with very long description', async () => {
       const longDescription = 'A'.repeat(5000);
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -54,10 +55,22 @@ describe('Edge Cases Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
-
-      const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
-      expect(message).toContain(longDescription);
+      await handlePROpened(context, mockCore);
+
+      // The card stays within Discord's limit and links to the PR for the rest
+      const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
+      expect(message).not.toContain(longDescription);
+      expect(message).toContain('… [Read more](https://github.com/test/repo/pull/123)');
+      expect(message.length).toBeLessThanOrEqual(2000);
+
+      // The full description goes to the thread, split across messages
+      const threadMessages = vi
+        .mocked(discord.sendThreadMessage)
+        .mock.calls.map((call) => call[2] as string)
+        .filter((_, i) => i > 0);
+      expect(threadMessages.length).toBeGreaterThan(2);
+      threadMessages.forEach((part) => expect(part.length).toBeLessThanOrEqual(2000));
+      expect(threadMessages.join('')).toContain(longDescription);
     });
 
     it('should handle PR with many reviewers (10+)', async () => {
@@ -67,7 +80,7 @@ describe('Edge Cases Integration Tests', () => {
         type: 'User' as const,
       }));
 
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -89,9 +102,9 @@ describe('Edge Cases Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
-      const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
+      const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
       manyReviewers.forEach((reviewer) => {
         expect(message).toContain(reviewer.login);
       });
@@ -99,7 +112,7 @@ describe('Edge Cases Integration Tests', () => {
 
     it('should truncate PR title at 100 character limit for thread name', async () => {
       const longTitle = 'A'.repeat(150);
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -121,7 +134,7 @@ describe('Edge Cases Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
       const threadName = vi.mocked(discord.createThread).mock.calls[0][3];
       expect(threadName.length).toBeLessThanOrEqual(100);
@@ -131,7 +144,7 @@ describe('Edge Cases Integration Tests', () => {
 
   describe('Special Characters', () => {
     it('should handle usernames with special characters', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -153,15 +166,15 @@ describe('Edge Cases Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
-      const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
+      const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
       expect(message).toContain('user-name_123');
       expect(message).toContain('reviewer.name');
     });
 
     it('should handle PR title/description with emojis and markdown', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -183,9 +196,9 @@ describe('Edge Cases Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
-      const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
+      const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
       expect(message).toContain('🚀');
       expect(message).toContain('**new features**');
     });
@@ -197,7 +210,7 @@ describe('Edge Cases Integration Tests', () => {
         channel_id: 'channel-123',
       };
 
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -231,12 +244,13 @@ describe('Edge Cases Integration Tests', () => {
       });
       vi.mocked(discord.editMessage).mockResolvedValue();
 
-      await handlePRReview(context, mockCore, botToken, userMapping);
+      await handlePRReview(context, mockCore);
 
       const threadMessage = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
       expect(threadMessage).toContain('Great work!');
-      expect(threadMessage).toContain('@test-author');
-      expect(threadMessage).toContain('```typescript');
+      // GitHub mentions of mapped users become Discord mentions
+      expect(threadMessage).toContain('> Great work! <@author-discord-id>');
+      expect(threadMessage).toContain('> ```typescript');
     });
   });
 
@@ -249,7 +263,7 @@ describe('Edge Cases Integration Tests', () => {
       };
 
       // Simulate two reviewer added events happening concurrently
-      const context1 = createMockGitHubContext();
+      const context1 = createMockHandlerContext({ channelId, userMapping });
       context1.payload = {
         pull_request: {
           number: 123,
@@ -270,7 +284,7 @@ describe('Edge Cases Integration Tests', () => {
         action: 'review_requested',
       };
 
-      const context2 = createMockGitHubContext();
+      const context2 = createMockHandlerContext({ channelId, userMapping });
       context2.payload = {
         ...context1.payload,
         requested_reviewer: { login: 'reviewer2', id: 3, type: 'User' },
@@ -286,14 +300,14 @@ describe('Edge Cases Integration Tests', () => {
 
       // Execute both handlers
       await Promise.all([
-        handleReviewerAdded(context1, mockCore, botToken, userMapping),
-        handleReviewerAdded(context2, mockCore, botToken, userMapping),
+        handleReviewerAdded(context1, mockCore),
+        handleReviewerAdded(context2, mockCore),
       ]);
 
       // Both should update with all current reviewers
       const editCalls = vi.mocked(discord.editMessage).mock.calls;
       editCalls.forEach((call) => {
-        const content = call[3];
+        const content = getMessageText(call[3]);
         expect(content).toContain('reviewer1');
         expect(content).toContain('reviewer2');
       });
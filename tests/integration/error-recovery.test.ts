@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRReadyForReview } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-ready-for-review';
 import { handleReviewerAdded } from '../../.github/scripts/discord-pr-notifications/handlers/handle-reviewer-added';
-import { createMockGitHubContext } from '../mocks/github';
+import { createMockHandlerContext } from '../mocks/github';
 import * as discord from '../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping } from '../../.github/scripts/discord-pr-notifications/types';
@@ -26,7 +26,7 @@ describe('Error Recovery Integration Tests', () => {
 
   describe('Missing Metadata Scenarios', () => {
     it('should warn and post comment when metadata missing', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -46,7 +46,7 @@ describe('Error Recovery Integration Tests', () => {
       vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
       vi.mocked(github.postMetadataMissingComment).mockResolvedValue();
 
-      await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+      await handlePRReadyForReview(context, mockCore);
 
       expect(mockCore.warning).toHaveBeenCalledWith(
         expect.stringContaining('No Discord thread found')
@@ -56,7 +56,7 @@ describe('Error Recovery Integration Tests', () => {
     });
 
     it('should continue execution when metadata missing in reviewer added', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -77,7 +77,7 @@ describe('Error Recovery Integration Tests', () => {
       vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
       vi.mocked(github.postMetadataMissingComment).mockResolvedValue();
 
-      await handleReviewerAdded(context, mockCore, botToken, userMapping);
+      await handleReviewerAdded(context, mockCore);
 
       expect(mockCore.warning).toHaveBeenCalled();
       expect(github.postMetadataMissingComment).toHaveBeenCalled();
@@ -85,9 +85,112 @@ describe('Error Recovery Integration Tests', () => {
     });
   });
 
+  describe('Lost Metadata Recovery', () => {
+    it('should recover the card from the channel and continue the handler', async () => {
+      const context = createMockHandlerContext({ userMapping });
+      context.config = { ...context.config, channelId: 'channel-123' };
+      context.payload = {
+        pull_request: {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        action: 'ready_for_review',
+      };
+
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([
+        {
+          id: 'msg-123',
+          content: '',
+          channel_id: 'channel-123',
+          author: { id: 'bot-user', bot: true },
+          embeds: [{ url: 'https://github.com/test/repo/pull/123' }],
+          thread: { id: 'thread-123', name: 'PR #123: Test PR' },
+        },
+      ]);
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockResolvedValue();
+      vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+
+      await handlePRReadyForReview(context, mockCore);
+
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+        context,
+        123,
+        { message_id: 'msg-123', thread_id: 'thread-123', channel_id: 'channel-123' },
+        mockCore
+      );
+      expect(discord.editMessage).toHaveBeenCalledWith(
+        botToken,
+        'channel-123',
+        'msg-123',
+        expect.anything(),
+        userMapping
+      );
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+        botToken,
+        'thread-123',
+        expect.stringContaining('ready for review'),
+        userMapping
+      );
+      expect(discord.sendMessage).not.toHaveBeenCalled();
+      expect(github.postMetadataMissingComment).not.toHaveBeenCalled();
+    });
+
+    it('should post a new card when the old one cannot be found', async () => {
+      const context = createMockHandlerContext({ userMapping });
+      context.config = { ...context.config, channelId: 'channel-123' };
+      context.payload = {
+        pull_request: {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        action: 'ready_for_review',
+      };
+
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([]);
+      vi.mocked(discord.getChannel).mockResolvedValue({ id: 'channel-123', guild_id: 'guild-1' });
+      vi.mocked(discord.getActiveThreads).mockResolvedValue([]);
+      vi.mocked(discord.getArchivedThreads).mockResolvedValue({ threads: [], has_more: false });
+      vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-new' });
+      vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+
+      await handlePRReadyForReview(context, mockCore);
+
+      expect(discord.sendMessage).toHaveBeenCalledWith(botToken, 'channel-123', expect.anything(), userMapping);
+      expect(discord.sendThreadMessage).toHaveBeenLastCalledWith(
+        botToken,
+        'thread-new',
+        expect.stringContaining('ready for review'),
+        userMapping
+      );
+      expect(github.postMetadataMissingComment).not.toHaveBeenCalled();
+    });
+  });
+
   describe('API Failure Scenarios', () => {
     it('should handle Discord API temporarily unavailable', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -109,9 +212,9 @@ describe('Error Recovery Integration Tests', () => {
         thread_id: 'thread-123',
         channel_id: 'channel-123',
       });
-      vi.mocked(discord.getMessage).mockRejectedValue(new Error('Discord API unavailable'));
+      vi.mocked(discord.editMessage).mockRejectedValue(new Error('Discord API unavailable'));
 
-      await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+      await handlePRReadyForReview(context, mockCore);
 
       expect(mockCore.warning).toHaveBeenCalledWith(
         expect.stringContaining('Failed to edit parent message')
@@ -119,7 +222,7 @@ describe('Error Recovery Integration Tests', () => {
     });
 
     it('should handle GitHub API temporarily unavailable', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -139,7 +242,7 @@ describe('Error Recovery Integration Tests', () => {
       vi.mocked(github.getMetadataFromPR).mockRejectedValue(new Error('GitHub API unavailable'));
 
       await expect(
-        handlePRReadyForReview(context, mockCore, botToken, userMapping)
+        handlePRReadyForReview(context, mockCore)
       ).rejects.toThrow();
     });
   });
@@ -150,7 +253,7 @@ describe('Error Recovery Integration Tests', () => {
         '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-opened'
       );
 
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId: 'channel-123', userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -170,7 +273,7 @@ describe('Error Recovery Integration Tests', () => {
       vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
       vi.mocked(discord.createThread).mockRejectedValue(new Error('Thread creation failed'));
 
-      await handlePROpened(context, mockCore, botToken, 'channel-123', userMapping);
+      await handlePROpened(context, mockCore);
 
       expect(mockCore.warning).toHaveBeenCalledWith(
         expect.stringContaining('Failed to create thread')
@@ -179,7 +282,7 @@ describe('Error Recovery Integration Tests', () => {
     });
 
     it('should continue when message edit fails but thread message succeeds', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ userMapping });
       context.payload = {
         pull_request: {
           number: 123,
@@ -208,7 +311,7 @@ describe('Error Recovery Integration Tests', () => {
       vi.mocked(discord.editMessage).mockRejectedValue(new Error('Edit failed'));
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
 
-      await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+      await handlePRReadyForReview(context, mockCore);
 
       expect(mockCore.warning).toHaveBeenCalledWith(
         expect.stringContaining('Failed to edit parent message')
@@ -1,11 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePROpened } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-opened';
 import { handlePRReadyForReview } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-ready-for-review';
+import { handlePRConvertedToDraft } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-converted-to-draft';
 import { handleReviewerAdded } from '../../.github/scripts/discord-pr-notifications/handlers/handle-reviewer-added';
 import { handlePRReview } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-review';
 import { handlePRSynchronize } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-synchronize';
 import { handlePRMerged } from '../../.github/scripts/discord-pr-notifications/handlers/handle-pr-merged';
-import { createMockGitHubContext } from '../mocks/github';
+import { createMockHandlerContext } from '../mocks/github';
+import { getMessageText, messageContaining } from '../mocks/discord';
 import * as discord from '../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../.github/scripts/discord-pr-notifications/utils/github';
 import { createMetadataComment } from '../../.github/scripts/discord-pr-notifications/utils/metadata';
@@ -42,7 +44,7 @@ describe('PR Lifecycle Integration Tests', () => {
 
   describe('Draft → Ready → Review → Approved → Merged', () => {
     it('should handle complete lifecycle', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
 
       // 1. PR opened as draft
       context.payload = {
@@ -66,34 +68,43 @@ describe('PR Lifecycle Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
       expect(discord.sendMessage).toHaveBeenCalledWith(
         botToken,
         channelId,
-        expect.stringContaining('Draft - In Progress')
+        messageContaining('Draft - In Progress'),
+        userMapping
       );
       expect(github.saveMetadataToPR).toHaveBeenCalledWith(
         context,
         123,
-        metadata
+        expect.objectContaining(metadata),
+        mockCore
       );
 
+      // Serve card state back to later handlers the way the metadata comment would
+      let storedMetadata = vi.mocked(github.saveMetadataToPR).mock.calls[0][2];
+      vi.mocked(github.getMetadataFromPR).mockImplementation(async () => storedMetadata);
+      vi.mocked(github.saveMetadataToPR).mockImplementation(async (_context, _prNumber, updated) => {
+        storedMetadata = updated;
+      });
+
       // 2. PR marked ready for review
-      vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
       vi.mocked(discord.getMessage).mockResolvedValue({
         id: 'msg-123',
         content: '**Status**: :pencil: Draft - In Progress',
       });
       vi.mocked(discord.editMessage).mockResolvedValue();
 
-      await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+      await handlePRReadyForReview(context, mockCore);
 
       expect(discord.editMessage).toHaveBeenCalledWith(
         botToken,
         'channel-123',
         'msg-123',
-        expect.stringContaining(':eyes: Ready for Review')
+        messageContaining(':eyes: Ready for Review'),
+        userMapping
       );
 
       // 3. Reviewer added
@@ -112,17 +123,19 @@ describe('PR Lifecycle Integration Tests', () => {
         content: '**Status**: :eyes: Ready for Review\n**Reviewers:**',
       });
 
-      await handleReviewerAdded(context, mockCore, botToken, userMapping);
+      await handleReviewerAdded(context, mockCore);
 
       expect(discord.sendThreadMessage).toHaveBeenCalledWith(
         botToken,
         'thread-123',
-        expect.stringContaining('reviewer1')
+        expect.stringContaining('reviewer1'),
+        userMapping
       );
 
-      // 4. Review submitted (approved)
+      // 4. Review submitted (approved); GitHub drops the reviewer from the requested list
       context.payload = {
         ...context.payload,
+        pull_request: { ...context.payload.pull_request, requested_reviewers: [] },
         review: {
           id: 456,
           user: { login: 'reviewer1', id: 2 },
@@ -132,6 +145,9 @@ describe('PR Lifecycle Integration Tests', () => {
         action: 'submitted',
       };
 
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: 'Looks good!' },
+      ]);
       vi.mocked(discord.removeReaction).mockResolvedValue();
       vi.mocked(discord.addReaction).mockResolvedValue();
       vi.mocked(discord.lockThread).mockResolvedValue();
@@ -140,7 +156,7 @@ describe('PR Lifecycle Integration Tests', () => {
         content: '**Status**: :eyes: Ready for Review',
       });
 
-      await handlePRReview(context, mockCore, botToken, userMapping);
+      await handlePRReview(context, mockCore);
 
       expect(discord.addReaction).toHaveBeenCalledWith(
         botToken,
@@ -162,14 +178,15 @@ describe('PR Lifecycle Integration Tests', () => {
       });
       vi.mocked(github.requestReviewers).mockResolvedValue();
 
-      await handlePRSynchronize(context, mockCore, botToken, userMapping);
+      await handlePRSynchronize(context, mockCore);
 
       expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', false);
       expect(discord.editMessage).toHaveBeenCalledWith(
         botToken,
         'channel-123',
         'msg-123',
-        expect.stringContaining(':eyes: Ready for Review')
+        messageContaining(':eyes: Ready for Review'),
+        userMapping
       );
       expect(github.requestReviewers).toHaveBeenCalled();
 
@@ -192,7 +209,7 @@ describe('PR Lifecycle Integration Tests', () => {
         content: '**Status**: :white_check_mark: Approved',
       });
 
-      await handlePRMerged(context, mockCore, botToken, userMapping);
+      await handlePRMerged(context, mockCore);
 
       expect(discord.addReaction).toHaveBeenCalledWith(
         botToken,
@@ -200,13 +217,13 @@ describe('PR Lifecycle Integration Tests', () => {
         'msg-123',
         '🎉'
       );
-      expect(discord.archiveThread).toHaveBeenCalledWith(botToken, 'thread-123');
+      expect(discord.archiveThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
     });
   });
 
   describe('Ready → Changes Requested → Dismissed → Merged', () => {
     it('should handle changes requested flow', async () => {
-      const context = createMockGitHubContext();
+      const context = createMockHandlerContext({ channelId, userMapping });
 
       // 1. PR opened (ready)
       context.payload = {
@@ -230,11 +247,12 @@ describe('PR Lifecycle Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+      await handlePROpened(context, mockCore);
 
       // 2. Review submitted (changes requested)
       context.payload = {
         ...context.payload,
+        pull_request: { ...context.payload.pull_request, requested_reviewers: [] },
         review: {
           id: 456,
           user: { login: 'reviewer1', id: 2 },
@@ -245,6 +263,14 @@ describe('PR Lifecycle Integration Tests', () => {
       };
 
       vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        {
+          id: 456,
+          user: { login: 'reviewer1', id: 2 },
+          state: 'changes_requested',
+          body: 'Please fix these issues',
+        },
+      ]);
       vi.mocked(discord.removeReaction).mockResolvedValue();
       vi.mocked(discord.addReaction).mockResolvedValue();
       vi.mocked(discord.getMessage).mockResolvedValue({
@@ -253,7 +279,7 @@ describe('PR Lifecycle Integration Tests', () => {
       });
       vi.mocked(discord.editMessage).mockResolvedValue();
 
-      await handlePRReview(context, mockCore, botToken, userMapping);
+      await handlePRReview(context, mockCore);
 
       expect(discord.addReaction).toHaveBeenCalledWith(
         botToken,
@@ -276,18 +302,27 @@ describe('PR Lifecycle Integration Tests', () => {
         action: 'dismissed',
       };
 
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        {
+          id: 456,
+          user: { login: 'reviewer1', id: 2 },
+          state: 'dismissed',
+          body: 'Please fix these issues',
+        },
+      ]);
       vi.mocked(discord.getMessage).mockResolvedValue({
         id: 'msg-123',
         content: '**Status**: :tools: Changes Requested',
       });
 
-      await handleReviewDismissed(context, mockCore, botToken, userMapping);
+      await handleReviewDismissed(context, mockCore);
 
       expect(discord.editMessage).toHaveBeenCalledWith(
         botToken,
         'channel-123',
         'msg-123',
-        expect.stringContaining(':eyes: Ready for Review')
+        messageContaining(':eyes: Ready for Review'),
+        userMapping
       );
 
       // 4. PR merged
@@ -309,21 +344,142 @@ describe('PR Lifecycle Integration Tests', () => {
         content: '**Status**: :eyes: Ready for Review',
       });
 
-      await handlePRMerged(context, mockCore, botToken, userMapping);
+      await handlePRMerged(context, mockCore);
 
       expect(discord.archiveThread).toHaveBeenCalled();
     });
   });
 
+  describe('Approved → Draft → Ready', () => {
+    it('should restore the approval when the PR is ready again', async () => {
+      const context = createMockHandlerContext({ channelId, userMapping });
+      const pr = {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      };
+
+      // Each handler reads the metadata the previous one saved
+      let stored: DiscordMetadata = metadata;
+      vi.mocked(github.getMetadataFromPR).mockImplementation(async () => stored);
+      vi.mocked(github.saveMetadataToPR).mockImplementation(async (_context, _pr, saved) => {
+        stored = saved;
+      });
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: 'LGTM' },
+      ]);
+
+      // 1. Approved
+      context.payload = {
+        pull_request: pr,
+        review: { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: 'LGTM' },
+        action: 'submitted',
+      };
+      await handlePRReview(context, mockCore);
+      expect(stored.card!.status).toBe('approved');
+
+      // 2. Converted back to draft
+      context.payload = { pull_request: { ...pr, draft: true }, action: 'converted_to_draft' };
+      await handlePRConvertedToDraft(context, mockCore);
+      expect(stored.card!.status).toBe('draft');
+      expect(discord.lockThread).toHaveBeenLastCalledWith(botToken, 'thread-123', false);
+
+      // 3. Ready for review again: the approval still stands
+      context.payload = { pull_request: pr, action: 'ready_for_review' };
+      await handlePRReadyForReview(context, mockCore);
+
+      expect(stored.card!.status).toBe('approved');
+      expect(discord.editMessage).toHaveBeenLastCalledWith(
+        botToken,
+        'channel-123',
+        'msg-123',
+        messageContaining('Approved'),
+        userMapping
+      );
+      expect(discord.lockThread).toHaveBeenLastCalledWith(botToken, 'thread-123', true);
+    });
+  });
+
+  describe('PR Opened Before the Bot Was Installed', () => {
+    it('should create the card on the first event and then apply it', async () => {
+      const context = createMockHandlerContext({ channelId, userMapping });
+      context.config = { ...context.config, channelId };
+      context.payload = {
+        pull_request: {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        review: {
+          id: 456,
+          user: { login: 'reviewer1', id: 2 },
+          state: 'approved',
+          body: 'LGTM',
+        },
+        action: 'submitted',
+      };
+
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([]);
+      vi.mocked(discord.getChannel).mockResolvedValue({ id: channelId, guild_id: 'guild-1' });
+      vi.mocked(discord.getActiveThreads).mockResolvedValue([]);
+      vi.mocked(discord.getArchivedThreads).mockResolvedValue({ threads: [], has_more: false });
+      vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-new' });
+      vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+      vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockResolvedValue();
+      vi.mocked(discord.addReaction).mockResolvedValue();
+      vi.mocked(discord.removeReaction).mockResolvedValue();
+      vi.mocked(discord.lockThread).mockResolvedValue();
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: 'LGTM' },
+      ]);
+
+      await handlePRReview(context, mockCore);
+
+      // The card is posted for the PR's current state...
+      expect(discord.sendMessage).toHaveBeenCalledTimes(1);
+      expect(discord.createThread).toHaveBeenCalledWith(
+        botToken,
+        channelId,
+        'msg-new',
+        'PR #123: Test PR',
+        1440
+      );
+      // ...and the review is applied to it
+      expect(discord.addReaction).toHaveBeenCalledWith(botToken, channelId, 'msg-new', '✅');
+      expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-new', true);
+      const card = vi.mocked(github.saveMetadataToPR).mock.calls.at(-1)![2].card!;
+      expect(card.status).toBe('approved');
+      expect(github.postMetadataMissingComment).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Reviewer Management', () => {
     it('should handle reviewer addition and removal', async () => {
-      const context = createMockGitHubContext();
       const reviewerUserMapping: UserMapping = {
         'test-author': 'author-discord-id',
         'reviewer1': 'reviewer1-discord-id',
         'reviewer2': 'reviewer2-discord-id',
         'reviewer3': 'reviewer3-discord-id',
       };
+      const context = createMockHandlerContext({ channelId, userMapping: reviewerUserMapping });
 
       // 1. PR opened with reviewers
       context.payload = {
@@ -350,7 +506,7 @@ describe('PR Lifecycle Integration Tests', () => {
       vi.mocked(discord.sendThreadMessage).mockResolvedValue();
       vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-      await handlePROpened(context, mockCore, botToken, channelId, reviewerUserMapping);
+      await handlePROpened(context, mockCore);
 
       // 2. Reviewer added
       context.payload = {
@@ -374,12 +530,12 @@ describe('PR Lifecycle Integration Tests', () => {
       });
       vi.mocked(discord.editMessage).mockResolvedValue();
 
-      await handleReviewerAdded(context, mockCore, botToken, reviewerUserMapping);
+      await handleReviewerAdded(context, mockCore);
 
       const editCall = vi.mocked(discord.editMessage).mock.calls[0];
-      expect(editCall[3]).toContain('reviewer1');
-      expect(editCall[3]).toContain('reviewer2');
-      expect(editCall[3]).toContain('reviewer3');
+      expect(getMessageText(editCall[3])).toContain('reviewer1');
+      expect(getMessageText(editCall[3])).toContain('reviewer2');
+      expect(getMessageText(editCall[3])).toContain('reviewer3');
 
       // 3. Reviewer removed
       const { handleReviewerRemoved } = await import(
@@ -407,11 +563,11 @@ describe('PR Lifecycle Integration Tests', () => {
       });
       vi.mocked(discord.editMessage).mockResolvedValue();
 
-      await handleReviewerRemoved(context, mockCore, botToken, reviewerUserMapping);
+      await handleReviewerRemoved(context, mockCore);
 
       expect(discord.removeThreadMember).toHaveBeenCalled();
       const removeEditCall = vi.mocked(discord.editMessage).mock.calls[1];
-      expect(removeEditCall[3]).not.toContain('reviewer2');
+      expect(getMessageText(removeEditCall[3])).not.toContain('reviewer2');
     });
   });
 });
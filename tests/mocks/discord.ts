@@ -90,3 +90,38 @@ export function createDefaultDiscordMocks() {
 
   return { mockFetch, setResponse };
 }
+
+/**
+ * Flatten a Discord message (plain string or payload with embeds) into searchable text
+ */
+export function getMessageText(message: unknown): string {
+  if (typeof message === 'string') {
+    return message;
+  }
+  const payload = (message ?? {}) as { content?: string; embeds?: any[] };
+  const parts: string[] = [];
+  if (payload.content) {
+    parts.push(payload.content);
+  }
+  for (const embed of payload.embeds ?? []) {
+    parts.push(embed.title ?? '', embed.description ?? '');
+    for (const field of embed.fields ?? []) {
+      parts.push(`${field.name}: ${field.value}`);
+    }
+    if (embed.footer) {
+      parts.push(embed.footer.text);
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Asymmetric matcher for a Discord message whose rendered text contains `text`
+ */
+export function messageContaining(text: string) {
+  return {
+    asymmetricMatch: (actual: unknown) => getMessageText(actual).includes(text),
+    toString: () => 'messageContaining',
+    toAsymmetricMatcher: () => `messageContaining(${JSON.stringify(text)})`,
+  };
+}
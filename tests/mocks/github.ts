@@ -1,27 +1,41 @@
 import { vi } from 'vitest';
-import type { HandlerContext } from '../../.github/scripts/discord-pr-notifications/types';
+import type { BotConfig, HandlerContext } from '../../.github/scripts/discord-pr-notifications/types';
 import type { RestEndpointMethods } from '@octokit/plugin-rest-endpoint-methods/dist-types/generated/types';
 
+// Key the mock context signs and verifies metadata comments with
+export const TEST_METADATA_SECRET = 'test-metadata-secret';
+
+// Bot token handlers read from the mock context's config
+export const TEST_BOT_TOKEN = 'test-bot-token';
+
 export interface MockGitHubAPI {
   rest: Partial<RestEndpointMethods>;
+  paginate?: (method: any, params: any) => Promise<any[]>;
 }
 
 export function createMockGitHubContext(
   overrides?: Partial<MockGitHubAPI>
 ): HandlerContext {
   const defaultMock: MockGitHubAPI = {
+    // Single-page stand-in for octokit.paginate
+    paginate: vi.fn(async (method: any, params: any) => (await method(params)).data),
     rest: {
       issues: {
         listComments: vi.fn().mockResolvedValue({ data: [] }),
+        listCommentsForRepo: vi.fn().mockResolvedValue({ data: [] }),
         createComment: vi.fn().mockResolvedValue({ data: { id: 1 } }),
+        updateComment: vi.fn().mockResolvedValue({ data: { id: 1 } }),
       },
       pulls: {
         getReview: vi.fn().mockResolvedValue({
           data: { id: 1, body: 'Test review body' },
         }),
         requestReviewers: vi.fn().mockResolvedValue({ data: {} }),
+        listReviews: vi.fn().mockResolvedValue({ data: [] }),
       },
       repos: {
+        getBranchProtection: vi.fn().mockRejectedValue(new Error('Branch not protected')),
+        getBranchRules: vi.fn().mockResolvedValue({ data: [] }),
         getCommit: vi.fn().mockResolvedValue({
           data: {
             commit: {
@@ -42,9 +56,22 @@ export function createMockGitHubContext(
       repo: 'test-repo',
     },
     payload: {} as any,
+    config: { botToken: TEST_BOT_TOKEN, metadataSecret: TEST_METADATA_SECRET },
   };
 }
 
+/**
+ * Mock context for a handler run, with the given settings on top of the test defaults
+ */
+export function createMockHandlerContext(
+  config: Partial<BotConfig> = {},
+  overrides?: Partial<MockGitHubAPI>
+): HandlerContext {
+  const context = createMockGitHubContext(overrides);
+  context.config = { ...context.config, ...config };
+  return context;
+}
+
 export function createMockOctokit(overrides?: Partial<MockGitHubAPI>) {
   const context = createMockGitHubContext(overrides);
   return {
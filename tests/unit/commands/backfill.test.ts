@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  backfillPRs,
+  formatBackfillSummary,
+} from '../../../.github/scripts/discord-pr-notifications/commands/backfill';
+import { buildCardFromPR } from '../../../.github/scripts/discord-pr-notifications/utils/card';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  DiscordMetadata,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('backfill', () => {
+  const botToken = 'test-bot-token';
+  const channelId = 'channel-123';
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const createPR = (number: number, overrides: Partial<GitHubPullRequest> = {}): GitHubPullRequest => ({
+    number,
+    title: `PR ${number}`,
+    html_url: `https://github.com/test-owner/test-repo/pull/${number}`,
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: `feature-${number}` },
+    requested_reviewers: [],
+    ...overrides,
+  });
+
+  const createContext = (pulls: GitHubPullRequest[]) => {
+    const context = createMockGitHubContext({
+      paginate: vi.fn().mockResolvedValue(pulls),
+    } as any);
+    context.config = { ...context.config, channelId };
+    return context;
+  };
+
+  const storedMetadata = async (pr: GitHubPullRequest): Promise<DiscordMetadata> => {
+    const context = createMockGitHubContext();
+    context.payload = { action: 'backfill', pull_request: pr };
+    return {
+      message_id: `msg-${pr.number}`,
+      thread_id: `thread-${pr.number}`,
+      channel_id: channelId,
+      card: await buildCardFromPR(context, pr),
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getPRReviews).mockResolvedValue([]);
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+    vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+    vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+    vi.mocked(discord.getChannelMessages).mockResolvedValue([]);
+    vi.mocked(discord.getChannel).mockResolvedValue({ id: channelId, guild_id: 'guild-1' });
+    vi.mocked(discord.getActiveThreads).mockResolvedValue([]);
+    vi.mocked(discord.getArchivedThreads).mockResolvedValue({ threads: [], has_more: false });
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-new' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+  });
+
+  it('should list open PRs', async () => {
+    const context = createContext([]);
+
+    await backfillPRs(context, mockCore, { dryRun: false });
+
+    expect(context.github.paginate).toHaveBeenCalledWith(context.github.rest.pulls.list, {
+      owner: 'test-owner',
+      repo: 'test-repo',
+      state: 'open',
+      per_page: 100,
+    });
+  });
+
+  it('should skip PRs whose card is up to date', async () => {
+    const pr = createPR(1);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(await storedMetadata(pr));
+
+    const result = await backfillPRs(createContext([pr]), mockCore, { dryRun: false });
+
+    expect(result).toEqual({ created: [], updated: [], skipped: [1], failed: [] });
+    expect(discord.editMessage).not.toHaveBeenCalled();
+  });
+
+  it('should update cards that drifted from the PR', async () => {
+    const pr = createPR(1);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(await storedMetadata(pr));
+
+    const result = await backfillPRs(
+      createContext([{ ...pr, title: 'Renamed' }]),
+      mockCore,
+      { dryRun: false }
+    );
+
+    expect(result.updated).toEqual([1]);
+    expect(discord.editMessage).toHaveBeenCalledWith(botToken, channelId, 'msg-1', expect.anything(), {});
+    expect(vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card?.title).toBe('Renamed');
+  });
+
+  it('should reuse a card whose metadata was lost', async () => {
+    const pr = createPR(1);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+    vi.mocked(discord.getChannelMessages).mockResolvedValue([
+      {
+        id: 'msg-old',
+        content: '',
+        channel_id: channelId,
+        author: { id: 'bot-user', bot: true },
+        embeds: [{ url: pr.html_url }],
+        thread: { id: 'thread-old', name: 'PR #1: PR 1' },
+      },
+    ]);
+
+    const result = await backfillPRs(createContext([pr]), mockCore, { dryRun: false });
+
+    expect(result.updated).toEqual([1]);
+    expect(discord.sendMessage).not.toHaveBeenCalled();
+    expect(discord.editMessage).toHaveBeenCalledWith(botToken, channelId, 'msg-old', expect.anything(), {});
+  });
+
+  it('should create cards for PRs that have none', async () => {
+    const pr = createPR(1);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+    const result = await backfillPRs(createContext([pr]), mockCore, { dryRun: false });
+
+    expect(result.created).toEqual([1]);
+    expect(discord.sendMessage).toHaveBeenCalledWith(botToken, channelId, expect.anything(), {});
+    expect(discord.createThread).toHaveBeenCalledWith(
+      botToken,
+      channelId,
+      'msg-new',
+      'PR #1: PR 1',
+      1440
+    );
+  });
+
+  it('should pick up reviews already submitted on new cards', async () => {
+    const pr = createPR(1);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 1, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: '' },
+    ]);
+
+    await backfillPRs(createContext([pr]), mockCore, { dryRun: false });
+
+    const card = vi.mocked(github.saveMetadataToPR).mock.calls.at(-1)![2].card!;
+    expect(card.status).toBe('approved');
+    expect(card.verdicts).toEqual({ reviewer1: 'approved' });
+  });
+
+  it('should not write anything in a dry run', async () => {
+    const upToDate = createPR(1);
+    const drifted = createPR(2);
+    const missing = createPR(3);
+    const stored = {
+      1: await storedMetadata(upToDate),
+      2: await storedMetadata(drifted),
+    } as Record<number, DiscordMetadata>;
+    vi.mocked(github.getMetadataFromPR).mockImplementation(
+      async (_context, prNumber) => stored[prNumber] ?? null
+    );
+
+    const result = await backfillPRs(
+      createContext([upToDate, { ...drifted, draft: true }, missing]),
+      mockCore,
+      { dryRun: true }
+    );
+
+    expect(result).toEqual({ created: [3], updated: [2], skipped: [1], failed: [] });
+    expect(discord.sendMessage).not.toHaveBeenCalled();
+    expect(discord.createThread).not.toHaveBeenCalled();
+    expect(discord.editMessage).not.toHaveBeenCalled();
+    expect(github.saveMetadataToPR).not.toHaveBeenCalled();
+    expect(mockCore.info).toHaveBeenCalledWith('PR #3: created (dry run)');
+  });
+
+  it('should keep going when a PR fails', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+    vi.mocked(discord.sendMessage)
+      .mockRejectedValueOnce(new Error('Missing Permissions'))
+      .mockResolvedValueOnce({ id: 'msg-new' });
+
+    const result = await backfillPRs(
+      createContext([createPR(1), createPR(2)]),
+      mockCore,
+      { dryRun: false }
+    );
+
+    expect(result.failed).toEqual([{ pr_number: 1, error: 'Missing Permissions' }]);
+    expect(result.created).toEqual([2]);
+    expect(mockCore.warning).toHaveBeenCalledWith('PR #1: failed to backfill: Missing Permissions');
+  });
+
+  describe('formatBackfillSummary', () => {
+    it('should tabulate the results and list failures', () => {
+      const summary = formatBackfillSummary(
+        {
+          created: [1, 2],
+          updated: [3],
+          skipped: [],
+          failed: [{ pr_number: 4, error: 'Missing Permissions' }],
+        },
+        true
+      );
+
+      expect(summary).toContain('## Discord PR backfill (dry run)');
+      expect(summary).toContain('| Created | 2 | #1, #2 |');
+      expect(summary).toContain('| Skipped | 0 | none |');
+      expect(summary).toContain('- #4: Missing Permissions');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { migrateMetadata } from '../../../.github/scripts/discord-pr-notifications/commands/migrate-metadata';
+import type {
+  Core,
+  DiscordMetadata,
+  MetadataStore,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('migrate-metadata', () => {
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const metadata = (id: number): DiscordMetadata => ({
+    message_id: `msg-${id}`,
+    thread_id: `thread-${id}`,
+    channel_id: 'channel-123',
+  });
+
+  const createStore = (): MetadataStore & { [key: string]: any } => ({
+    get: vi.fn().mockResolvedValue(null),
+    save: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([]),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should copy entries the target does not have', async () => {
+    const source = createStore();
+    const target = createStore();
+    vi.mocked(source.list).mockResolvedValue([
+      { pr_number: 1, metadata: metadata(1) },
+      { pr_number: 2, metadata: metadata(2) },
+    ]);
+    vi.mocked(target.get).mockImplementation(async (prNumber) =>
+      prNumber === 2 ? metadata(99) : null
+    );
+
+    const result = await migrateMetadata(source, target, mockCore, {
+      dryRun: false,
+      overwrite: false,
+    });
+
+    expect(result).toEqual({ copied: 1, skipped: 1, failed: 0 });
+    expect(target.save).toHaveBeenCalledTimes(1);
+    expect(target.save).toHaveBeenCalledWith(1, metadata(1));
+  });
+
+  it('should overwrite existing entries when asked', async () => {
+    const source = createStore();
+    const target = createStore();
+    vi.mocked(source.list).mockResolvedValue([{ pr_number: 2, metadata: metadata(2) }]);
+    vi.mocked(target.get).mockResolvedValue(metadata(99));
+
+    const result = await migrateMetadata(source, target, mockCore, {
+      dryRun: false,
+      overwrite: true,
+    });
+
+    expect(result).toEqual({ copied: 1, skipped: 0, failed: 0 });
+    expect(target.save).toHaveBeenCalledWith(2, metadata(2));
+  });
+
+  it('should not write anything in a dry run', async () => {
+    const source = createStore();
+    const target = createStore();
+    vi.mocked(source.list).mockResolvedValue([{ pr_number: 1, metadata: metadata(1) }]);
+
+    const result = await migrateMetadata(source, target, mockCore, {
+      dryRun: true,
+      overwrite: false,
+    });
+
+    expect(result).toEqual({ copied: 1, skipped: 0, failed: 0 });
+    expect(target.save).not.toHaveBeenCalled();
+    expect(mockCore.info).toHaveBeenCalledWith('PR #1: would copy (dry run)');
+  });
+
+  it('should keep going when an entry fails', async () => {
+    const source = createStore();
+    const target = createStore();
+    vi.mocked(source.list).mockResolvedValue([
+      { pr_number: 1, metadata: metadata(1) },
+      { pr_number: 2, metadata: metadata(2) },
+    ]);
+    vi.mocked(target.save).mockRejectedValueOnce(new Error('Write failed'));
+
+    const result = await migrateMetadata(source, target, mockCore, {
+      dryRun: false,
+      overwrite: false,
+    });
+
+    expect(result).toEqual({ copied: 1, skipped: 0, failed: 1 });
+    expect(mockCore.warning).toHaveBeenCalledWith('PR #1: failed to migrate: Write failed');
+  });
+});
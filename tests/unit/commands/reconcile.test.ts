@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  reconcileCards,
+  formatReconcileSummary,
+  getReconcileSince,
+  isMessageInSync,
+} from '../../../.github/scripts/discord-pr-notifications/commands/reconcile';
+import {
+  buildCardFromPR,
+  renderCardForContext,
+} from '../../../.github/scripts/discord-pr-notifications/utils/card';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  DiscordMetadata,
+  GitHubPullRequest,
+  PRCardState,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('reconcile', () => {
+  const botToken = 'test-bot-token';
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test-owner/test-repo/pull/123',
+    body: 'Description',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [{ login: 'reviewer1', id: 2 }],
+  };
+
+  const createContext = (livePR: GitHubPullRequest) => {
+    vi.mocked(github.listPullRequests).mockResolvedValue([livePR]);
+    return createMockGitHubContext({
+      rest: {
+        pulls: {
+          get: vi.fn().mockResolvedValue({ data: livePR }),
+        } as any,
+      },
+    });
+  };
+
+  // Card and message as a successful handler run would have left them
+  const setUpStored = async (card: PRCardState) => {
+    const metadata: DiscordMetadata = {
+      message_id: 'msg-123',
+      thread_id: 'thread-123',
+      channel_id: 'channel-123',
+      card,
+    };
+    vi.mocked(github.listMetadataFromRepo).mockResolvedValue([{ pr_number: 123, metadata }]);
+    const rendered = renderCardForContext(createMockGitHubContext(), card);
+    vi.mocked(discord.getMessage).mockResolvedValue({
+      id: 'msg-123',
+      content: rendered.content || '',
+      // Discord adds its own embed fields and reformats the timestamp
+      embeds: rendered.embeds?.map((embed) => ({
+        ...embed,
+        type: 'rich',
+        timestamp: '2024-01-01T00:00:00+00:00',
+      })),
+    });
+    return metadata;
+  };
+
+  const liveCard = async (livePR: GitHubPullRequest, previous?: PRCardState) => {
+    const context = createMockGitHubContext();
+    context.payload = { action: 'reconcile', pull_request: livePR };
+    return buildCardFromPR(context, livePR, previous);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getPRReviews).mockResolvedValue([]);
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+    vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+    vi.mocked(discord.getThread).mockResolvedValue({
+      id: 'thread-123',
+      name: 'PR #123: Test PR',
+      thread_metadata: { archived: false, locked: false, archive_timestamp: '' },
+    });
+  });
+
+  it('should leave cards that match GitHub alone', async () => {
+    await setUpStored(await liveCard(pr));
+
+    const result = await reconcileCards(createContext(pr), mockCore);
+
+    expect(result).toEqual({ checked: 1, skipped: 0, corrected: [], failed: [] });
+    expect(discord.editMessage).not.toHaveBeenCalled();
+    expect(discord.lockThread).not.toHaveBeenCalled();
+    expect(discord.archiveThread).not.toHaveBeenCalled();
+  });
+
+  it('should update the card and archive the thread of a PR merged behind its back', async () => {
+    await setUpStored(await liveCard(pr));
+    const merged = { ...pr, state: 'closed', merged: true, merged_by: { login: 'merger' } };
+
+    const result = await reconcileCards(createContext(merged), mockCore);
+
+    expect(result.corrected).toEqual([
+      { pr_number: 123, fixes: ['updated the card (status: merged)', 'archived the thread'] },
+    ]);
+    const saved = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+    expect(saved.status).toBe('merged');
+    expect(saved.status_actor).toBe('merger');
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      expect.anything(),
+      {}
+    );
+    expect(discord.archiveThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
+  });
+
+  it('should re-render a message that no longer shows the stored card', async () => {
+    const card = await liveCard(pr);
+    await setUpStored(card);
+    vi.mocked(discord.getMessage).mockResolvedValue({ id: 'msg-123', content: 'stale' });
+
+    const result = await reconcileCards(createContext(pr), mockCore);
+
+    expect(result.corrected).toEqual([{ pr_number: 123, fixes: ['re-rendered the message'] }]);
+    expect(discord.editMessage).toHaveBeenCalled();
+  });
+
+  it('should lock the thread of an approved PR', async () => {
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 1, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: '' },
+    ]);
+    const approvedPR = { ...pr, requested_reviewers: [] };
+    await setUpStored(await liveCard(approvedPR));
+
+    const result = await reconcileCards(createContext(approvedPR), mockCore);
+
+    expect(result.corrected).toEqual([{ pr_number: 123, fixes: ['locked the thread'] }]);
+    expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
+  });
+
+  it('should leave threads unlocked when the locking policy says so', async () => {
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 1, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: '' },
+    ]);
+    const approvedPR = { ...pr, requested_reviewers: [] };
+    await setUpStored(await liveCard(approvedPR));
+    const context = createContext(approvedPR);
+    context.config = { ...context.config, lockThreads: ['merged'] };
+
+    const result = await reconcileCards(context, mockCore);
+
+    expect(result.corrected).toEqual([]);
+    expect(discord.lockThread).not.toHaveBeenCalled();
+  });
+
+  it('should unlock the thread of a PR that needs review again', async () => {
+    await setUpStored(await liveCard(pr));
+    vi.mocked(discord.getThread).mockResolvedValue({
+      id: 'thread-123',
+      name: 'PR #123: Test PR',
+      thread_metadata: { archived: true, locked: true, archive_timestamp: '' },
+    });
+
+    const result = await reconcileCards(createContext(pr), mockCore);
+
+    expect(result.corrected).toEqual([{ pr_number: 123, fixes: ['unlocked the thread'] }]);
+    expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', false);
+  });
+
+  it('should report PRs it could not reconcile', async () => {
+    await setUpStored(await liveCard(pr));
+    vi.mocked(discord.getMessage).mockRejectedValue(new Error('Unknown Message'));
+
+    const result = await reconcileCards(createContext(pr), mockCore);
+
+    expect(result.failed).toEqual([{ pr_number: 123, error: 'Unknown Message' }]);
+    expect(mockCore.warning).toHaveBeenCalledWith('PR #123: failed to reconcile: Unknown Message');
+  });
+
+  it('should skip PRs not updated since the last reconcile', async () => {
+    await setUpStored(await liveCard(pr));
+    const context = createContext(pr);
+    vi.mocked(github.listPullRequests).mockResolvedValue([]);
+
+    const result = await reconcileCards(context, mockCore, { since: '2024-01-01T00:00:00Z' });
+
+    expect(github.listPullRequests).toHaveBeenCalledWith(context, '2024-01-01T00:00:00Z');
+    expect(result).toEqual({ checked: 0, skipped: 1, corrected: [], failed: [] });
+    expect(context.github.rest.pulls.get).not.toHaveBeenCalled();
+    expect(discord.getMessage).not.toHaveBeenCalled();
+  });
+
+  it('should skip merged PRs whose card already shows the merge', async () => {
+    const merged = { ...pr, state: 'closed', merged: true, merged_at: '2024-01-02T00:00:00Z' };
+    await setUpStored({ ...(await liveCard(pr)), status: 'merged' });
+    const context = createContext(merged);
+
+    const result = await reconcileCards(context, mockCore);
+
+    expect(result).toEqual({ checked: 0, skipped: 1, corrected: [], failed: [] });
+    expect(context.github.rest.pulls.get).not.toHaveBeenCalled();
+    expect(discord.getThread).not.toHaveBeenCalled();
+  });
+
+  describe('getReconcileSince', () => {
+    const workflowRef =
+      'test-owner/test-repo/.github/workflows/discord-pr-notifications.yaml@refs/heads/main';
+
+    it('should start from the last successful scheduled run', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.getLastSuccessfulRunTime).mockResolvedValue('2024-01-01T00:23:00Z');
+
+      expect(await getReconcileSince(context, mockCore, workflowRef)).toBe('2024-01-01T00:23:00Z');
+      expect(github.getLastSuccessfulRunTime).toHaveBeenCalledWith(
+        context,
+        'discord-pr-notifications.yaml',
+        'schedule'
+      );
+    });
+
+    it('should check every PR when the last run cannot be found', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.getLastSuccessfulRunTime).mockRejectedValue(new Error('Forbidden'));
+
+      expect(await getReconcileSince(context, mockCore, workflowRef)).toBeUndefined();
+      expect(await getReconcileSince(context, mockCore)).toBeUndefined();
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not find the last reconcile, checking every PR: Forbidden'
+      );
+    });
+  });
+
+  describe('isMessageInSync', () => {
+    it('should ignore trailing whitespace Discord strips', () => {
+      expect(isMessageInSync({ content: 'Card' }, { content: 'Card\n\n' })).toBe(true);
+      expect(isMessageInSync({ content: 'Card' }, { content: 'Other' })).toBe(false);
+    });
+  });
+
+  describe('formatReconcileSummary', () => {
+    it('should list corrections and failures', () => {
+      const summary = formatReconcileSummary({
+        checked: 3,
+        skipped: 4,
+        corrected: [{ pr_number: 1, fixes: ['updated the card (status: merged)', 'archived the thread'] }],
+        failed: [{ pr_number: 2, error: 'Unknown Message' }],
+      });
+
+      expect(summary).toContain('Checked 3 PRs: 1 corrected, 1 failed.');
+      expect(summary).toContain('Skipped 4 PRs that are unchanged or already final.');
+      expect(summary).toContain('- #1: updated the card (status: merged), archived the thread');
+      expect(summary).toContain('- #2: Unknown Message');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleCIStatus } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-ci-status';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  CIStatus,
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-ci-status', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {
+    'test-author': 'author-discord-id',
+  };
+  const sha = 'abc123';
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature', sha },
+    requested_reviewers: [],
+  };
+
+  const metadataWithCI = (ci: CIStatus, failureMessageId?: string): DiscordMetadata => ({
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+    card: { ...createCardState(pr), ci },
+    ci_failure_message_id: failureMessageId,
+  });
+
+  const checkSuiteContext = () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      action: 'completed',
+      check_suite: { head_sha: sha, pull_requests: [{ number: 123 }] },
+    } as any;
+    return context;
+  };
+
+  const failingRun = {
+    name: 'test',
+    status: 'completed',
+    conclusion: 'failure',
+    html_url: 'https://github.com/test/repo/runs/1',
+  };
+  const passingRun = { name: 'test', status: 'completed', conclusion: 'success' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getPullRequest).mockResolvedValue(pr);
+    vi.mocked(github.getCommitStatuses).mockResolvedValue([]);
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'failure-msg' });
+  });
+
+  it('should report failing checks to the author and mark the card', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithCI('pending'));
+    vi.mocked(github.getCheckRuns).mockResolvedValue([failingRun]);
+
+    await handleCIStatus(checkSuiteContext(), mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':x: <@author-discord-id> - checks failed on [PR #123](https://github.com/test/repo/pull/123):\n- [test](<https://github.com/test/repo/runs/1>)',
+      userMapping
+    );
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':x: Checks failed'),
+      userMapping
+    );
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      expect.anything(),
+      123,
+      expect.objectContaining({
+        ci_failure_message_id: 'failure-msg',
+        card: expect.objectContaining({ ci: 'failure' }),
+      }),
+      undefined
+    );
+  });
+
+  it('should remove the failure report once checks pass again', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithCI('failure', 'failure-msg'));
+    vi.mocked(github.getCheckRuns).mockResolvedValue([passingRun]);
+
+    await handleCIStatus(checkSuiteContext(), mockCore);
+
+    expect(discord.deleteMessage).toHaveBeenCalledWith(botToken, 'thread-123', 'failure-msg');
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+    const saved = vi.mocked(github.saveMetadataToPR).mock.calls[0][2];
+    expect(saved.ci_failure_message_id).toBeUndefined();
+    expect(saved.card!.ci).toBe('success');
+  });
+
+  it('should not report the same failure twice', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithCI('failure', 'failure-msg'));
+    vi.mocked(github.getCheckRuns).mockResolvedValue([failingRun]);
+
+    await handleCIStatus(checkSuiteContext(), mockCore);
+
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+    expect(discord.editMessage).not.toHaveBeenCalled();
+  });
+
+  it('should find the PRs of a status event from its commit', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = { sha, state: 'pending', context: 'ci/deploy' } as any;
+    vi.mocked(github.getOpenPRsForCommit).mockResolvedValue([123]);
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithCI('none'));
+    vi.mocked(github.getCheckRuns).mockResolvedValue([]);
+    vi.mocked(github.getCommitStatuses).mockResolvedValue([
+      { context: 'ci/deploy', state: 'pending' },
+    ]);
+
+    await handleCIStatus(context, mockCore);
+
+    expect(github.getOpenPRsForCommit).toHaveBeenCalledWith(context, sha);
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':hourglass_flowing_sand: Checks running'),
+      userMapping
+    );
+  });
+
+  it('should skip PRs that have moved on to a newer commit', async () => {
+    vi.mocked(github.getPullRequest).mockResolvedValue({
+      ...pr,
+      head: { ref: 'feature', sha: 'def456' },
+    });
+    vi.mocked(github.getCheckRuns).mockResolvedValue([failingRun]);
+
+    await handleCIStatus(checkSuiteContext(), mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith('PR #123 has moved on from abc123, skipping.');
+    expect(github.getMetadataFromPR).not.toHaveBeenCalled();
+  });
+
+  it('should skip commits that are not the head of an open PR', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      action: 'completed',
+      check_suite: { head_sha: sha, pull_requests: [] },
+    } as any;
+    vi.mocked(github.getOpenPRsForCommit).mockResolvedValue([]);
+
+    await handleCIStatus(context, mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith('No open PR has abc123 as its head, skipping.');
+    expect(github.getCheckRuns).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRClosed } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-closed';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
@@ -32,7 +33,7 @@ describe('handle-pr-closed', () => {
   });
 
   it('should lock thread and update status when PR closed', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -60,24 +61,69 @@ describe('handle-pr-closed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRClosed(context, mockCore, botToken, userMapping);
+    await handlePRClosed(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('closed')
+      expect.stringContaining('closed'),
+      userMapping
     );
     expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
+    expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-123', '🚫');
     expect(discord.editMessage).toHaveBeenCalledWith(
       botToken,
       'channel-123',
       'msg-123',
-      expect.stringContaining(':closed_book: Closed')
+      messageContaining(':closed_book: Closed'),
+      userMapping
+    );
+  });
+
+  it('should follow the configured reaction, announcements and locking policy', async () => {
+    const context = createMockHandlerContext({
+      userMapping,
+      announce: ['opened', 'merged'],
+      lockThreads: ['merged'],
+      reactions: { approved: '✅', changes_requested: '❌', merged: '🎉', closed: '🗑️' },
+    });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'closed',
+        merged: false,
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'closed',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRComments).mockResolvedValue([]);
+    vi.mocked(discord.editMessage).mockResolvedValue();
+
+    await handlePRClosed(context, mockCore);
+
+    expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-123', '🗑️');
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+    expect(discord.lockThread).not.toHaveBeenCalled();
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':closed_book: Closed'),
+      userMapping
     );
   });
 
   it('should include closing comment if recent', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -112,12 +158,63 @@ describe('handle-pr-closed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRClosed(context, mockCore, botToken, userMapping);
+    await handlePRClosed(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      expect.stringContaining('Closing this PR'),
+      userMapping
+    );
+  });
+
+  it("should find the closer's comment even when others commented after it", async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'closed',
+        merged: false,
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'closed',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRComments).mockResolvedValue([
+      {
+        id: 1,
+        body: 'Superseded by #124',
+        user: { login: 'test-author', id: 1 },
+        created_at: new Date().toISOString(),
+      },
+      {
+        id: 2,
+        body: 'Deployment preview removed',
+        user: { login: 'preview-bot[bot]', id: 2 },
+        created_at: new Date().toISOString(),
+      },
+    ]);
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+    vi.mocked(discord.lockThread).mockResolvedValue();
+    vi.mocked(discord.editMessage).mockResolvedValue();
+
+    await handlePRClosed(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('Closing this PR')
+      expect.stringContaining(
+        'Superseded by [#124](<https://github.com/test-owner/test-repo/issues/124>)'
+      ),
+      userMapping
     );
   });
 });
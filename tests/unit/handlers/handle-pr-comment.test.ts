@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePRComment } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-comment';
+import { createMockHandlerContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-comment', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {
+    commenter: 'commenter-discord-id',
+  };
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [],
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  const createContext = (action: string, login = 'commenter', onPR = true) => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      issue: {
+        number: 123,
+        pull_request: onPR
+          ? { url: 'https://api.github.com/repos/test/repo/pulls/123' }
+          : undefined,
+      },
+      comment: {
+        id: 789,
+        body: 'Can we rename this?',
+        user: { login, type: login.endsWith('[bot]') ? 'Bot' : 'User' },
+        created_at: '2024-01-01T00:00:00Z',
+        html_url: 'https://github.com/test/repo/pull/123#issuecomment-789',
+      },
+      action,
+    } as any;
+    return context;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getPullRequest).mockResolvedValue(pr);
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+  });
+
+  it('should mirror a new comment into the thread', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+    await handlePRComment(createContext('created'), mockCore);
+
+    expect(github.getPullRequest).toHaveBeenCalledWith(expect.anything(), 123);
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':speech_balloon: <@commenter-discord-id> [commented](https://github.com/test/repo/pull/123#issuecomment-789):\n> Can we rename this?',
+      userMapping
+    );
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      expect.anything(),
+      123,
+      { ...metadata, mirrored_comments: { 'conversation:789': 'thread-msg-1' } },
+      mockCore
+    );
+  });
+
+  it('should edit the mirrored copy when the comment is edited', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      mirrored_comments: { 'conversation:789': 'thread-msg-1' },
+    });
+
+    await handlePRComment(createContext('edited'), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      'thread-msg-1',
+      expect.stringContaining('Can we rename this?'),
+      userMapping,
+      false
+    );
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should ignore comments on issues', async () => {
+    await handlePRComment(createContext('created', 'commenter', false), mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith('Comment is not on a pull request, skipping.');
+    expect(github.getPullRequest).not.toHaveBeenCalled();
+  });
+
+  it('should ignore comments written by bots', async () => {
+    await handlePRComment(createContext('created', 'github-actions[bot]'), mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith('Comment was written by a bot, skipping.');
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when conversation mirroring is disabled', async () => {
+    const context = createContext('created');
+    context.config = { ...context.config, mirrorComments: [] };
+
+    await handlePRComment(context, mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Mirroring conversation comments is disabled, skipping.'
+    );
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should skip without commenting on the PR when metadata is missing', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+    await handlePRComment(createContext('created'), mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith('No Discord thread found for this PR. Skipping.');
+    expect(github.postMetadataMissingComment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePRConvertedToDraft } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-converted-to-draft';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPullRequest,
+  PRCardStatus,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-converted-to-draft', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {};
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: true,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [],
+  };
+
+  const metadataWithStatus = (status: PRCardStatus): DiscordMetadata => ({
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+    card: { ...createCardState({ ...pr, draft: false }), status },
+  });
+
+  const createContext = () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = { pull_request: pr, action: 'converted_to_draft' };
+    return context;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should set the Draft status and post a notice', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithStatus('ready_for_review'));
+
+    await handlePRConvertedToDraft(createContext(), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':pencil: Draft - In Progress'),
+      userMapping
+    );
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':pencil: This PR has been converted back to a draft.',
+      userMapping
+    );
+    expect(discord.lockThread).not.toHaveBeenCalled();
+  });
+
+  it('should unlock the thread of an approved PR', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithStatus('approved'));
+
+    await handlePRConvertedToDraft(createContext(), mockCore);
+
+    expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', false);
+  });
+
+  it('should say reviewers will not be pinged when draft mentions are muted', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadataWithStatus('ready_for_review'));
+    const context = createContext();
+    context.config = { ...context.config, muteDraftMentions: true };
+
+    await handlePRConvertedToDraft(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      expect.stringContaining('Reviewers will not be pinged until it is ready for review again'),
+      userMapping
+    );
+  });
+
+  it('should warn and post comment when metadata missing', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+    await handlePRConvertedToDraft(createContext(), mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith('No Discord thread found for this PR. Skipping.');
+    expect(github.postMetadataMissingComment).toHaveBeenCalledWith(expect.anything(), 123);
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePREdited } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-edited';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPRChanges,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-edited', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {};
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const originalPR: GitHubPullRequest = {
+    number: 123,
+    title: 'Old title',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: 'Old description',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [],
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+    card: createCardState(originalPR),
+  };
+
+  const createContext = (pr: GitHubPullRequest, changes: GitHubPRChanges) => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = { pull_request: pr, changes, action: 'edited' };
+    return context;
+  };
+
+  const savedCard = () => vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([]);
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+  });
+
+  it('should update the card title and rename the thread', async () => {
+    const pr = { ...originalPR, title: 'New title' };
+
+    await handlePREdited(createContext(pr, { title: { from: 'Old title' } }), mockCore);
+
+    expect(savedCard().title).toBe('New title');
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining('New title'),
+      userMapping
+    );
+    expect(discord.modifyChannel).toHaveBeenCalledWith(botToken, 'thread-123', {
+      name: 'PR #123: New title',
+    });
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should update the description without renaming the thread', async () => {
+    const pr = { ...originalPR, body: 'New description' };
+
+    await handlePREdited(createContext(pr, { body: { from: 'Old description' } }), mockCore);
+
+    expect(savedCard().description).toBe('New description');
+    expect(discord.modifyChannel).not.toHaveBeenCalled();
+  });
+
+  it('should update the base branch and the approvals it requires', async () => {
+    const pr = { ...originalPR, base: { ref: 'release' } };
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(2);
+
+    await handlePREdited(createContext(pr, { base: { ref: { from: 'main' }, sha: { from: 'abc123' } } }), mockCore);
+
+    expect(savedCard().base_branch).toBe('release');
+    expect(savedCard().required_approvals).toBe(2);
+    expect(github.getRequiredApprovalsForBranch).toHaveBeenCalledWith(expect.anything(), 'release');
+  });
+
+  it('should post a note describing the edits when enabled', async () => {
+    const pr = { ...originalPR, title: 'New title', base: { ref: 'release' } };
+    const context = createContext(pr, {
+      title: { from: 'Old title' },
+      base: { ref: { from: 'main' }, sha: { from: 'abc123' } },
+    });
+    context.config = { ...context.config, announceEdits: true };
+
+    await handlePREdited(context, mockCore);
+
+    const note = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(note).toContain('```diff\n- Old title\n+ New title\n```');
+    expect(note).toContain('Base branch changed from `main` to `release`');
+  });
+
+  it('should escape mentions in the old and new title', async () => {
+    const context = createContext(
+      { ...originalPR, title: 'Ping <@&42>' },
+      { title: { from: 'Ping @everyone' } }
+    );
+    context.config = { ...context.config, announceEdits: true };
+
+    await handlePREdited(context, mockCore);
+
+    const note = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(note).toContain('```diff\n- Ping @\u200beveryone\n+ Ping <@&\u200b42>\n```');
+  });
+
+  it('should keep going when the thread cannot be renamed', async () => {
+    vi.mocked(discord.modifyChannel).mockRejectedValue(new Error('Missing Permissions'));
+
+    await handlePREdited(createContext({ ...originalPR, title: 'New title' }, { title: { from: 'Old title' } }), mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith('Failed to rename thread: Missing Permissions');
+    expect(discord.editMessage).toHaveBeenCalled();
+  });
+
+  it('should skip edits that do not touch the card', async () => {
+    await handlePREdited(createContext(originalPR, {}), mockCore);
+
+    expect(github.getMetadataFromPR).not.toHaveBeenCalled();
+    expect(discord.editMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePRLabeled } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-labeled';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-labeled', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {};
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [],
+    labels: [],
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+    card: createCardState(pr),
+  };
+
+  const createContext = (action: string, label: string, labels: string[]) => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: { ...pr, labels: labels.map((name) => ({ name })) },
+      label: { name: label },
+      action,
+    };
+    return context;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+  });
+
+  it('should show the labels on the card as badges', async () => {
+    await handlePRLabeled(createContext('labeled', 'type: BUG', ['type: BUG', 'docs']), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':label: `type: BUG` `docs`'),
+      userMapping
+    );
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should drop removed labels from the card', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      card: { ...metadata.card!, labels: ['blocked', 'docs'] },
+    });
+
+    await handlePRLabeled(createContext('unlabeled', 'blocked', ['docs']), mockCore);
+
+    expect(vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!.labels).toEqual(['docs']);
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should post the notice of a label rule', async () => {
+    await handlePRLabeled(createContext('labeled', 'Blocked', ['Blocked']), mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':no_entry: This PR has been marked as blocked.',
+      userMapping
+    );
+  });
+
+  it('should ping the operations role when the hotfix label is added', async () => {
+    const context = createContext('labeled', 'hotfix', ['hotfix']);
+    context.config = { ...context.config, operationsRoleId: '999' };
+
+    await handlePRLabeled(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      {
+        content: '<@&999> :fire: This PR is a hotfix and needs attention.',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      },
+      userMapping
+    );
+  });
+
+  it('should not ping for the hotfix label when that escalation is off', async () => {
+    const context = createContext('labeled', 'hotfix', ['hotfix']);
+    context.config = { ...context.config, operationsRoleId: '999', escalations: [] };
+
+    await handlePRLabeled(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':fire: This PR is a hotfix and needs attention.',
+      userMapping
+    );
+  });
+
+  it('should ping for rules that escalate', async () => {
+    const context = createContext('labeled', 'security', ['security']);
+    context.config = {
+      ...context.config,
+      operationsRoleId: '999',
+      labelRules: [{ label: 'security', pingOperations: true }],
+    };
+
+    await handlePRLabeled(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      {
+        content: '<@&999> :label: This PR has been labeled `security`.',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      },
+      userMapping
+    );
+  });
+
+  it('should warn and still post the notice when no operations role is configured', async () => {
+    const context = createContext('labeled', 'security', ['security']);
+    context.config = {
+      ...context.config,
+      labelRules: [{ label: 'security', notice: 'Security review needed.', pingOperations: true }],
+    };
+
+    await handlePRLabeled(context, mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Label rule for "security" pings operations, but DISCORD_OPERATIONS_ROLE_ID is not set'
+    );
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      'Security review needed.',
+      userMapping
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRMerged } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-merged';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
@@ -33,7 +34,7 @@ describe('handle-pr-merged', () => {
   });
 
   it('should archive thread and update status when PR merged', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -63,7 +64,7 @@ describe('handle-pr-merged', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRMerged(context, mockCore, botToken, userMapping);
+    await handlePRMerged(context, mockCore);
 
     expect(discord.addReaction).toHaveBeenCalledWith(
       botToken,
@@ -71,22 +72,24 @@ describe('handle-pr-merged', () => {
       'msg-123',
       '🎉'
     );
-    expect(discord.archiveThread).toHaveBeenCalledWith(botToken, 'thread-123');
+    expect(discord.archiveThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('merged')
+      expect.stringContaining('merged'),
+      userMapping
     );
     expect(discord.editMessage).toHaveBeenCalledWith(
       botToken,
       'channel-123',
       'msg-123',
-      expect.stringContaining(':tada: Merged')
+      messageContaining(':tada: Merged'),
+      userMapping
     );
   });
 
   it('should include merge commit message', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -116,17 +119,61 @@ describe('handle-pr-merged', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRMerged(context, mockCore, botToken, userMapping);
+    await handlePRMerged(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('Merge pull request')
+      expect.stringContaining('Merge pull request'),
+      userMapping
+    );
+  });
+
+  it('should use the configured merged template', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.config = {
+      ...context.config,
+      templates: { merged: '{pr} by {author} landed on {base}\n{commit_message}Thanks!' },
+    };
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'closed',
+        merged: true,
+        merged_by: { login: 'merger', id: 2 },
+        merge_commit_sha: 'abc123',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'closed',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(discord.addReaction).mockResolvedValue();
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+    vi.mocked(discord.archiveThread).mockResolvedValue();
+    vi.mocked(discord.getMessage).mockResolvedValue({
+      id: 'msg-123',
+      content: '**Status**: :white_check_mark: Approved',
+    });
+    vi.mocked(discord.editMessage).mockResolvedValue();
+
+    await handlePRMerged(context, mockCore);
+
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2] as string;
+    expect(message).toMatch(
+      /^\[PR #123\]\(https:\/\/github.com\/test\/repo\/pull\/123\) by <@author-discord-id> landed on main\n> Merge pull request.*\n\nThanks!$/
     );
   });
 
   it('should handle missing merge commit SHA', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -156,10 +203,107 @@ describe('handle-pr-merged', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRMerged(context, mockCore, botToken, userMapping);
+    await handlePRMerged(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalled();
     const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
     expect(message).not.toContain('> Merge');
   });
+
+  it('should escape mentions in the merge commit message', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.github.rest.repos.getCommit = vi.fn().mockResolvedValue({
+      data: { commit: { message: 'Fix login @everyone' } },
+    });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'closed',
+        merged: true,
+        merge_commit_sha: 'abc123',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'closed',
+    };
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+    await handlePRMerged(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      expect.stringContaining('> Fix login @\u200beveryone'),
+      userMapping
+    );
+  });
+
+  describe('default branch escalation', () => {
+    const createContext = () => {
+      const context = createMockHandlerContext({ userMapping });
+      context.config = { ...context.config, operationsRoleId: '999' };
+      context.payload = {
+        pull_request: {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'closed',
+          merged: true,
+          merged_by: { login: 'merger', id: 2 },
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        repository: { default_branch: 'main' },
+        action: 'closed',
+      };
+      return context;
+    };
+
+    beforeEach(() => {
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+      vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+    });
+
+    it('should ping the operations role for merges into the default branch', async () => {
+      await handlePRMerged(createContext(), mockCore);
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(botToken, 'thread-123', {
+        content:
+          '<@&999> :rotating_light: [PR #123](https://github.com/test/repo/pull/123) was merged into the default branch `main`.',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      });
+      // Posting reopens an archived thread, so the ping goes out first
+      expect(vi.mocked(discord.sendThreadMessage).mock.invocationCallOrder[1]).toBeLessThan(
+        vi.mocked(discord.archiveThread).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should not ping for merges into other branches', async () => {
+      const context = createContext();
+      context.payload.pull_request.base.ref = 'develop';
+
+      await handlePRMerged(context, mockCore);
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not ping when the escalation is turned off', async () => {
+      const context = createContext();
+      context.config = { ...context.config, escalations: [] };
+
+      await handlePRMerged(context, mockCore);
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledTimes(1);
+    });
+  });
 });
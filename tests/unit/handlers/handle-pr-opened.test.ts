@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePROpened } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-opened';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { getMessageText, messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping } from '../../../.github/scripts/discord-pr-notifications/types';
@@ -28,7 +29,7 @@ describe('handle-pr-opened', () => {
   });
 
   it('should handle draft PR with reviewers', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -50,19 +51,108 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(discord.sendMessage).toHaveBeenCalledWith(
       botToken,
       channelId,
-      expect.stringContaining('Draft - In Progress')
+      messageContaining('Draft - In Progress'),
+      userMapping
     );
     expect(discord.createThread).toHaveBeenCalled();
     expect(github.saveMetadataToPR).toHaveBeenCalled();
   });
 
+  it('should keep a long description out of the metadata but post it in full', async () => {
+    const body = 'word '.repeat(5000);
+    const context = createMockHandlerContext({ channelId, userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body,
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'opened',
+    };
+
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-123' });
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg' });
+    vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+
+    await handlePROpened(context, mockCore);
+
+    const card = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+    expect(card.description.length).toBeLessThan(body.length);
+    expect(card.description_truncated).toBe(true);
+
+    const posted = vi
+      .mocked(discord.sendThreadMessage)
+      .mock.calls.map((call) => call[2] as string)
+      .filter((text) => text.includes('word'))
+      .join('');
+    expect(posted.match(/word/g)).toHaveLength(5000);
+  });
+
+  it("should post the card in the matching route's channel", async () => {
+    const context = createMockHandlerContext({
+      channelId,
+      userMapping,
+      routes: [{ channel: 'release-channel', baseBranches: ['release/*'] }],
+      threadArchiveMinutes: 10080,
+    });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'release/1.0' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'opened',
+    };
+
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-123' });
+    vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+
+    await handlePROpened(context, mockCore);
+
+    expect(discord.sendMessage).toHaveBeenCalledWith(
+      botToken,
+      'release-channel',
+      expect.anything(),
+      userMapping
+    );
+    expect(discord.createThread).toHaveBeenCalledWith(
+      botToken,
+      'release-channel',
+      'msg-123',
+      'PR #123: Test PR',
+      10080
+    );
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      context,
+      123,
+      expect.objectContaining({ channel_id: 'release-channel' }),
+      mockCore
+    );
+  });
+
   it('should handle ready PR without reviewers', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -84,17 +174,18 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(discord.sendMessage).toHaveBeenCalledWith(
       botToken,
       channelId,
-      expect.stringContaining('WARNING::No reviewers assigned')
+      messageContaining('No reviewers assigned'),
+      userMapping
     );
   });
 
   it('should fail when bot token is missing', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ botToken: '', channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -111,7 +202,7 @@ describe('handle-pr-opened', () => {
       action: 'opened',
     };
 
-    await handlePROpened(context, mockCore, '', channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(mockCore.setFailed).toHaveBeenCalledWith(
       expect.stringContaining('DISCORD_BOT_TOKEN')
@@ -119,7 +210,7 @@ describe('handle-pr-opened', () => {
   });
 
   it('should fail when channel ID is missing', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -136,7 +227,7 @@ describe('handle-pr-opened', () => {
       action: 'opened',
     };
 
-    await handlePROpened(context, mockCore, botToken, '', userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(mockCore.setFailed).toHaveBeenCalledWith(
       expect.stringContaining('DISCORD_CHANNEL_ID')
@@ -144,7 +235,7 @@ describe('handle-pr-opened', () => {
   });
 
   it('should warn but not fail when thread creation fails', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -164,7 +255,7 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
     vi.mocked(discord.createThread).mockRejectedValue(new Error('Thread creation failed'));
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalledWith(
       expect.stringContaining('Failed to create thread')
@@ -174,7 +265,7 @@ describe('handle-pr-opened', () => {
 
   it('should handle very long PR title (truncation)', async () => {
     const longTitle = 'A'.repeat(150);
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -196,20 +287,21 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(discord.createThread).toHaveBeenCalledWith(
       botToken,
       channelId,
       'msg-123',
-      expect.stringMatching(/^PR #123: A+/)
+      expect.stringMatching(/^PR #123: A+/),
+      1440
     );
     const threadName = vi.mocked(discord.createThread).mock.calls[0][3];
     expect(threadName.length).toBeLessThanOrEqual(100);
   });
 
   it('should handle PR with no description', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -231,15 +323,15 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
     expect(discord.sendMessage).toHaveBeenCalled();
-    const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
+    const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
     expect(message).not.toContain('null');
   });
 
   it('should handle multiple reviewers', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ channelId, userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -265,11 +357,73 @@ describe('handle-pr-opened', () => {
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.saveMetadataToPR).mockResolvedValue();
 
-    await handlePROpened(context, mockCore, botToken, channelId, userMapping);
+    await handlePROpened(context, mockCore);
 
-    const message = vi.mocked(discord.sendMessage).mock.calls[0][2];
+    const message = getMessageText(vi.mocked(discord.sendMessage).mock.calls[0][2]);
     expect(message).toContain('reviewer1');
     expect(message).toContain('reviewer2');
     expect(message).toContain('reviewer3');
   });
+
+  it('should ping the operations role when the PR needs attention', async () => {
+    const context = createMockHandlerContext({ channelId, userMapping });
+    context.config = { ...context.config, operationsRoleId: '999' };
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'release/2.0' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      action: 'opened',
+    };
+
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-123' });
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+
+    await handlePROpened(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenLastCalledWith(botToken, 'thread-123', {
+      content:
+        '<@&999> :rotating_light: [PR #123](https://github.com/test/repo/pull/123) needs attention:\n' +
+        '- No reviewers are requested\n' +
+        '- Targets the release branch `release/2.0`',
+      allowed_mentions: { parse: [], roles: ['999'] },
+    });
+  });
+
+  it('should not ping the operations role for PRs with reviewers', async () => {
+    const context = createMockHandlerContext({ channelId, userMapping });
+    context.config = { ...context.config, operationsRoleId: '999' };
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [{ login: 'reviewer1', id: 2, type: 'User' }],
+      },
+      action: 'opened',
+    };
+
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-123' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-123' });
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+
+    await handlePROpened(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledTimes(1);
+  });
 });
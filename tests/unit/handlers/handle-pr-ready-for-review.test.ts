@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRReadyForReview } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-ready-for-review';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import { createMetadataComment } from '../../../.github/scripts/discord-pr-notifications/utils/metadata';
@@ -31,7 +32,7 @@ describe('handle-pr-ready-for-review', () => {
       channel_id: 'channel-123',
     };
 
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -56,23 +57,25 @@ describe('handle-pr-ready-for-review', () => {
     vi.mocked(discord.editMessage).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
 
-    await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+    await handlePRReadyForReview(context, mockCore);
 
     expect(discord.editMessage).toHaveBeenCalledWith(
       botToken,
       'channel-123',
       'msg-123',
-      expect.stringContaining(':eyes: Ready for Review')
+      messageContaining(':eyes: Ready for Review'),
+      userMapping
     );
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('ready for review')
+      expect.stringContaining('ready for review'),
+      userMapping
     );
   });
 
   it('should warn and post comment when metadata missing', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -92,7 +95,7 @@ describe('handle-pr-ready-for-review', () => {
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
     vi.mocked(github.postMetadataMissingComment).mockResolvedValue();
 
-    await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+    await handlePRReadyForReview(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalledWith(
       expect.stringContaining('No Discord thread found')
@@ -101,7 +104,7 @@ describe('handle-pr-ready-for-review', () => {
   });
 
   it('should fail when bot token missing', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ botToken: '', userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -118,7 +121,7 @@ describe('handle-pr-ready-for-review', () => {
       action: 'ready_for_review',
     };
 
-    await handlePRReadyForReview(context, mockCore, '', userMapping);
+    await handlePRReadyForReview(context, mockCore);
 
     expect(mockCore.setFailed).toHaveBeenCalled();
   });
@@ -130,7 +133,7 @@ describe('handle-pr-ready-for-review', () => {
       channel_id: 'channel-123',
     };
 
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -155,7 +158,7 @@ describe('handle-pr-ready-for-review', () => {
     vi.mocked(discord.editMessage).mockRejectedValue(new Error('Edit failed'));
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
 
-    await handlePRReadyForReview(context, mockCore, botToken, userMapping);
+    await handlePRReadyForReview(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalledWith(
       expect.stringContaining('Failed to edit parent message')
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePRReopened } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-reopened';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-reopened', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {
+    'test-author': 'author-discord-id',
+    reviewer1: 'reviewer1-discord-id',
+    maintainer: 'maintainer-discord-id',
+  };
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [{ login: 'reviewer1', id: 2 }],
+  };
+
+  // Card as handlePRClosed left it
+  const closedMetadata = (closedPR: GitHubPullRequest): DiscordMetadata => ({
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+    card: { ...createCardState(closedPR), status: 'closed', status_actor: 'maintainer' },
+  });
+
+  const createContext = (reopenedPR: GitHubPullRequest) => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: reopenedPR,
+      sender: { login: 'maintainer', id: 3 },
+      action: 'reopened',
+    };
+    return context;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(github.getPRReviews).mockResolvedValue([]);
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+  });
+
+  it('should revive the thread and restore the review status', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(closedMetadata(pr));
+
+    await handlePRReopened(createContext(pr), mockCore);
+
+    expect(discord.unarchiveThread).toHaveBeenCalledWith(botToken, 'thread-123');
+    expect(discord.removeReaction).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      '🚫'
+    );
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':eyes: Ready for Review'),
+      userMapping
+    );
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      expect.anything(),
+      123,
+      expect.objectContaining({
+        card: expect.objectContaining({ status: 'ready_for_review', status_actor: undefined }),
+      }),
+      undefined
+    );
+    expect(discord.lockThread).not.toHaveBeenCalled();
+  });
+
+  it('should credit the reopener and re-mention requested reviewers', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(closedMetadata(pr));
+
+    await handlePRReopened(createContext(pr), mockCore);
+
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(message).toContain('has been reopened by <@maintainer-discord-id>');
+    expect(message).toContain('<@reviewer1-discord-id> - your review is still requested');
+  });
+
+  it('should restore a draft PR without pinging reviewers', async () => {
+    const draftPR = { ...pr, draft: true };
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(closedMetadata(draftPR));
+
+    await handlePRReopened(createContext(draftPR), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':pencil: Draft - In Progress'),
+      userMapping
+    );
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(message).not.toContain('reviewer1-discord-id');
+  });
+
+  it('should relock the thread of a PR that was approved before it was closed', async () => {
+    const approvedPR = { ...pr, requested_reviewers: [] };
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(closedMetadata(approvedPR));
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 1, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: '' },
+    ]);
+
+    await handlePRReopened(createContext(approvedPR), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':white_check_mark: Approved'),
+      userMapping
+    );
+    expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
+  });
+
+  it('should still post when the thread cannot be unarchived', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(closedMetadata(pr));
+    vi.mocked(discord.unarchiveThread).mockRejectedValue(new Error('Missing Permissions'));
+
+    await handlePRReopened(createContext(pr), mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to unarchive thread: Missing Permissions'
+    );
+    expect(discord.sendThreadMessage).toHaveBeenCalled();
+  });
+
+  it('should warn and post comment when metadata missing', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+    await handlePRReopened(createContext(pr), mockCore);
+
+    expect(mockCore.warning).toHaveBeenCalledWith('No Discord thread found for this PR. Skipping.');
+    expect(github.postMetadataMissingComment).toHaveBeenCalledWith(expect.anything(), 123);
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePRReviewComment } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-review-comment';
+import { createMockHandlerContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('handle-pr-review-comment', () => {
+  const botToken = 'test-bot-token';
+  const userMapping: UserMapping = {
+    reviewer1: 'reviewer1-discord-id',
+  };
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  const createContext = (action: string) => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      comment: {
+        id: 555,
+        body: 'This should handle null',
+        user: { login: 'reviewer1', id: 2 },
+        created_at: '2024-01-01T00:00:00Z',
+        html_url: 'https://github.com/test/repo/pull/123#discussion_r555',
+        path: 'src/utils.ts',
+        line: 12,
+        diff_hunk: '@@ -10,3 +10,3 @@\n function f(x) {\n-  return x.y;\n+  return x?.y;',
+      },
+      action,
+    };
+    return context;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+  });
+
+  it('should mirror an inline comment with its file, line and diff excerpt', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+    await handlePRReviewComment(createContext('created'), mockCore);
+
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(message).toContain(
+      '<@reviewer1-discord-id> [commented](https://github.com/test/repo/pull/123#discussion_r555) on `src/utils.ts` line 12:'
+    );
+    expect(message).toContain('```diff\n function f(x) {\n-  return x.y;\n+  return x?.y;\n```');
+    expect(message).toContain('> This should handle null');
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      expect.anything(),
+      123,
+      { ...metadata, mirrored_comments: { 'review_comment:555': 'thread-msg-1' } },
+      mockCore
+    );
+  });
+
+  it('should edit the mirrored copy when the comment is edited', async () => {
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      mirrored_comments: { 'review_comment:555': 'thread-msg-1' },
+    });
+
+    await handlePRReviewComment(createContext('edited'), mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      'thread-msg-1',
+      expect.stringContaining('This should handle null'),
+      userMapping,
+      false
+    );
+    expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when review comment mirroring is disabled', async () => {
+    const context = createContext('created');
+    context.config = { ...context.config, mirrorComments: ['conversation'] };
+
+    await handlePRReviewComment(context, mockCore);
+
+    expect(mockCore.info).toHaveBeenCalledWith('Mirroring review comments is disabled, skipping.');
+    expect(github.getMetadataFromPR).not.toHaveBeenCalled();
+  });
+});
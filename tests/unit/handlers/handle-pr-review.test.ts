@@ -1,9 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRReview } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-review';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
-import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
+import type {
+  Core,
+  UserMapping,
+  DiscordMetadata,
+  GitHubReview,
+} from '../../../.github/scripts/discord-pr-notifications/types';
 
 vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
 vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
@@ -28,12 +33,25 @@ describe('handle-pr-review', () => {
     channel_id: 'channel-123',
   };
 
+  const approval = (login: string): GitHubReview => ({
+    id: 1,
+    user: { login },
+    state: 'approved',
+    body: null,
+  });
+  const changesRequested = (login: string): GitHubReview => ({
+    id: 2,
+    user: { login },
+    state: 'changes_requested',
+    body: null,
+  });
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   it('should handle approved review', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -57,6 +75,7 @@ describe('handle-pr-review', () => {
     };
 
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([approval('reviewer1')]);
     vi.mocked(discord.removeReaction).mockResolvedValue();
     vi.mocked(discord.addReaction).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
@@ -67,7 +86,7 @@ describe('handle-pr-review', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(discord.removeReaction).toHaveBeenCalledWith(
       botToken,
@@ -85,12 +104,13 @@ describe('handle-pr-review', () => {
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('approved')
+      expect.stringContaining('approved'),
+      userMapping
     );
   });
 
   it('should handle changes requested review', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -114,6 +134,7 @@ describe('handle-pr-review', () => {
     };
 
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([changesRequested('reviewer1')]);
     vi.mocked(discord.removeReaction).mockResolvedValue();
     vi.mocked(discord.addReaction).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
@@ -123,7 +144,7 @@ describe('handle-pr-review', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(discord.addReaction).toHaveBeenCalledWith(
       botToken,
@@ -134,12 +155,129 @@ describe('handle-pr-review', () => {
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('changes have been requested')
+      expect.stringContaining('changes have been requested'),
+      userMapping
+    );
+  });
+
+  it('should shorten long review bodies to fit in one message', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'changes_requested',
+        body: 'Please fix this.\n'.repeat(300),
+        html_url: 'https://github.com/test/repo/pull/123#pullrequestreview-456',
+      },
+      action: 'submitted',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([changesRequested('reviewer1')]);
+
+    await handlePRReview(context, mockCore);
+
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2] as string;
+    expect(message.length).toBeLessThanOrEqual(2000);
+    expect(message).toContain(
+      '> … [Read more](<https://github.com/test/repo/pull/123#pullrequestreview-456>)'
+    );
+    expect(message).toMatch(/Please resolve them and re-request a review\.$/);
+  });
+
+  it('should escape mentions in the review body', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'changes_requested',
+        body: 'Broken, cc <@&999> @here',
+      },
+      action: 'submitted',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([changesRequested('reviewer1')]);
+
+    await handlePRReview(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      expect.stringContaining('> Broken, cc <@&\u200b999> @\u200bhere'),
+      userMapping
     );
   });
 
-  it('should skip commented reviews', async () => {
-    const context = createMockGitHubContext();
+  it('should translate @mentions in the review body', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.config = { ...context.config, unmappedMentions: 'link' };
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'changes_requested',
+        body: '@test-author please look at the migration, cc @octocat',
+      },
+      action: 'submitted',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([changesRequested('reviewer1')]);
+
+    await handlePRReview(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      expect.stringContaining(
+        '> <@author-discord-id> please look at the migration, cc [@octocat](<https://github.com/octocat>)'
+      ),
+      userMapping
+    );
+  });
+
+  it('should skip commented reviews when mirroring reviews is disabled', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.config = { ...context.config, mirrorComments: ['conversation', 'review_comment'] };
     context.payload = {
       pull_request: {
         number: 123,
@@ -162,15 +300,61 @@ describe('handle-pr-review', () => {
       action: 'submitted',
     };
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(mockCore.info).toHaveBeenCalledWith('Review is just a comment, skipping.');
     expect(discord.addReaction).not.toHaveBeenCalled();
     expect(discord.sendThreadMessage).not.toHaveBeenCalled();
   });
 
+  it('should mirror the summary of a comment-only review without touching the card', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'commented',
+        body: 'Just a comment',
+        html_url: 'https://github.com/test/repo/pull/123#pullrequestreview-456',
+      },
+      action: 'submitted',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+
+    await handlePRReview(context, mockCore);
+
+    expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+      botToken,
+      'thread-123',
+      ':speech_balloon: <@reviewer1-discord-id> [reviewed](https://github.com/test/repo/pull/123#pullrequestreview-456) the PR:\n> Just a comment',
+      userMapping
+    );
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      context,
+      123,
+      expect.objectContaining({ mirrored_comments: { 'review:456': 'thread-msg-1' } }),
+      mockCore
+    );
+    expect(discord.addReaction).not.toHaveBeenCalled();
+    expect(discord.editMessage).not.toHaveBeenCalled();
+  });
+
   it('should fetch review body when empty in payload', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -195,6 +379,7 @@ describe('handle-pr-review', () => {
 
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
     vi.mocked(github.getReviewDetails).mockResolvedValue('Fetched review body');
+    vi.mocked(github.getPRReviews).mockResolvedValue([approval('reviewer1')]);
     vi.mocked(discord.removeReaction).mockResolvedValue();
     vi.mocked(discord.addReaction).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
@@ -205,18 +390,19 @@ describe('handle-pr-review', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(github.getReviewDetails).toHaveBeenCalledWith(context, 123, 456);
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('Fetched review body')
+      expect.stringContaining('Fetched review body'),
+      userMapping
     );
   });
 
   it('should handle missing review in payload', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -233,13 +419,13 @@ describe('handle-pr-review', () => {
       action: 'submitted',
     };
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalledWith('No review found in payload');
   });
 
   it('should handle missing metadata', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -265,11 +451,173 @@ describe('handle-pr-review', () => {
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
     vi.mocked(github.postMetadataMissingComment).mockResolvedValue();
 
-    await handlePRReview(context, mockCore, botToken, userMapping);
+    await handlePRReview(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalledWith(
       expect.stringContaining('No Discord metadata found')
     );
     expect(github.postMetadataMissingComment).toHaveBeenCalled();
   });
+
+  it('should create the card of a PR without one and apply the review to it', async () => {
+    const context = createMockHandlerContext({ userMapping, channelId: 'channel-123' });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'approved',
+        body: 'Looks good',
+      },
+      action: 'submitted',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+    vi.mocked(github.getPRReviews).mockResolvedValue([approval('reviewer1')]);
+    vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+    vi.mocked(discord.getChannelMessages).mockResolvedValue([]);
+    vi.mocked(discord.getChannel).mockResolvedValue({ id: 'channel-123', guild_id: 'guild-1' });
+    vi.mocked(discord.getActiveThreads).mockResolvedValue([]);
+    vi.mocked(discord.getArchivedThreads).mockResolvedValue({ threads: [], has_more: false });
+    vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-new' });
+    vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+
+    await handlePRReview(context, mockCore);
+
+    expect(discord.sendMessage).toHaveBeenCalledTimes(1);
+    expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-new', '✅');
+    expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-new', true);
+    const card = vi.mocked(github.saveMetadataToPR).mock.calls.at(-1)![2].card!;
+    expect(card.status).toBe('approved');
+    expect(github.postMetadataMissingComment).not.toHaveBeenCalled();
+  });
+
+  describe('aggregate review state', () => {
+    const createContext = (reviewState: 'approved' | 'changes_requested') => {
+      const context = createMockHandlerContext({ userMapping });
+      context.payload = {
+        pull_request: {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        review: {
+          id: 456,
+          user: { login: 'reviewer1', id: 2 },
+          state: reviewState,
+          body: 'Review body',
+        },
+        action: 'submitted',
+      };
+      return context;
+    };
+
+    beforeEach(() => {
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+      vi.mocked(discord.removeReaction).mockResolvedValue();
+      vi.mocked(discord.addReaction).mockResolvedValue();
+      vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+      vi.mocked(discord.lockThread).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockResolvedValue();
+    });
+
+    it('should not approve while another reviewer requests changes', async () => {
+      const context = createContext('approved');
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        changesRequested('reviewer2'),
+        approval('reviewer1'),
+      ]);
+
+      await handlePRReview(context, mockCore);
+
+      expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-123', '❌');
+      expect(discord.addReaction).not.toHaveBeenCalledWith(
+        botToken,
+        'channel-123',
+        'msg-123',
+        '✅'
+      );
+      expect(discord.lockThread).not.toHaveBeenCalled();
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+        botToken,
+        'thread-123',
+        expect.stringContaining('Changes are still requested by other reviewers'),
+        userMapping
+      );
+      const card = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+      expect(card.status).toBe('changes_requested');
+      expect(card.status_actor).toBe('reviewer2');
+      expect(card.verdicts).toEqual({ reviewer1: 'approved', reviewer2: 'changes_requested' });
+    });
+
+    it('should wait for the required number of approvals', async () => {
+      const context = createContext('approved');
+      context.config = { ...context.config, requiredApprovals: 2 };
+      vi.mocked(github.getPRReviews).mockResolvedValue([approval('reviewer1')]);
+
+      await handlePRReview(context, mockCore);
+
+      expect(discord.addReaction).not.toHaveBeenCalled();
+      expect(discord.lockThread).not.toHaveBeenCalled();
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(
+        botToken,
+        'thread-123',
+        expect.stringContaining('More approvals are needed before merging (1/2 approvals)'),
+        userMapping
+      );
+      const card = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+      expect(card.status).toBe('ready_for_review');
+      expect(card.required_approvals).toBe(2);
+    });
+
+    it("should use the base branch's required approvals", async () => {
+      const context = createContext('approved');
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(2);
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        approval('reviewer2'),
+        approval('reviewer1'),
+      ]);
+
+      await handlePRReview(context, mockCore);
+
+      expect(github.getRequiredApprovalsForBranch).toHaveBeenCalledWith(context, 'main');
+      expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-123', '✅');
+      expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', true);
+      const card = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].card!;
+      expect(card.status).toBe('approved');
+      expect(card.status_actor).toBe('reviewer1');
+    });
+
+    it('should fall back to the stored review state when reviews cannot be fetched', async () => {
+      const context = createContext('approved');
+      vi.mocked(github.getPRReviews).mockRejectedValue(new Error('API error'));
+
+      await handlePRReview(context, mockCore);
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to fetch reviews, using stored review state')
+      );
+      expect(discord.addReaction).toHaveBeenCalledWith(botToken, 'channel-123', 'msg-123', '✅');
+    });
+  });
 });
@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handlePRSynchronize } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-pr-synchronize';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
 
 vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
@@ -32,7 +34,7 @@ describe('handle-pr-synchronize', () => {
   });
 
   it('should unlock thread and reset status when previously approved', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -49,35 +51,52 @@ describe('handle-pr-synchronize', () => {
       action: 'synchronize',
     };
 
-    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
-    vi.mocked(discord.getMessage).mockResolvedValue({
-      id: 'msg-123',
-      content: '**Status**: :white_check_mark: Approved by @reviewer1',
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      card: {
+        ...createCardState(context.payload.pull_request),
+        verdicts: { reviewer1: 'approved' },
+        status: 'approved',
+        status_actor: 'reviewer1',
+      },
     });
     vi.mocked(discord.lockThread).mockResolvedValue();
     vi.mocked(discord.editMessage).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(github.requestReviewers).mockResolvedValue();
 
-    await handlePRSynchronize(context, mockCore, botToken, userMapping);
+    await handlePRSynchronize(context, mockCore);
 
     expect(discord.lockThread).toHaveBeenCalledWith(botToken, 'thread-123', false);
     expect(discord.editMessage).toHaveBeenCalledWith(
       botToken,
       'channel-123',
       'msg-123',
-      expect.stringContaining(':eyes: Ready for Review')
+      messageContaining(':eyes: Ready for Review'),
+      userMapping
     );
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('New commits have been pushed')
+      expect.stringContaining('New commits have been pushed'),
+      userMapping
     );
     expect(github.requestReviewers).toHaveBeenCalled();
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+      context,
+      123,
+      expect.objectContaining({
+        card: expect.objectContaining({
+          status: 'ready_for_review',
+          verdicts: { reviewer1: 'pending' },
+        }),
+      }),
+      undefined
+    );
   });
 
   it('should not process when not previously approved', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -94,20 +113,19 @@ describe('handle-pr-synchronize', () => {
       action: 'synchronize',
     };
 
-    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
-    vi.mocked(discord.getMessage).mockResolvedValue({
-      id: 'msg-123',
-      content: '**Status**: :eyes: Ready for Review',
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      card: createCardState(context.payload.pull_request),
     });
 
-    await handlePRSynchronize(context, mockCore, botToken, userMapping);
+    await handlePRSynchronize(context, mockCore);
 
     expect(discord.lockThread).not.toHaveBeenCalled();
     expect(discord.editMessage).not.toHaveBeenCalled();
   });
 
   it('should handle no reviewers case', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -124,21 +142,21 @@ describe('handle-pr-synchronize', () => {
       action: 'synchronize',
     };
 
-    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
-    vi.mocked(discord.getMessage).mockResolvedValue({
-      id: 'msg-123',
-      content: '**Status**: :white_check_mark: Approved',
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue({
+      ...metadata,
+      card: { ...createCardState(context.payload.pull_request), status: 'approved' },
     });
     vi.mocked(discord.lockThread).mockResolvedValue();
     vi.mocked(discord.editMessage).mockResolvedValue();
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
 
-    await handlePRSynchronize(context, mockCore, botToken, userMapping);
+    await handlePRSynchronize(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('Please add reviewers if needed')
+      expect.stringContaining('Please add reviewers if needed'),
+      userMapping
     );
     expect(github.requestReviewers).not.toHaveBeenCalled();
   });
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleReviewDismissed } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-review-dismissed';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { messageContaining } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
@@ -32,7 +33,7 @@ describe('handle-review-dismissed', () => {
   });
 
   it('should handle dismissed changes_requested review', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -56,6 +57,9 @@ describe('handle-review-dismissed', () => {
     };
 
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'dismissed', body: 'Please fix' },
+    ]);
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(discord.getMessage).mockResolvedValue({
       id: 'msg-123',
@@ -63,23 +67,69 @@ describe('handle-review-dismissed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewDismissed(context, mockCore, botToken, userMapping);
+    await handleReviewDismissed(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('addressed')
+      expect.stringContaining('addressed'),
+      userMapping
     );
     expect(discord.editMessage).toHaveBeenCalledWith(
       botToken,
       'channel-123',
       'msg-123',
-      expect.stringContaining(':eyes: Ready for Review')
+      messageContaining(':eyes: Ready for Review'),
+      userMapping
+    );
+  });
+
+  it('should show the PR as approved when only the dismissed review was blocking it', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [],
+      },
+      review: {
+        id: 456,
+        user: { login: 'reviewer1', id: 2 },
+        state: 'changes_requested',
+        body: 'Please fix',
+      },
+      action: 'dismissed',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+    vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+    vi.mocked(github.getPRReviews).mockResolvedValue([
+      { id: 456, user: { login: 'reviewer1', id: 2 }, state: 'dismissed', body: 'Please fix' },
+      { id: 789, user: { login: 'reviewer2', id: 3 }, state: 'approved', body: null },
+    ]);
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue();
+    vi.mocked(discord.editMessage).mockResolvedValue();
+
+    await handleReviewDismissed(context, mockCore);
+
+    expect(discord.editMessage).toHaveBeenCalledWith(
+      botToken,
+      'channel-123',
+      'msg-123',
+      messageContaining(':white_check_mark: Approved by @reviewer2'),
+      userMapping
     );
   });
 
   it('should skip dismissed approved review', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -102,7 +152,7 @@ describe('handle-review-dismissed', () => {
       action: 'dismissed',
     };
 
-    await handleReviewDismissed(context, mockCore, botToken, userMapping);
+    await handleReviewDismissed(context, mockCore);
 
     expect(mockCore.info).toHaveBeenCalledWith(
       expect.stringContaining('not changes_requested')
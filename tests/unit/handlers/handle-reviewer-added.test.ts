@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleReviewerAdded } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-reviewer-added';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
+import { getMessageText } from '../../mocks/discord';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
@@ -33,7 +34,7 @@ describe('handle-reviewer-added', () => {
   });
 
   it('should mention reviewer and update parent message', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -62,18 +63,48 @@ describe('handle-reviewer-added', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewerAdded(context, mockCore, botToken, userMapping);
+    await handleReviewerAdded(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('reviewer2')
+      ':bellhop: <@reviewer2-discord-id> - your review has been requested for [PR #123](https://github.com/test/repo/pull/123)',
+      userMapping
     );
     expect(discord.editMessage).toHaveBeenCalled();
   });
 
+  it('should name rather than ping the reviewer of a draft when draft mentions are muted', async () => {
+    const context = createMockHandlerContext({ userMapping });
+    context.config = { ...context.config, muteDraftMentions: true };
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: true,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+        requested_reviewers: [{ login: 'reviewer2', id: 3, type: 'User' }],
+      },
+      requested_reviewer: { login: 'reviewer2', id: 3, type: 'User' },
+      action: 'review_requested',
+    };
+
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+    await handleReviewerAdded(context, mockCore);
+
+    const message = vi.mocked(discord.sendThreadMessage).mock.calls[0][2];
+    expect(message).toContain('@reviewer2');
+    expect(message).not.toContain('<@reviewer2-discord-id>');
+  });
+
   it('should update with all current reviewers', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -103,16 +134,16 @@ describe('handle-reviewer-added', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewerAdded(context, mockCore, botToken, userMapping);
+    await handleReviewerAdded(context, mockCore);
 
     const editCall = vi.mocked(discord.editMessage).mock.calls[0];
-    expect(editCall[3]).toContain('reviewer1');
-    expect(editCall[3]).toContain('reviewer2');
-    expect(editCall[3]).toContain('reviewer3');
+    expect(getMessageText(editCall[3])).toContain('reviewer1');
+    expect(getMessageText(editCall[3])).toContain('reviewer2');
+    expect(getMessageText(editCall[3])).toContain('reviewer3');
   });
 
   it('should handle missing metadata', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -133,7 +164,7 @@ describe('handle-reviewer-added', () => {
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
     vi.mocked(github.postMetadataMissingComment).mockResolvedValue();
 
-    await handleReviewerAdded(context, mockCore, botToken, userMapping);
+    await handleReviewerAdded(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalled();
     expect(github.postMetadataMissingComment).toHaveBeenCalled();
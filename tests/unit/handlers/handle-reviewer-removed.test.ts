@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleReviewerRemoved } from '../../../.github/scripts/discord-pr-notifications/handlers/handle-reviewer-removed';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockHandlerContext } from '../../mocks/github';
 import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
 import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import { DiscordApiError } from '../../../.github/scripts/discord-pr-notifications/utils/errors';
 import type { Core, UserMapping, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
 
 vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
@@ -33,7 +34,7 @@ describe('handle-reviewer-removed', () => {
   });
 
   it('should remove reviewer from thread and update message', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -60,12 +61,13 @@ describe('handle-reviewer-removed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewerRemoved(context, mockCore, botToken, userMapping);
+    await handleReviewerRemoved(context, mockCore);
 
     expect(discord.sendThreadMessage).toHaveBeenCalledWith(
       botToken,
       'thread-123',
-      expect.stringContaining('reviewer2')
+      expect.stringContaining('reviewer2'),
+      userMapping
     );
     expect(discord.removeThreadMember).toHaveBeenCalledWith(
       botToken,
@@ -76,7 +78,7 @@ describe('handle-reviewer-removed', () => {
   });
 
   it('should handle 404 when user not in thread', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -97,7 +99,12 @@ describe('handle-reviewer-removed', () => {
     vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
     vi.mocked(discord.sendThreadMessage).mockResolvedValue();
     vi.mocked(discord.removeThreadMember).mockRejectedValue(
-      new Error('404: User not in thread')
+      new DiscordApiError('Failed to remove thread member: Unknown Member', {
+        status: 404,
+        code: 10007,
+        route: 'DELETE /channels/thread-123/thread-members/:id',
+        retryable: false,
+      })
     );
     vi.mocked(discord.getMessage).mockResolvedValue({
       id: 'msg-123',
@@ -105,13 +112,13 @@ describe('handle-reviewer-removed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewerRemoved(context, mockCore, botToken, userMapping);
+    await handleReviewerRemoved(context, mockCore);
 
     expect(mockCore.warning).not.toHaveBeenCalled();
   });
 
   it('should warn on non-404 errors', async () => {
-    const context = createMockGitHubContext();
+    const context = createMockHandlerContext({ userMapping });
     context.payload = {
       pull_request: {
         number: 123,
@@ -140,7 +147,7 @@ describe('handle-reviewer-removed', () => {
     });
     vi.mocked(discord.editMessage).mockResolvedValue();
 
-    await handleReviewerRemoved(context, mockCore, botToken, userMapping);
+    await handleReviewerRemoved(context, mockCore);
 
     expect(mockCore.warning).toHaveBeenCalled();
   });
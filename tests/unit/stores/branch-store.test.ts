@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createBranchStore,
+  METADATA_FILE_PATH,
+} from '../../../.github/scripts/discord-pr-notifications/stores/branch-store';
+import { createMockGitHubContext } from '../../mocks/github';
+import type { DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('branch-store', () => {
+  const branch = 'discord-pr-metadata';
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  const fileResponse = (entries: object, sha = 'blob-sha') => ({
+    data: {
+      content: Buffer.from(JSON.stringify(entries)).toString('base64'),
+      sha,
+    },
+  });
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+  const createContext = () => {
+    const context = createMockGitHubContext();
+    context.github.rest.repos.getContent = vi.fn();
+    context.github.rest.repos.createOrUpdateFileContents = vi.fn().mockResolvedValue({ data: {} });
+    context.github.rest.git = {
+      createTree: vi.fn().mockResolvedValue({ data: { sha: 'tree-sha' } }),
+      createCommit: vi.fn().mockResolvedValue({ data: { sha: 'commit-sha' } }),
+      createRef: vi.fn().mockResolvedValue({ data: {} }),
+      getBlob: vi.fn(),
+    };
+    return context;
+  };
+
+  const decodeWrittenEntries = (context: ReturnType<typeof createContext>, call = 0) =>
+    JSON.parse(
+      Buffer.from(
+        vi.mocked(context.github.rest.repos.createOrUpdateFileContents).mock.calls[call][0].content,
+        'base64'
+      ).toString('utf8')
+    );
+
+  it('should read an entry from the branch', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockResolvedValue(fileResponse({ '123': metadata }));
+
+    const store = createBranchStore(context, branch);
+
+    expect(await store.get(123)).toEqual(metadata);
+    expect(await store.get(456)).toBeNull();
+    expect(context.github.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: METADATA_FILE_PATH,
+      ref: branch,
+    });
+  });
+
+  it('should read a map too large for the contents API through the blob API', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockResolvedValue({
+      data: { content: '', encoding: 'none', sha: 'blob-sha' },
+    });
+    context.github.rest.git.getBlob.mockResolvedValue({
+      data: fileResponse({ '123': metadata }).data,
+    });
+
+    expect(await createBranchStore(context, branch).get(123)).toEqual(metadata);
+    expect(context.github.rest.git.getBlob).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      file_sha: 'blob-sha',
+    });
+  });
+
+  it('should treat a missing branch as empty', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockRejectedValue(notFound());
+
+    const store = createBranchStore(context, branch);
+
+    expect(await store.get(123)).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should update the file with the blob SHA it read', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockResolvedValue(
+      fileResponse({ '456': { ...metadata, message_id: 'msg-456' } })
+    );
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: METADATA_FILE_PATH,
+        branch,
+        sha: 'blob-sha',
+        message: 'Update Discord metadata for PR #123',
+      })
+    );
+    expect(decodeWrittenEntries(context)).toEqual({
+      '123': metadata,
+      '456': { ...metadata, message_id: 'msg-456' },
+    });
+  });
+
+  it('should create the orphan branch on first save', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockRejectedValue(notFound());
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.git.createTree).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      tree: [
+        {
+          path: METADATA_FILE_PATH,
+          mode: '100644',
+          type: 'blob',
+          content: `${JSON.stringify({ '123': metadata }, null, 2)}\n`,
+        },
+      ],
+    });
+    expect(context.github.rest.git.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ tree: 'tree-sha', parents: [] })
+    );
+    expect(context.github.rest.git.createRef).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      ref: `refs/heads/${branch}`,
+      sha: 'commit-sha',
+    });
+    expect(context.github.rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+  });
+
+  it('should add the file when the branch exists without it', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockRejectedValue(notFound());
+    context.github.rest.git.createRef.mockRejectedValue(
+      Object.assign(new Error('Reference already exists'), { status: 422 })
+    );
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({ branch, sha: undefined })
+    );
+  });
+
+  it('should merge into the file when another run created the branch first', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent
+      .mockRejectedValueOnce(notFound())
+      .mockResolvedValueOnce(fileResponse({ '456': metadata }, 'other-run-sha'));
+    context.github.rest.git.createRef.mockRejectedValue(
+      Object.assign(new Error('Reference already exists'), { status: 422 })
+    );
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({ branch, sha: 'other-run-sha' })
+    );
+    expect(decodeWrittenEntries(context, 0)).toEqual({ '123': metadata, '456': metadata });
+  });
+
+  it('should retry when another run added the file first', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent
+      .mockRejectedValueOnce(notFound())
+      .mockRejectedValueOnce(notFound())
+      .mockResolvedValueOnce(fileResponse({ '456': metadata }, 'other-run-sha'));
+    context.github.rest.git.createRef.mockRejectedValue(
+      Object.assign(new Error('Reference already exists'), { status: 422 })
+    );
+    context.github.rest.repos.createOrUpdateFileContents
+      .mockRejectedValueOnce(Object.assign(new Error('"sha" wasn\'t supplied'), { status: 422 }))
+      .mockResolvedValueOnce({ data: {} });
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenLastCalledWith(
+      expect.objectContaining({ sha: 'other-run-sha' })
+    );
+    expect(decodeWrittenEntries(context, 1)).toEqual({ '123': metadata, '456': metadata });
+  });
+
+  it('should retry when another run updated the file first', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent
+      .mockResolvedValueOnce(fileResponse({}, 'stale-sha'))
+      .mockResolvedValueOnce(fileResponse({ '456': metadata }, 'fresh-sha'));
+    context.github.rest.repos.createOrUpdateFileContents
+      .mockRejectedValueOnce(Object.assign(new Error('Conflict'), { status: 409 }))
+      .mockResolvedValueOnce({ data: {} });
+
+    await createBranchStore(context, branch).save(123, metadata);
+
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenCalledTimes(2);
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenLastCalledWith(
+      expect.objectContaining({ sha: 'fresh-sha' })
+    );
+    expect(decodeWrittenEntries(context, 1)).toEqual({ '123': metadata, '456': metadata });
+  });
+
+  it('should give up after repeated conflicts', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockResolvedValue(fileResponse({}));
+    context.github.rest.repos.createOrUpdateFileContents.mockRejectedValue(
+      Object.assign(new Error('Conflict'), { status: 409 })
+    );
+
+    await expect(createBranchStore(context, branch).save(123, metadata)).rejects.toThrow(
+      `Failed to save metadata to branch ${branch}: Conflict`
+    );
+    expect(context.github.rest.repos.createOrUpdateFileContents).toHaveBeenCalledTimes(3);
+  });
+
+  it('should list all entries', async () => {
+    const context = createContext();
+    context.github.rest.repos.getContent.mockResolvedValue(
+      fileResponse({ '1': metadata, '2': { ...metadata, message_id: 'msg-2' } })
+    );
+
+    expect(await createBranchStore(context, branch).list()).toEqual([
+      { pr_number: 1, metadata },
+      { pr_number: 2, metadata: { ...metadata, message_id: 'msg-2' } },
+    ]);
+  });
+});
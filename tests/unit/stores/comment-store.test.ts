@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCommentStore } from '../../../.github/scripts/discord-pr-notifications/stores/comment-store';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type { Core, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('comment-store', () => {
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read metadata from the PR comments', async () => {
+    const context = createMockGitHubContext();
+    vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+    const store = createCommentStore(context, mockCore);
+
+    expect(await store.get(123)).toEqual(metadata);
+    expect(github.getMetadataFromPR).toHaveBeenCalledWith(context, 123, mockCore);
+  });
+
+  it('should write metadata to the PR comment', async () => {
+    const context = createMockGitHubContext();
+    vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+
+    await createCommentStore(context, mockCore).save(123, metadata);
+
+    expect(github.saveMetadataToPR).toHaveBeenCalledWith(context, 123, metadata, mockCore);
+  });
+
+  it('should list metadata from the repository comments', async () => {
+    const context = createMockGitHubContext();
+    const entries = [{ pr_number: 1, metadata }];
+    vi.mocked(github.listMetadataFromRepo).mockResolvedValue(entries);
+
+    expect(await createCommentStore(context, mockCore).list()).toEqual(entries);
+    expect(github.listMetadataFromRepo).toHaveBeenCalledWith(context, mockCore);
+  });
+});
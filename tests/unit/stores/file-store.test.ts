@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileStore } from '../../../.github/scripts/discord-pr-notifications/stores/file-store';
+import type { DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('file-store', () => {
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'discord-metadata-'));
+    filePath = path.join(dir, 'nested', 'metadata.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when the file does not exist', async () => {
+    expect(await createFileStore(filePath).get(123)).toBeNull();
+    expect(await createFileStore(filePath).list()).toEqual([]);
+  });
+
+  it('should save and read entries', async () => {
+    const store = createFileStore(filePath);
+
+    await store.save(123, metadata);
+    await store.save(456, { ...metadata, message_id: 'msg-456' });
+    await store.save(123, { ...metadata, thread_id: 'thread-new' });
+
+    expect(await store.get(123)).toEqual({ ...metadata, thread_id: 'thread-new' });
+    expect(await store.list()).toEqual([
+      { pr_number: 123, metadata: { ...metadata, thread_id: 'thread-new' } },
+      { pr_number: 456, metadata: { ...metadata, message_id: 'msg-456' } },
+    ]);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['metadata.json']);
+  });
+
+  it('should fail on a corrupt file', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{not json');
+
+    await expect(createFileStore(filePath).get(123)).rejects.toThrow(
+      `Failed to read metadata file ${filePath}`
+    );
+  });
+});
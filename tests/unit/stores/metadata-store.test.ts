@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createMetadataStore,
+  getMetadataStore,
+} from '../../../.github/scripts/discord-pr-notifications/stores/metadata-store';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as commentStore from '../../../.github/scripts/discord-pr-notifications/stores/comment-store';
+import * as branchStore from '../../../.github/scripts/discord-pr-notifications/stores/branch-store';
+import * as fileStore from '../../../.github/scripts/discord-pr-notifications/stores/file-store';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/stores/comment-store');
+vi.mock('../../../.github/scripts/discord-pr-notifications/stores/branch-store');
+vi.mock('../../../.github/scripts/discord-pr-notifications/stores/file-store');
+
+describe('metadata-store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should use the comment store by default', () => {
+    const context = createMockGitHubContext();
+
+    getMetadataStore(context);
+
+    expect(commentStore.createCommentStore).toHaveBeenCalledWith(context, undefined);
+  });
+
+  it('should use the configured store and its settings', () => {
+    const context = {
+      ...createMockGitHubContext(),
+      config: { metadataStore: 'branch' as const, metadataBranch: 'bot-data' },
+    };
+
+    getMetadataStore(context);
+
+    expect(branchStore.createBranchStore).toHaveBeenCalledWith(context, 'bot-data');
+  });
+
+  it('should create a store of any type', () => {
+    const context = { ...createMockGitHubContext(), config: { metadataFile: '/tmp/meta.json' } };
+
+    createMetadataStore('file', context);
+
+    expect(fileStore.createFileStore).toHaveBeenCalledWith('/tmp/meta.json');
+  });
+});
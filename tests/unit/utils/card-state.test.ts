@@ -0,0 +1,325 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCardState,
+  getCardState,
+  setCardStatus,
+  setCardDescription,
+  setCardReviewers,
+  STORED_DESCRIPTION_LIMIT,
+  setReviewerVerdict,
+  getLatestVerdicts,
+  countApprovals,
+  getReviewStatus,
+  applyReviewVerdicts,
+  applyReviews,
+  isSameCard,
+} from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import type {
+  DiscordMetadata,
+  GitHubPullRequest,
+  GitHubReview,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('card-state', () => {
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: 'PR description',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [
+      { login: 'reviewer1', id: 2, type: 'User' },
+      { login: 'reviewer2', id: 3, type: 'User' },
+    ],
+    labels: [{ name: 'type: feature' }],
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  describe('createCardState', () => {
+    it('should build state from the PR payload', () => {
+      expect(createCardState(pr)).toEqual({
+        number: 123,
+        title: 'Test PR',
+        url: 'https://github.com/test/repo/pull/123',
+        head_branch: 'feature',
+        base_branch: 'main',
+        author: 'test-author',
+        description: 'PR description',
+        reviewers: ['reviewer1', 'reviewer2'],
+        verdicts: { reviewer1: 'pending', reviewer2: 'pending' },
+        status: 'ready_for_review',
+        status_actor: undefined,
+        ci: 'none',
+        labels: ['type: feature'],
+      });
+    });
+
+    it('should use draft status for draft PRs', () => {
+      expect(createCardState({ ...pr, draft: true }).status).toBe('draft');
+    });
+
+    it('should reflect merged and closed PRs', () => {
+      const merged = createCardState({
+        ...pr,
+        state: 'closed',
+        merged: true,
+        merged_by: { login: 'merger' },
+      });
+      expect(merged.status).toBe('merged');
+      expect(merged.status_actor).toBe('merger');
+
+      expect(createCardState({ ...pr, state: 'closed' }).status).toBe('closed');
+    });
+
+    it('should handle a missing body and reviewers', () => {
+      const card = createCardState({ ...pr, body: null, requested_reviewers: undefined });
+      expect(card.description).toBe('');
+      expect(card.reviewers).toEqual([]);
+      expect(card.verdicts).toEqual({});
+    });
+  });
+
+  describe('getCardState', () => {
+    it('should regenerate state for legacy metadata', () => {
+      expect(getCardState(metadata, pr)).toEqual(createCardState(pr));
+    });
+
+    it('should return a copy of stored state', () => {
+      const card = { ...createCardState(pr), status: 'approved' as const };
+      const stored = { ...metadata, card };
+
+      const copy = getCardState(stored, { ...pr, title: 'Ignored' });
+      copy.verdicts.reviewer1 = 'approved';
+      copy.reviewers.push('reviewer3');
+
+      expect(copy.title).toBe('Test PR');
+      expect(copy.status).toBe('approved');
+      expect(card.verdicts.reviewer1).toBe('pending');
+      expect(card.reviewers).toEqual(['reviewer1', 'reviewer2']);
+    });
+  });
+
+  describe('setCardStatus', () => {
+    it('should set status and actor', () => {
+      const card = setCardStatus(createCardState(pr), 'closed', 'closer');
+      expect(card.status).toBe('closed');
+      expect(card.status_actor).toBe('closer');
+    });
+
+    it('should clear a previous actor', () => {
+      const approved = setCardStatus(createCardState(pr), 'approved', 'reviewer1');
+      expect(setCardStatus(approved, 'ready_for_review').status_actor).toBeUndefined();
+    });
+  });
+
+  describe('setCardDescription', () => {
+    it('should keep a description that fits', () => {
+      const card = setCardDescription(createCardState(pr), 'New description');
+      expect(card.description).toBe('New description');
+      expect(card.description_truncated).toBeUndefined();
+    });
+
+    it('should keep only the start of a long description', () => {
+      const body = 'x'.repeat(STORED_DESCRIPTION_LIMIT + 1);
+
+      const card = createCardState({ ...pr, body });
+      expect(card.description).toBe(body.slice(0, STORED_DESCRIPTION_LIMIT));
+      expect(card.description_truncated).toBe(true);
+
+      expect(setCardDescription(card, 'Short again').description_truncated).toBeUndefined();
+    });
+  });
+
+  describe('setCardReviewers', () => {
+    it('should add newly requested reviewers', () => {
+      const card = setCardReviewers(createCardState(pr), ['reviewer1', 'reviewer2', 'reviewer3']);
+      expect(card.reviewers).toEqual(['reviewer1', 'reviewer2', 'reviewer3']);
+      expect(card.verdicts.reviewer3).toBe('pending');
+    });
+
+    it('should drop reviewers whose request was removed', () => {
+      const card = setCardReviewers(createCardState(pr), ['reviewer1']);
+      expect(card.reviewers).toEqual(['reviewer1']);
+      expect(card.verdicts).toEqual({ reviewer1: 'pending' });
+    });
+
+    it('should keep reviewers who already submitted a review', () => {
+      const reviewed = setReviewerVerdict(createCardState(pr), 'reviewer1', 'approved');
+      const card = setCardReviewers(reviewed, ['reviewer2']);
+      expect(card.reviewers).toEqual(['reviewer1', 'reviewer2']);
+      expect(card.verdicts).toEqual({ reviewer1: 'approved', reviewer2: 'pending' });
+    });
+
+    it('should reset the verdict of re-requested reviewers', () => {
+      const reviewed = setReviewerVerdict(createCardState(pr), 'reviewer1', 'changes_requested');
+      const card = setCardReviewers(reviewed, ['reviewer1', 'reviewer2']);
+      expect(card.verdicts.reviewer1).toBe('pending');
+    });
+  });
+
+  describe('setReviewerVerdict', () => {
+    it('should record a verdict for a listed reviewer', () => {
+      const card = setReviewerVerdict(createCardState(pr), 'reviewer2', 'changes_requested');
+      expect(card.reviewers).toEqual(['reviewer1', 'reviewer2']);
+      expect(card.verdicts.reviewer2).toBe('changes_requested');
+    });
+
+    it('should add reviewers that were never requested', () => {
+      const card = setReviewerVerdict(createCardState(pr), 'drive-by', 'approved');
+      expect(card.reviewers).toEqual(['reviewer1', 'reviewer2', 'drive-by']);
+      expect(card.verdicts['drive-by']).toBe('approved');
+    });
+  });
+
+  describe('getLatestVerdicts', () => {
+    const review = (login: string, state: GitHubReview['state']): GitHubReview => ({
+      id: 1,
+      user: { login },
+      state,
+      body: null,
+    });
+
+    it("should keep each reviewer's latest verdict", () => {
+      const verdicts = getLatestVerdicts(
+        [
+          review('reviewer1', 'changes_requested'),
+          review('reviewer2', 'approved'),
+          review('reviewer1', 'approved'),
+        ],
+        'test-author'
+      );
+      expect(verdicts).toEqual({ reviewer1: 'approved', reviewer2: 'approved' });
+    });
+
+    it('should not let comments replace an approval or change request', () => {
+      const verdicts = getLatestVerdicts(
+        [
+          review('reviewer1', 'changes_requested'),
+          review('reviewer1', 'commented'),
+          review('reviewer2', 'commented'),
+        ],
+        'test-author'
+      );
+      expect(verdicts).toEqual({ reviewer1: 'changes_requested', reviewer2: 'commented' });
+    });
+
+    it('should record dismissals and ignore the author', () => {
+      const verdicts = getLatestVerdicts(
+        [
+          review('reviewer1', 'approved'),
+          review('reviewer1', 'dismissed'),
+          review('test-author', 'commented'),
+        ],
+        'test-author'
+      );
+      expect(verdicts).toEqual({ reviewer1: 'dismissed' });
+    });
+  });
+
+  describe('getReviewStatus', () => {
+    const card = createCardState(pr);
+
+    it('should block on any change request', () => {
+      const verdicts = { reviewer1: 'approved', reviewer2: 'changes_requested' } as const;
+      expect(getReviewStatus({ ...card, verdicts })).toBe('changes_requested');
+    });
+
+    it('should approve once enough reviewers approve', () => {
+      const verdicts = { reviewer1: 'approved', reviewer2: 'pending' } as const;
+      expect(countApprovals({ ...card, verdicts })).toBe(1);
+      expect(getReviewStatus({ ...card, verdicts })).toBe('approved');
+      expect(getReviewStatus({ ...card, verdicts, required_approvals: 2 })).toBe(
+        'ready_for_review'
+      );
+    });
+  });
+
+  describe('applyReviewVerdicts', () => {
+    const options = { requestedLogins: [] as string[], requiredApprovals: 1 };
+
+    it('should derive the status and actor from all verdicts', () => {
+      const card = applyReviewVerdicts(
+        createCardState(pr),
+        { reviewer1: 'approved', reviewer2: 'changes_requested' },
+        { ...options, actor: 'reviewer1' }
+      );
+      expect(card.status).toBe('changes_requested');
+      expect(card.status_actor).toBe('reviewer2');
+      expect(card.required_approvals).toBe(1);
+    });
+
+    it('should prefer the given actor when their verdict decided the status', () => {
+      const card = applyReviewVerdicts(
+        createCardState(pr),
+        { reviewer1: 'approved', reviewer2: 'approved' },
+        { ...options, actor: 'reviewer2' }
+      );
+      expect(card.status).toBe('approved');
+      expect(card.status_actor).toBe('reviewer2');
+    });
+
+    it('should treat requested reviewers as pending and add unrequested reviewers', () => {
+      const card = applyReviewVerdicts(
+        createCardState(pr),
+        { reviewer1: 'approved', 'drive-by': 'commented' },
+        { requestedLogins: ['reviewer1'], requiredApprovals: 1 }
+      );
+      expect(card.reviewers).toEqual(['reviewer1', 'drive-by']);
+      expect(card.verdicts).toEqual({ reviewer1: 'pending', 'drive-by': 'commented' });
+      expect(card.status).toBe('ready_for_review');
+      expect(card.status_actor).toBeUndefined();
+    });
+
+    it('should not change the status of draft, merged or closed PRs', () => {
+      const verdicts = { reviewer1: 'approved' } as const;
+      for (const status of ['draft', 'merged', 'closed'] as const) {
+        const card = applyReviewVerdicts({ ...createCardState(pr), status }, verdicts, options);
+        expect(card.status).toBe(status);
+        expect(card.verdicts.reviewer1).toBe('approved');
+      }
+    });
+  });
+
+  describe('applyReviews', () => {
+    it('should apply the latest verdict of each reviewer', () => {
+      const card = applyReviews(
+        createCardState(pr),
+        [
+          { id: 1, user: { login: 'reviewer1' }, state: 'changes_requested', body: null },
+          { id: 2, user: { login: 'reviewer1' }, state: 'approved', body: null },
+        ],
+        { requestedLogins: ['reviewer2'], requiredApprovals: 1 }
+      );
+      expect(card.verdicts).toEqual({ reviewer1: 'approved', reviewer2: 'pending' });
+      expect(card.status).toBe('approved');
+      expect(card.status_actor).toBe('reviewer1');
+    });
+  });
+
+  describe('isSameCard', () => {
+    it('should ignore the update time and key order', () => {
+      const card = createCardState(pr);
+      const reordered = Object.fromEntries(Object.entries(card).reverse()) as typeof card;
+
+      expect(isSameCard(card, { ...reordered, updated_at: '2024-01-01T00:00:00Z' })).toBe(true);
+      expect(isSameCard(card, { ...card, verdicts: { reviewer2: 'pending', reviewer1: 'pending' } })).toBe(true);
+    });
+
+    it('should notice rendered differences', () => {
+      const card = createCardState(pr);
+
+      expect(isSameCard(card, { ...card, title: 'Renamed' })).toBe(false);
+      expect(isSameCard(card, { ...card, reviewers: ['reviewer2', 'reviewer1'] })).toBe(false);
+      expect(isSameCard(card, setReviewerVerdict(card, 'reviewer1', 'approved'))).toBe(false);
+    });
+  });
+});
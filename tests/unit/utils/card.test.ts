@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildCardFromPR,
+  getRequiredApprovals,
+  getThreadName,
+  refreshReviewState,
+  renderCardForContext,
+  updatePRCard,
+} from '../../../.github/scripts/discord-pr-notifications/utils/card';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
+import { renderPRCard } from '../../../.github/scripts/discord-pr-notifications/utils/formatting';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type { DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('card', () => {
+  const botToken = 'test-bot-token';
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+  const card = createCardState({
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getThreadName', () => {
+    it('should name the thread after the PR, within the 100 character limit', () => {
+      const pr = {
+        number: 123,
+        title: 'Test PR',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+      };
+
+      expect(getThreadName(pr)).toBe('PR #123: Test PR');
+      expect(getThreadName({ ...pr, title: 'x'.repeat(200) })).toHaveLength(100);
+    });
+  });
+
+  describe('updatePRCard', () => {
+    it('should persist the card state and re-render the parent message', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockResolvedValue();
+
+      const updated = await updatePRCard(context, 123, metadata, card);
+
+      expect(updated).toEqual({
+        ...metadata,
+        card: { ...card, updated_at: expect.any(String) },
+      });
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(context, 123, updated, undefined);
+      expect(discord.editMessage).toHaveBeenCalledWith(
+        botToken,
+        'channel-123',
+        'msg-123',
+        renderCardForContext(context, updated.card!),
+        {}
+      );
+    });
+
+    it('should render a plain-text card when configured', async () => {
+      const context = {
+        ...createMockGitHubContext(),
+        config: { botToken, cardFormat: 'text' as const },
+      };
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockResolvedValue();
+
+      await updatePRCard(context, 123, metadata, card);
+
+      expect(discord.editMessage).toHaveBeenCalledWith(
+        botToken,
+        'channel-123',
+        'msg-123',
+        {
+          content: renderPRCard(card, {}),
+          embeds: [],
+          flags: 4,
+        },
+        {}
+      );
+    });
+
+    it('should keep the new state even if the Discord edit fails', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.saveMetadataToPR).mockResolvedValue();
+      vi.mocked(discord.editMessage).mockRejectedValue(new Error('Edit failed'));
+
+      await expect(updatePRCard(context, 123, metadata, card)).rejects.toThrow('Edit failed');
+      expect(github.saveMetadataToPR).toHaveBeenCalled();
+    });
+  });
+
+  describe('getRequiredApprovals', () => {
+    it('should prefer the configured count', async () => {
+      const context = { ...createMockGitHubContext(), config: { requiredApprovals: 3 } };
+
+      expect(await getRequiredApprovals(context, 'main')).toBe(3);
+      expect(github.getRequiredApprovalsForBranch).not.toHaveBeenCalled();
+    });
+
+    it('should use the branch rule, defaulting to one approval', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValueOnce(2);
+      expect(await getRequiredApprovals(context, 'main')).toBe(2);
+
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValueOnce(null);
+      expect(await getRequiredApprovals(context, 'main')).toBe(1);
+    });
+  });
+
+  describe('refreshReviewState', () => {
+    it('should apply every review to the card', async () => {
+      const context = createMockGitHubContext();
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(2);
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        { id: 1, user: { login: 'reviewer1' }, state: 'approved', body: null },
+        { id: 2, user: { login: 'reviewer2' }, state: 'approved', body: null },
+      ]);
+
+      const updated = await refreshReviewState(
+        context,
+        card,
+        {
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+          requested_reviewers: [],
+        },
+        'reviewer2'
+      );
+
+      expect(github.getPRReviews).toHaveBeenCalledWith(context, 123);
+      expect(updated.reviewers).toEqual(['reviewer1', 'reviewer2']);
+      expect(updated.required_approvals).toBe(2);
+      expect(updated.status).toBe('approved');
+      expect(updated.status_actor).toBe('reviewer2');
+    });
+  });
+
+  describe('buildCardFromPR', () => {
+    const pr = {
+      number: 123,
+      title: 'Test PR',
+      html_url: 'https://github.com/test/repo/pull/123',
+      body: '',
+      draft: false,
+      state: 'open',
+      user: { login: 'test-author', id: 1 },
+      base: { ref: 'main' },
+      head: { ref: 'feature' },
+      requested_reviewers: [{ login: 'reviewer2', id: 3 }],
+    };
+
+    beforeEach(() => {
+      vi.mocked(github.getRequiredApprovalsForBranch).mockResolvedValue(null);
+      vi.mocked(github.getPRReviews).mockResolvedValue([
+        { id: 1, user: { login: 'reviewer1', id: 2 }, state: 'approved', body: '' },
+      ]);
+    });
+
+    it('should build the card from the PR and its reviews', async () => {
+      const built = await buildCardFromPR(createMockGitHubContext(), pr);
+
+      expect(built.reviewers).toEqual(['reviewer2', 'reviewer1']);
+      expect(built.verdicts).toEqual({ reviewer1: 'approved', reviewer2: 'pending' });
+      expect(built.status).toBe('approved');
+    });
+
+    it('should keep reviewer order and CI status from the previous card', async () => {
+      const previous = { ...card, reviewers: ['reviewer1', 'reviewer2'], ci: 'failure' as const };
+
+      const built = await buildCardFromPR(createMockGitHubContext(), pr, previous);
+
+      expect(built.reviewers).toEqual(['reviewer1', 'reviewer2']);
+      expect(built.ci).toBe('failure');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateCIStatus } from '../../../.github/scripts/discord-pr-notifications/utils/ci';
+import type { GitHubCheckRun } from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('ci', () => {
+  describe('aggregateCIStatus', () => {
+    const run = (name: string, status: string, conclusion: string | null): GitHubCheckRun => ({
+      name,
+      status,
+      conclusion,
+      html_url: `https://github.com/test/repo/runs/${name}`,
+    });
+
+    it('should report none for a commit without checks', () => {
+      expect(aggregateCIStatus([], [])).toEqual({ status: 'none', failing: [] });
+    });
+
+    it('should pass when every check passed, counting skipped and neutral as passing', () => {
+      const result = aggregateCIStatus(
+        [
+          run('build', 'completed', 'success'),
+          run('docs', 'completed', 'skipped'),
+          run('lint', 'completed', 'neutral'),
+        ],
+        [{ context: 'ci/deploy', state: 'success' }]
+      );
+
+      expect(result).toEqual({ status: 'success', failing: [] });
+    });
+
+    it('should be pending while any check is still running', () => {
+      const result = aggregateCIStatus(
+        [run('build', 'completed', 'success'), run('test', 'in_progress', null)],
+        []
+      );
+
+      expect(result.status).toBe('pending');
+    });
+
+    it('should fail when any check run or commit status failed, even if others are pending', () => {
+      const result = aggregateCIStatus(
+        [run('build', 'completed', 'timed_out'), run('test', 'queued', null)],
+        [
+          { context: 'ci/deploy', state: 'error', target_url: 'https://ci.example.com/1' },
+          { context: 'ci/other', state: 'pending' },
+        ]
+      );
+
+      expect(result).toEqual({
+        status: 'failure',
+        failing: [
+          { name: 'build', url: 'https://github.com/test/repo/runs/build' },
+          { name: 'ci/deploy', url: 'https://ci.example.com/1' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  formatConversationComment,
+  formatReviewComment,
+  formatReviewSummary,
+  isBotComment,
+  isMirroringEnabled,
+  mirrorComment,
+} from '../../../.github/scripts/discord-pr-notifications/utils/comments';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  DiscordMetadata,
+  GitHubReviewComment,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('comments', () => {
+  const botToken = 'test-bot-token';
+  const userMapping = { alice: 'alice-discord-id' };
+  const markdown = { repoUrl: 'https://github.com/test/repo', userMapping };
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const metadata: DiscordMetadata = {
+    message_id: 'msg-123',
+    thread_id: 'thread-123',
+    channel_id: 'channel-123',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-1' });
+  });
+
+  describe('isMirroringEnabled', () => {
+    it('should mirror every comment type by default', () => {
+      const context = createMockGitHubContext();
+      expect(isMirroringEnabled(context, 'conversation')).toBe(true);
+      expect(isMirroringEnabled(context, 'review_comment')).toBe(true);
+      expect(isMirroringEnabled(context, 'review')).toBe(true);
+    });
+
+    it('should only mirror the configured types', () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, mirrorComments: ['review'] };
+      expect(isMirroringEnabled(context, 'conversation')).toBe(false);
+      expect(isMirroringEnabled(context, 'review')).toBe(true);
+    });
+  });
+
+  describe('isBotComment', () => {
+    it('should recognize bot accounts and the configured bot login', () => {
+      const context = createMockGitHubContext();
+      const comment = { id: 1, body: 'x', created_at: '' };
+
+      expect(
+        isBotComment(context, { ...comment, user: { login: 'dependabot[bot]', type: 'Bot' } })
+      ).toBe(true);
+      expect(isBotComment(context, { ...comment, user: { login: 'github-actions[bot]' } })).toBe(
+        true
+      );
+      expect(isBotComment(context, { ...comment, user: { login: 'alice', type: 'User' } })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('formatting', () => {
+    it('should quote a conversation comment under its mapped author', () => {
+      const message = formatConversationComment(
+        {
+          id: 1,
+          body: 'Looks good\nOne question',
+          user: { login: 'alice' },
+          created_at: '',
+          html_url: 'https://github.com/test/repo/pull/1#issuecomment-1',
+        },
+        markdown
+      );
+
+      expect(message).toBe(
+        ':speech_balloon: <@alice-discord-id> [commented](https://github.com/test/repo/pull/1#issuecomment-1):\n> Looks good\n> One question'
+      );
+    });
+
+    it('should keep long comments and diff hunks within one message', () => {
+      const message = formatReviewComment(
+        {
+          id: 2,
+          body: 'x '.repeat(2000),
+          user: { login: 'alice' },
+          created_at: '',
+          html_url: 'https://github.com/test/repo/pull/1#discussion_r2',
+          path: 'dist/bundle.js',
+          line: 1,
+          diff_hunk: `@@ -1 +1 @@\n+${'y'.repeat(3000)}`,
+        },
+        markdown
+      );
+
+      expect(message.length).toBeLessThanOrEqual(2000);
+      expect(message).toContain('```diff\n+yyy');
+      expect(message).toContain('[Read more](<https://github.com/test/repo/pull/1#discussion_r2>)');
+    });
+
+    it('should escape mentions in the quoted body', () => {
+      const message = formatConversationComment(
+        {
+          id: 1,
+          body: '@everyone <@123> please look',
+          user: { login: 'alice' },
+          created_at: '',
+          html_url: 'https://github.com/test/repo/pull/1#issuecomment-1',
+        },
+        markdown
+      );
+
+      expect(message).toContain('> @\u200beveryone <@\u200b123> please look');
+    });
+
+    it('should show the file, line and end of the diff hunk for a review comment', () => {
+      const comment: GitHubReviewComment = {
+        id: 2,
+        body: 'Off by one?',
+        user: { login: 'bob' },
+        created_at: '',
+        html_url: 'https://github.com/test/repo/pull/1#discussion_r2',
+        path: 'src/index.ts',
+        line: 42,
+        diff_hunk: '@@ -1,7 +1,7 @@\n a\n b\n c\n d\n-e\n+f',
+      };
+
+      const message = formatReviewComment(comment, markdown);
+
+      expect(message).toContain(
+        '@bob [commented](https://github.com/test/repo/pull/1#discussion_r2) on `src/index.ts` line 42:'
+      );
+      expect(message).toContain('```diff\n b\n c\n d\n-e\n+f\n```');
+      expect(message).not.toContain('@@');
+      expect(message).toContain('> Off by one?');
+    });
+
+    it('should fall back to the original line of an outdated review comment', () => {
+      const message = formatReviewComment(
+        {
+          id: 3,
+          body: 'Outdated',
+          user: { login: 'bob' },
+          created_at: '',
+          path: 'src/index.ts',
+          line: null,
+          original_line: 7,
+          diff_hunk: '@@ -1 +1 @@\n-a\n+b',
+        },
+        markdown
+      );
+
+      expect(message).toContain('on `src/index.ts` line 7:');
+    });
+
+    it('should escape mentions in the diff excerpt', () => {
+      const message = formatReviewComment(
+        {
+          id: 4,
+          body: 'Really?',
+          user: { login: 'bob' },
+          created_at: '',
+          path: 'src/index.ts',
+          line: 1,
+          diff_hunk: '@@ -1 +1 @@\n-// ping @here\n+// ping @everyone and <@&42>',
+        },
+        markdown
+      );
+
+      expect(message).toContain(
+        '```diff\n-// ping @\u200bhere\n+// ping @\u200beveryone and <@&\u200b42>\n```'
+      );
+    });
+
+    it('should quote a review summary', () => {
+      expect(formatReviewSummary('alice', 'Some thoughts', undefined, markdown)).toBe(
+        ':speech_balloon: <@alice-discord-id> reviewed the PR:\n> Some thoughts'
+      );
+    });
+  });
+
+  describe('mirrorComment', () => {
+    it('should post a new comment and remember its thread message', async () => {
+      const context = createMockGitHubContext();
+
+      await mirrorComment(context, mockCore, 123, metadata, 'conversation:1', 'Hello');
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(botToken, 'thread-123', 'Hello', {});
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+        context,
+        123,
+        { ...metadata, mirrored_comments: { 'conversation:1': 'thread-msg-1' } },
+        mockCore
+      );
+    });
+
+    it('should edit the earlier copy of an edited comment instead of posting again', async () => {
+      const context = createMockGitHubContext();
+      const mirrored = { ...metadata, mirrored_comments: { 'conversation:1': 'thread-msg-1' } };
+
+      await mirrorComment(context, mockCore, 123, mirrored, 'conversation:1', 'Edited');
+
+      expect(discord.editMessage).toHaveBeenCalledWith(
+        botToken,
+        'thread-123',
+        'thread-msg-1',
+        'Edited',
+        {},
+        false
+      );
+      expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+      expect(github.saveMetadataToPR).not.toHaveBeenCalled();
+    });
+
+    it('should post again when the earlier copy was deleted', async () => {
+      const context = createMockGitHubContext();
+      const mirrored = { ...metadata, mirrored_comments: { 'conversation:1': 'deleted-msg' } };
+      vi.mocked(discord.editMessage).mockRejectedValue(new Error('Unknown Message'));
+      vi.mocked(discord.sendThreadMessage).mockResolvedValue({ id: 'thread-msg-2' });
+
+      await mirrorComment(context, mockCore, 123, mirrored, 'conversation:1', 'Edited');
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(botToken, 'thread-123', 'Edited', {});
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(
+        context,
+        123,
+        { ...metadata, mirrored_comments: { 'conversation:1': 'thread-msg-2' } },
+        mockCore
+      );
+    });
+
+    it('should forget the oldest comments beyond the limit', async () => {
+      const context = createMockGitHubContext();
+      const mirrored_comments = Object.fromEntries(
+        Array.from({ length: 200 }, (_, i) => [`conversation:${i}`, `msg-${i}`])
+      );
+
+      await mirrorComment(
+        context,
+        mockCore,
+        123,
+        { ...metadata, mirrored_comments },
+        'conversation:200',
+        'Newest'
+      );
+
+      const saved = vi.mocked(github.saveMetadataToPR).mock.calls[0][2].mirrored_comments!;
+      expect(Object.keys(saved)).toHaveLength(200);
+      expect(saved['conversation:0']).toBeUndefined();
+      expect(saved['conversation:200']).toBe('thread-msg-1');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadConfigFile,
+  loadRepositoryConfig,
+  parseConfigFile,
+  validateConfigValue,
+} from '../../../.github/scripts/discord-pr-notifications/utils/config-file';
+import { DEFAULT_CONFIG } from '../../../.github/scripts/discord-pr-notifications/utils/config';
+
+describe('config-file', () => {
+  describe('parseConfigFile', () => {
+    const source = 'config file .github/discord-pr.yml';
+
+    it('should read settings from YAML', () => {
+      const text = [
+        'channelId: "111"',
+        'threadArchiveMinutes: 10080',
+        'lockThreads: [merged]',
+        'announce: [opened, review, merged]',
+        'routes:',
+        '  - channel: "222"',
+        '    baseBranches: [release/*]',
+        'userMapping:',
+        '  octocat: "333"',
+        'templates:',
+        '  ready: ":eyes: {pr} is ready"',
+      ].join('\n');
+
+      expect(parseConfigFile(text, source)).toEqual({
+        channelId: '111',
+        threadArchiveMinutes: 10080,
+        lockThreads: ['merged'],
+        announce: ['opened', 'review', 'merged'],
+        routes: [{ channel: '222', baseBranches: ['release/*'] }],
+        userMapping: { octocat: '333' },
+        templates: { ready: ':eyes: {pr} is ready' },
+      });
+    });
+
+    it('should read JSON, which is also YAML', () => {
+      expect(parseConfigFile('{ "cardFormat": "text" }', source)).toEqual({ cardFormat: 'text' });
+    });
+
+    it('should return no settings for an empty file', () => {
+      expect(parseConfigFile('', source)).toEqual({});
+      expect(parseConfigFile('# Nothing yet\n', source)).toEqual({});
+    });
+
+    it('should keep the default reactions the file leaves out', () => {
+      expect(parseConfigFile('reactions:\n  merged: "🚀"', source).reactions).toEqual({
+        ...DEFAULT_CONFIG.reactions,
+        merged: '🚀',
+      });
+    });
+
+    it('should fail on invalid YAML', () => {
+      expect(() => parseConfigFile('templates: [', source)).toThrow(`Invalid ${source}:`);
+    });
+
+    it('should fail with the path to the invalid setting', () => {
+      expect(() => parseConfigFile('template: {}', source)).toThrow(
+        `Invalid ${source}: template: unknown setting`
+      );
+      expect(() => parseConfigFile('routes:\n  - channel: 222', source)).toThrow(
+        `Invalid ${source}: routes[0].channel: expected a string`
+      );
+      expect(() => parseConfigFile('routes:\n  - labels: [ui]', source)).toThrow(
+        `Invalid ${source}: routes[0].channel: is required`
+      );
+      expect(() => parseConfigFile('threadArchiveMinutes: 30', source)).toThrow(
+        `Invalid ${source}: threadArchiveMinutes: expected one of 60, 1440, 4320, 10080`
+      );
+      expect(() => parseConfigFile('announce: [opened, pushed]', source)).toThrow(
+        `Invalid ${source}: announce[1]: expected one of opened, reviewer_requested`
+      );
+    });
+
+    it('should fail on invalid templates', () => {
+      expect(() => parseConfigFile('templates:\n  ready: "{reviewer} ready"', source)).toThrow(
+        `Invalid ${source}: templates.ready: unknown placeholder {reviewer}`
+      );
+      expect(() => parseConfigFile('templates:\n  ready: " "', source)).toThrow(
+        `Invalid ${source}: templates.ready: expected a non-empty string`
+      );
+    });
+
+    it('should not accept secrets', () => {
+      expect(() => parseConfigFile('botToken: abc', source)).toThrow(
+        `Invalid ${source}: botToken: unknown setting`
+      );
+    });
+  });
+
+  describe('validateConfigValue', () => {
+    it('should check integers against their minimum', () => {
+      const schema = { type: 'integer' as const, min: 1 };
+
+      expect(validateConfigValue(2, schema, 'requiredApprovals')).toBeUndefined();
+      expect(validateConfigValue(0, schema, 'requiredApprovals')).toBe(
+        'requiredApprovals: expected an integer of at least 1'
+      );
+      expect(validateConfigValue(1.5, schema, 'requiredApprovals')).toBe(
+        'requiredApprovals: expected an integer'
+      );
+    });
+
+    it('should check every value of a map', () => {
+      const schema = { type: 'map' as const, values: { type: 'string' as const } };
+
+      expect(validateConfigValue({ bug: '🐛', docs: 1 }, schema, 'labelEmoji')).toBe(
+        'labelEmoji.docs: expected a string'
+      );
+      expect(validateConfigValue(['bug'], schema)).toBe('expected a mapping');
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'discord-config-'));
+      filePath = path.join(dir, 'discord-pr.yml');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return no settings when the file does not exist', () => {
+      expect(loadConfigFile(filePath)).toEqual({});
+    });
+
+    it('should read the file', () => {
+      fs.writeFileSync(filePath, 'templates:\n  ready: ":eyes: {pr} is ready"\n');
+
+      expect(loadConfigFile(filePath)).toEqual({ templates: { ready: ':eyes: {pr} is ready' } });
+    });
+
+    it('should name the file when its settings are invalid', () => {
+      fs.writeFileSync(filePath, 'cardFormat: fancy\n');
+
+      expect(() => loadConfigFile(filePath)).toThrow(
+        `Invalid config file ${filePath}: cardFormat: expected one of embed, text`
+      );
+    });
+
+    it('should fail when the file cannot be read', () => {
+      expect(() => loadConfigFile(dir)).toThrow(`Failed to read config file ${dir}`);
+    });
+  });
+
+  describe('loadRepositoryConfig', () => {
+    let root: string;
+
+    const writeFile = (file: string, text: string) => {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), text);
+    };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'discord-repo-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should prefer the YAML file', () => {
+      writeFile('.github/discord-pr.yml', 'cardFormat: text\n');
+      writeFile('.github/discord-pr.json', '{ "cardFormat": "embed" }');
+
+      expect(loadRepositoryConfig(undefined, root)).toEqual({ cardFormat: 'text' });
+    });
+
+    it('should fall back to the legacy JSON file', () => {
+      writeFile('.github/discord-pr.json', '{ "cardFormat": "text" }');
+
+      expect(loadRepositoryConfig(undefined, root)).toEqual({ cardFormat: 'text' });
+    });
+
+    it('should read the given file', () => {
+      writeFile('.github/discord-pr.json', '{ "cardFormat": "embed" }');
+      writeFile('discord.yml', 'cardFormat: text\n');
+
+      expect(loadRepositoryConfig(path.join(root, 'discord.yml'), root)).toEqual({
+        cardFormat: 'text',
+      });
+    });
+
+    it('should return no settings when neither file exists', () => {
+      expect(loadRepositoryConfig(undefined, root)).toEqual({});
+    });
+  });
+});
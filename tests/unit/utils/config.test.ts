@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONFIG,
+  getConfig,
+  getConfigFromEnv,
+  findLabelRule,
+  isAnnounced,
+  shouldLockThread,
+} from '../../../.github/scripts/discord-pr-notifications/utils/config';
+import { createMockGitHubContext } from '../../mocks/github';
+
+describe('config', () => {
+  describe('getConfig', () => {
+    it('should use defaults when the context has no config', () => {
+      const context = { ...createMockGitHubContext(), config: undefined };
+
+      expect(getConfig(context)).toEqual(DEFAULT_CONFIG);
+    });
+
+    it('should apply overrides from the context', () => {
+      const context = { ...createMockGitHubContext(), config: { cardFormat: 'text' as const } };
+
+      expect(getConfig(context).cardFormat).toBe('text');
+    });
+  });
+
+  describe('getConfigFromEnv', () => {
+    it('should return no overrides when nothing is set', () => {
+      expect(getConfigFromEnv({})).toEqual({});
+    });
+
+    it('should read the bot token', () => {
+      expect(getConfigFromEnv({ DISCORD_BOT_TOKEN: 'token' })).toEqual({ botToken: 'token' });
+    });
+
+    it('should read the user mapping', () => {
+      expect(getConfigFromEnv({ DISCORD_USER_MAPPING: '{"octocat":"123"}' })).toEqual({
+        userMapping: { octocat: '123' },
+      });
+    });
+
+    it('should reject invalid user mappings', () => {
+      expect(() => getConfigFromEnv({ DISCORD_USER_MAPPING: '{octocat' })).toThrow(
+        'Failed to parse DISCORD_USER_MAPPING'
+      );
+      expect(() => getConfigFromEnv({ DISCORD_USER_MAPPING: '{"octocat":123}' })).toThrow(
+        'Invalid DISCORD_USER_MAPPING: expected an object of GitHub login to Discord user ID'
+      );
+    });
+
+    it('should read the card format', () => {
+      expect(getConfigFromEnv({ DISCORD_CARD_FORMAT: 'text' })).toEqual({ cardFormat: 'text' });
+      expect(getConfigFromEnv({ DISCORD_CARD_FORMAT: 'embed' })).toEqual({ cardFormat: 'embed' });
+    });
+
+    it('should reject unknown card formats', () => {
+      expect(() => getConfigFromEnv({ DISCORD_CARD_FORMAT: 'fancy' })).toThrow(
+        'Invalid DISCORD_CARD_FORMAT "fancy"'
+      );
+    });
+
+    it('should read the required approvals count', () => {
+      expect(getConfigFromEnv({ DISCORD_REQUIRED_APPROVALS: '2' })).toEqual({
+        requiredApprovals: 2,
+      });
+    });
+
+    it('should reject invalid required approvals counts', () => {
+      expect(() => getConfigFromEnv({ DISCORD_REQUIRED_APPROVALS: '0' })).toThrow(
+        'Invalid DISCORD_REQUIRED_APPROVALS "0"'
+      );
+      expect(() => getConfigFromEnv({ DISCORD_REQUIRED_APPROVALS: 'two' })).toThrow(
+        'Invalid DISCORD_REQUIRED_APPROVALS "two"'
+      );
+    });
+
+    it('should read the bot login', () => {
+      expect(getConfigFromEnv({ GITHUB_BOT_LOGIN: 'my-app[bot]' })).toEqual({
+        botLogin: 'my-app[bot]',
+      });
+    });
+
+    it('should read the metadata secret', () => {
+      expect(getConfigFromEnv({ DISCORD_METADATA_SECRET: 's3cret' })).toEqual({
+        metadataSecret: 's3cret',
+      });
+    });
+
+    it('should read the metadata store settings', () => {
+      expect(
+        getConfigFromEnv({
+          DISCORD_METADATA_STORE: 'branch',
+          DISCORD_METADATA_BRANCH: 'bot-data',
+          DISCORD_METADATA_FILE: '/var/lib/bot/metadata.json',
+        })
+      ).toEqual({
+        metadataStore: 'branch',
+        metadataBranch: 'bot-data',
+        metadataFile: '/var/lib/bot/metadata.json',
+      });
+    });
+
+    it('should reject unknown metadata stores', () => {
+      expect(() => getConfigFromEnv({ DISCORD_METADATA_STORE: 's3' })).toThrow(
+        'Invalid DISCORD_METADATA_STORE "s3": expected one of comment, branch, file'
+      );
+    });
+
+    it('should read the card channel', () => {
+      expect(getConfigFromEnv({ DISCORD_CHANNEL_ID: 'channel-123' })).toEqual({
+        channelId: 'channel-123',
+      });
+    });
+
+    it('should read whether missing cards are created', () => {
+      expect(getConfigFromEnv({ DISCORD_CREATE_MISSING_CARDS: 'false' })).toEqual({
+        createMissingCards: false,
+      });
+      expect(() => getConfigFromEnv({ DISCORD_CREATE_MISSING_CARDS: 'no' })).toThrow(
+        'Invalid DISCORD_CREATE_MISSING_CARDS "no": expected true or false'
+      );
+    });
+
+    it('should read whether reviewer mentions are muted on drafts', () => {
+      expect(getConfigFromEnv({ DISCORD_MUTE_DRAFT_MENTIONS: 'true' })).toEqual({
+        muteDraftMentions: true,
+      });
+      expect(() => getConfigFromEnv({ DISCORD_MUTE_DRAFT_MENTIONS: 'yes' })).toThrow(
+        'Invalid DISCORD_MUTE_DRAFT_MENTIONS "yes": expected true or false'
+      );
+    });
+
+    it('should read which comment types are mirrored', () => {
+      expect(getConfigFromEnv({ DISCORD_MIRROR_COMMENTS: 'conversation, review' })).toEqual({
+        mirrorComments: ['conversation', 'review'],
+      });
+      expect(getConfigFromEnv({ DISCORD_MIRROR_COMMENTS: 'none' })).toEqual({ mirrorComments: [] });
+      expect(() => getConfigFromEnv({ DISCORD_MIRROR_COMMENTS: 'issues' })).toThrow(
+        'Invalid DISCORD_MIRROR_COMMENTS "issues": expected none or a list of conversation, review_comment, review'
+      );
+    });
+
+    it('should read label emoji and rules as JSON', () => {
+      expect(
+        getConfigFromEnv({
+          DISCORD_LABEL_EMOJI: '{"area:": ":compass:"}',
+          DISCORD_LABEL_RULES: '[{"label": "security", "pingOperations": true}]',
+          DISCORD_OPERATIONS_ROLE_ID: '999',
+        })
+      ).toEqual({
+        labelEmoji: { 'area:': ':compass:' },
+        labelRules: [{ label: 'security', pingOperations: true }],
+        operationsRoleId: '999',
+      });
+    });
+
+    it('should reject malformed label configuration', () => {
+      expect(() => getConfigFromEnv({ DISCORD_LABEL_EMOJI: '{"area:": 1}' })).toThrow(
+        'Invalid DISCORD_LABEL_EMOJI: expected an object of label prefix to emoji'
+      );
+      expect(() => getConfigFromEnv({ DISCORD_LABEL_EMOJI: 'not json' })).toThrow(
+        'Invalid DISCORD_LABEL_EMOJI'
+      );
+      expect(() => getConfigFromEnv({ DISCORD_LABEL_RULES: '[{"notice": "x"}]' })).toThrow(
+        'Invalid DISCORD_LABEL_RULES: expected a list of { label, notice?, pingOperations? } rules'
+      );
+      for (const rules of ['[null]', '["security"]', '[{"label": "ui", "pingOperations": "yes"}]']) {
+        expect(() => getConfigFromEnv({ DISCORD_LABEL_RULES: rules })).toThrow(
+          'Invalid DISCORD_LABEL_RULES'
+        );
+      }
+    });
+
+    it('should read the escalation settings', () => {
+      expect(
+        getConfigFromEnv({
+          DISCORD_ESCALATIONS: 'no_reviewers, protected_branch',
+          DISCORD_RELEASE_BRANCHES: 'release/*, stable,',
+          DISCORD_HOTFIX_LABEL: 'urgent',
+        })
+      ).toEqual({
+        escalations: ['no_reviewers', 'protected_branch'],
+        releaseBranches: ['release/*', 'stable'],
+        hotfixLabel: 'urgent',
+      });
+      expect(getConfigFromEnv({ DISCORD_ESCALATIONS: 'none' })).toEqual({ escalations: [] });
+      expect(() => getConfigFromEnv({ DISCORD_ESCALATIONS: 'merges' })).toThrow(
+        'Invalid DISCORD_ESCALATIONS "merges": expected none or a list of no_reviewers, release_branch, protected_branch, hotfix, default_branch_merge'
+      );
+    });
+
+    it('should read how unmapped mentions are shown', () => {
+      expect(getConfigFromEnv({ DISCORD_UNMAPPED_MENTIONS: 'link' })).toEqual({
+        unmappedMentions: 'link',
+      });
+      expect(() => getConfigFromEnv({ DISCORD_UNMAPPED_MENTIONS: 'bold' })).toThrow(
+        'Invalid DISCORD_UNMAPPED_MENTIONS "bold": expected one of text, link'
+      );
+    });
+
+    it('should read whether edits are announced', () => {
+      expect(getConfigFromEnv({ DISCORD_ANNOUNCE_EDITS: 'true' })).toEqual({
+        announceEdits: true,
+      });
+    });
+
+    it('should read whether unsigned metadata is trusted', () => {
+      expect(getConfigFromEnv({ DISCORD_ALLOW_UNSIGNED_METADATA: 'true' })).toEqual({
+        allowUnsignedMetadata: true,
+      });
+      expect(() => getConfigFromEnv({ DISCORD_ALLOW_UNSIGNED_METADATA: 'sometimes' })).toThrow(
+        'DISCORD_ALLOW_UNSIGNED_METADATA'
+      );
+    });
+  });
+
+  describe('findLabelRule', () => {
+    it('should match labels case-insensitively', () => {
+      const context = createMockGitHubContext();
+
+      expect(findLabelRule(context, 'Blocked')?.label).toBe('blocked');
+      expect(findLabelRule(context, 'docs')).toBeUndefined();
+    });
+  });
+
+  describe('isAnnounced', () => {
+    it('should announce every event by default', () => {
+      expect(isAnnounced(createMockGitHubContext(), 'synchronize')).toBe(true);
+    });
+
+    it('should only announce the configured events', () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, announce: ['opened', 'merged'] };
+
+      expect(isAnnounced(context, 'merged')).toBe(true);
+      expect(isAnnounced(context, 'synchronize')).toBe(false);
+    });
+  });
+
+  describe('shouldLockThread', () => {
+    it('should lock approved, closed and merged threads by default', () => {
+      const context = createMockGitHubContext();
+
+      expect(shouldLockThread(context, 'approved')).toBe(true);
+      expect(shouldLockThread(context, 'closed')).toBe(true);
+      expect(shouldLockThread(context, 'merged')).toBe(true);
+    });
+
+    it('should follow the configured locking policy', () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, lockThreads: ['merged'] };
+
+      expect(shouldLockThread(context, 'approved')).toBe(false);
+      expect(shouldLockThread(context, 'merged')).toBe(true);
+    });
+  });
+});
@@ -1,16 +1,30 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   sendMessage,
   createThread,
   sendThreadMessage,
+  getAllowedMentions,
   getMessage,
   editMessage,
   addReaction,
   removeReaction,
+  deleteMessage,
   lockThread,
   archiveThread,
+  unarchiveThread,
+  modifyChannel,
   removeThreadMember,
+  getChannelMessages,
+  getChannel,
+  getCurrentUser,
+  getThread,
+  getActiveThreads,
+  getArchivedThreads,
+  resetRateLimits,
+  setRetryPolicy,
 } from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import { DiscordApiError } from '../../../.github/scripts/discord-pr-notifications/utils/errors';
+import type { DiscordMessagePayload } from '../../../.github/scripts/discord-pr-notifications/types';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -23,6 +37,7 @@ describe('discord', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetRateLimits();
   });
 
   describe('sendMessage', () => {
@@ -69,9 +84,13 @@ describe('discord', () => {
     });
 
     it('should handle network errors', async () => {
-      (global.fetch as any).mockRejectedValueOnce(new Error('Network error'));
+      setRetryPolicy({ baseDelayMs: 0 });
+      (global.fetch as any).mockRejectedValue(new Error('Network error'));
 
-      await expect(sendMessage(botToken, channelId, 'Test message')).rejects.toThrow();
+      await expect(sendMessage(botToken, channelId, 'Test message')).rejects.toThrow(
+        'Network error'
+      );
+      (global.fetch as any).mockReset();
     });
 
     it('should set suppress embeds flag', async () => {
@@ -123,6 +142,20 @@ describe('discord', () => {
       expect(body.auto_archive_duration).toBe(1440);
     });
 
+    it('should use the given auto-archive duration', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'thread-123' }),
+      });
+
+      await createThread(botToken, channelId, messageId, 'Thread Name', 10080);
+
+      const call = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(call[1].body);
+      expect(body.auto_archive_duration).toBe(10080);
+    });
+
     it('should throw error on invalid message ID', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
@@ -142,7 +175,16 @@ describe('discord', () => {
         json: async () => ({ id: 'thread-msg-123' }),
       });
 
-      await sendThreadMessage(botToken, threadId, 'Thread message');
+      const result = await sendThreadMessage(botToken, threadId, '<@123> Thread message', {
+        octocat: '123',
+      });
+
+      expect(result).toEqual({ id: 'thread-msg-123' });
+      // Link previews stay on in threads
+      expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual({
+        content: '<@123> Thread message',
+        allowed_mentions: { parse: [], users: ['123'] },
+      });
 
       expect(global.fetch).toHaveBeenCalledWith(
         `https://discord.com/api/v10/channels/${threadId}/messages`,
@@ -152,6 +194,22 @@ describe('discord', () => {
       );
     });
 
+    it('should send payloads as given', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'thread-msg-123' }),
+      });
+      const payload: DiscordMessagePayload = {
+        content: '<@&999> Ping',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      };
+
+      await sendThreadMessage(botToken, threadId, payload);
+
+      expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual(payload);
+    });
+
     it('should throw error on invalid thread ID', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
@@ -219,6 +277,40 @@ describe('discord', () => {
       expect(body.flags).toBe(4);
     });
 
+    it('should leave link previews alone when asked, as for thread messages', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+      });
+
+      await editMessage(botToken, channelId, messageId, 'Updated content', {}, false);
+
+      const call = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(call[1].body);
+      expect(body.flags).toBeUndefined();
+    });
+
+    it('should send embed payloads without suppressing embeds', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+      });
+
+      const embeds = [{ title: 'PR #1: Test', color: 0x3498db }];
+      await editMessage(botToken, channelId, messageId, { content: '', embeds, flags: 0 });
+
+      const call = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(call[1].body);
+      expect(body).toEqual({
+        content: '',
+        embeds,
+        flags: 0,
+        allowed_mentions: { parse: [], users: [] },
+      });
+    });
+
     it('should handle special characters in content', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: true,
@@ -226,11 +318,41 @@ describe('discord', () => {
         json: async () => ({}),
       });
 
-      await editMessage(botToken, channelId, messageId, 'Content with <@123> and :emoji:');
+      await editMessage(botToken, channelId, messageId, 'Content with <@123> and :emoji:', {
+        octocat: '123',
+      });
 
       const call = (global.fetch as any).mock.calls[0];
       const body = JSON.parse(call[1].body);
       expect(body.content).toContain('<@123>');
+      expect(body.allowed_mentions).toEqual({ parse: [], users: ['123'] });
+    });
+  });
+
+  describe('getAllowedMentions', () => {
+    const userMapping = { octocat: '123', hubot: '456' };
+
+    it('should only allow the users mentioned in the content', () => {
+      expect(getAllowedMentions('<@123> and <@!456> review, <@123> merge', userMapping)).toEqual({
+        parse: [],
+        users: ['123', '456'],
+      });
+    });
+
+    it('should not allow users outside the user mapping', () => {
+      expect(getAllowedMentions('<@123> and <@789> review', userMapping)).toEqual({
+        parse: [],
+        users: ['123'],
+      });
+      expect(getAllowedMentions('<@123> review')).toEqual({ parse: [], users: [] });
+    });
+
+    it('should not allow roles, @everyone or escaped mentions', () => {
+      expect(getAllowedMentions('@everyone <@&999> <@\u200b123>', userMapping)).toEqual({
+        parse: [],
+        users: [],
+      });
+      expect(getAllowedMentions()).toEqual({ parse: [], users: [] });
     });
   });
 
@@ -273,6 +395,29 @@ describe('discord', () => {
     });
   });
 
+  describe('deleteMessage', () => {
+    it('should delete the message', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await deleteMessage(botToken, threadId, messageId);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://discord.com/api/v10/channels/${threadId}/messages/${messageId}`,
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should ignore messages that are already gone', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Unknown Message',
+      });
+
+      await expect(deleteMessage(botToken, threadId, messageId)).resolves.toBeUndefined();
+    });
+  });
+
   describe('removeReaction', () => {
     it('should remove reaction successfully', async () => {
       (global.fetch as any).mockResolvedValueOnce({
@@ -366,6 +511,20 @@ describe('discord', () => {
       expect(body.locked).toBe(true);
     });
 
+    it('should archive without locking when asked to', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: threadId, archived: true, locked: false }),
+      });
+
+      await archiveThread(botToken, threadId, false);
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.archived).toBe(true);
+      expect(body.locked).toBe(false);
+    });
+
     it('should throw error when thread not found', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
@@ -377,6 +536,23 @@ describe('discord', () => {
     });
   });
 
+  describe('unarchiveThread', () => {
+    it('should unarchive and unlock thread successfully', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: threadId, archived: false, locked: false }),
+      });
+
+      await unarchiveThread(botToken, threadId);
+
+      const call = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(call[1].body);
+      expect(body.archived).toBe(false);
+      expect(body.locked).toBe(false);
+    });
+  });
+
   describe('removeThreadMember', () => {
     it('should remove thread member successfully', async () => {
       (global.fetch as any).mockResolvedValueOnce({
@@ -413,4 +589,362 @@ describe('discord', () => {
       await expect(removeThreadMember(botToken, threadId, 'user-123')).resolves.not.toThrow();
     });
   });
+
+  describe('getChannelMessages', () => {
+    it('should list messages before a given message', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [{ id: 'msg-1', content: '' }],
+      });
+
+      const result = await getChannelMessages(botToken, channelId, { before: 'msg-2' });
+
+      expect(result).toEqual([{ id: 'msg-1', content: '' }]);
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://discord.com/api/v10/channels/${channelId}/messages?limit=100&before=msg-2`,
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should throw when the bot cannot read the channel', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => 'Missing Access',
+      });
+
+      await expect(getChannelMessages(botToken, channelId)).rejects.toThrow(
+        'Failed to list Discord messages: Missing Access'
+      );
+    });
+  });
+
+  describe('getCurrentUser', () => {
+    it("should return the bot's user", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'bot-user', bot: true }),
+      });
+
+      expect(await getCurrentUser(botToken)).toEqual({ id: 'bot-user', bot: true });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/users/@me',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('getChannel', () => {
+    it('should return the channel', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: channelId, guild_id: 'guild-1' }),
+      });
+
+      expect(await getChannel(botToken, channelId)).toEqual({ id: channelId, guild_id: 'guild-1' });
+    });
+  });
+
+  describe('modifyChannel', () => {
+    it('should patch the channel with the given changes', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: threadId, name: 'PR #1: Renamed' }),
+      });
+
+      await modifyChannel(botToken, threadId, { name: 'PR #1: Renamed' });
+
+      const call = (global.fetch as any).mock.calls[0];
+      expect(call[0]).toBe(`https://discord.com/api/v10/channels/${threadId}`);
+      expect(call[1].method).toBe('PATCH');
+      expect(JSON.parse(call[1].body)).toEqual({ name: 'PR #1: Renamed' });
+    });
+
+    it('should throw when the bot lacks permission', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => 'Missing Permissions',
+      });
+
+      await expect(modifyChannel(botToken, threadId, { name: 'x' })).rejects.toThrow(
+        'Failed to modify channel'
+      );
+    });
+  });
+
+  describe('getThread', () => {
+    it('should return the thread state', async () => {
+      const thread = {
+        id: threadId,
+        name: 'PR #1: Test',
+        thread_metadata: { archived: true, locked: true, archive_timestamp: '2024-01-01T00:00:00Z' },
+      };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => thread,
+      });
+
+      expect(await getThread(botToken, threadId)).toEqual(thread);
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://discord.com/api/v10/channels/${threadId}`,
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('getActiveThreads', () => {
+    it('should return the guild threads', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ threads: [{ id: threadId, name: 'PR #1: Test' }], members: [] }),
+      });
+
+      const result = await getActiveThreads(botToken, 'guild-1');
+
+      expect(result).toEqual([{ id: threadId, name: 'PR #1: Test' }]);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/guilds/guild-1/threads/active',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('getArchivedThreads', () => {
+    it('should page by archive timestamp', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ threads: [], has_more: false }),
+      });
+
+      const result = await getArchivedThreads(botToken, channelId, '2024-01-01T00:00:00Z');
+
+      expect(result).toEqual({ threads: [], has_more: false });
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://discord.com/api/v10/channels/${channelId}/threads/archived/public?limit=100&before=2024-01-01T00%3A00%3A00Z`,
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('error reporting', () => {
+    it('should throw DiscordApiError with status, code and route', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => JSON.stringify({ message: 'Missing Permissions', code: 50013 }),
+      });
+
+      const error = await sendThreadMessage(botToken, threadId, 'Message').catch((e) => e);
+
+      expect(error).toBeInstanceOf(DiscordApiError);
+      expect(error.status).toBe(403);
+      expect(error.code).toBe(50013);
+      expect(error.route).toBe(`POST /channels/${threadId}/messages`);
+      expect(error.retryable).toBe(false);
+      expect(error.isPermissionError).toBe(true);
+      expect(error.message).toContain('Failed to send thread message');
+    });
+
+    it('should collapse message IDs and emoji in the route', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Unknown Message',
+      });
+
+      const error = await addReaction(botToken, channelId, messageId, '✅').catch((e) => e);
+
+      expect(error.route).toBe(`PUT /channels/${channelId}/messages/:id/reactions/:emoji/@me`);
+      expect(error.isNotFound).toBe(true);
+    });
+  });
+
+  describe('rate limits and retries', () => {
+    function createResponse(
+      status: number,
+      headers: Record<string, string> = {},
+      body: any = {}
+    ) {
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        headers: new Headers(headers),
+        json: async () => body,
+        text: async () => JSON.stringify(body),
+      };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      (global.fetch as any).mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should wait for Retry-After and retry on 429', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(createResponse(429, { 'retry-after': '2' }, { retry_after: 2 }))
+        .mockResolvedValueOnce(createResponse(200, {}, { id: 'msg-123' }));
+
+      const promise = sendMessage(botToken, channelId, 'Test message');
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ id: 'msg-123' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to retry_after in the JSON body', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(createResponse(429, {}, { retry_after: 0.5, global: false }))
+        .mockResolvedValueOnce(createResponse(204));
+
+      const promise = lockThread(botToken, threadId, true);
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry 5xx responses with backoff', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(createResponse(502))
+        .mockResolvedValueOnce(createResponse(503))
+        .mockResolvedValueOnce(createResponse(200, {}, { id: 'thread-123' }));
+
+      const promise = createThread(botToken, channelId, messageId, 'Thread Name');
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ id: 'thread-123' });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after max retries with a retryable error', async () => {
+      (global.fetch as any).mockResolvedValue(createResponse(500, {}, { message: 'Oops' }));
+
+      const promise = getMessage(botToken, channelId, messageId).catch((e) => e);
+      await vi.runAllTimersAsync();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(DiscordApiError);
+      expect(error.status).toBe(500);
+      expect(error.retryable).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry client errors', async () => {
+      (global.fetch as any).mockResolvedValue(createResponse(403, {}, { code: 50001 }));
+
+      await expect(editMessage(botToken, channelId, messageId, 'x')).rejects.toThrow(
+        DiscordApiError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry network errors and surface them as DiscordApiError', async () => {
+      (global.fetch as any).mockRejectedValue(new Error('socket hang up'));
+
+      const promise = editMessage(botToken, channelId, messageId, 'Message').catch((e) => e);
+      await vi.runAllTimersAsync();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(DiscordApiError);
+      expect(error.status).toBe(0);
+      expect(error.retryable).toBe(true);
+      expect(error.message).toContain('socket hang up');
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not resend a POST after a network error', async () => {
+      (global.fetch as any).mockRejectedValue(new Error('socket hang up'));
+
+      const promise = sendThreadMessage(botToken, threadId, 'Message').catch((e) => e);
+      await vi.runAllTimersAsync();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(DiscordApiError);
+      expect(error.retryable).toBe(false);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still retry a POST that Discord answered with a 5xx', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(createResponse(503))
+        .mockResolvedValueOnce(createResponse(200, {}, { id: 'msg-123' }));
+
+      const promise = sendMessage(botToken, channelId, 'Message');
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ id: 'msg-123' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for an exhausted bucket to reset before the next request', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(
+          createResponse(
+            200,
+            {
+              'x-ratelimit-bucket': 'abc',
+              'x-ratelimit-remaining': '0',
+              'x-ratelimit-reset-after': '3',
+            },
+            { id: 'thread-msg-1' }
+          )
+        )
+        .mockResolvedValueOnce(createResponse(200, {}, { id: 'thread-msg-2' }));
+
+      await sendThreadMessage(botToken, threadId, 'First');
+      const second = sendThreadMessage(botToken, threadId, 'Second');
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await second;
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not delay other channels when one bucket is exhausted', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(
+          createResponse(200, {
+            'x-ratelimit-bucket': 'abc',
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset-after': '3',
+          })
+        )
+        .mockResolvedValueOnce(createResponse(200));
+
+      await sendThreadMessage(botToken, threadId, 'First');
+      await sendThreadMessage(botToken, 'other-thread', 'Second');
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect a custom retry policy', async () => {
+      setRetryPolicy({ maxRetries: 0 });
+      (global.fetch as any).mockResolvedValue(createResponse(429, { 'retry-after': '1' }));
+
+      await expect(sendThreadMessage(botToken, threadId, 'Message')).rejects.toThrow(
+        DiscordApiError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DiscordApiError,
+  DISCORD_ERROR_CODES,
+  isRetryableStatus,
+} from '../../../.github/scripts/discord-pr-notifications/utils/errors';
+
+describe('errors', () => {
+  describe('DiscordApiError', () => {
+    it('should expose request details', () => {
+      const error = new DiscordApiError('Failed to lock thread: Unknown Channel', {
+        status: 404,
+        code: DISCORD_ERROR_CODES.UNKNOWN_CHANNEL,
+        route: 'PATCH /channels/thread-123',
+        retryable: false,
+      });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('DiscordApiError');
+      expect(error.message).toBe('Failed to lock thread: Unknown Channel');
+      expect(error.status).toBe(404);
+      expect(error.code).toBe(10003);
+      expect(error.route).toBe('PATCH /channels/thread-123');
+      expect(error.retryable).toBe(false);
+      expect(error.isNotFound).toBe(true);
+      expect(error.isPermissionError).toBe(false);
+    });
+
+    it('should detect permission errors by status or code', () => {
+      const forbidden = new DiscordApiError('Forbidden', {
+        status: 403,
+        route: 'POST /channels/1/messages',
+        retryable: false,
+      });
+      const missingAccess = new DiscordApiError('Missing Access', {
+        status: 400,
+        code: DISCORD_ERROR_CODES.MISSING_ACCESS,
+        route: 'POST /channels/1/messages',
+        retryable: false,
+      });
+
+      expect(forbidden.isPermissionError).toBe(true);
+      expect(missingAccess.isPermissionError).toBe(true);
+    });
+  });
+
+  describe('isRetryableStatus', () => {
+    it('should retry rate limits and server errors', () => {
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(500)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(403)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  escalate,
+  getOpenedEscalations,
+  isEscalationEnabled,
+  isHotfixLabel,
+  matchesBranchPattern,
+  pingOperations,
+} from '../../../.github/scripts/discord-pr-notifications/utils/escalation';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('escalation', () => {
+  const botToken = 'test-bot-token';
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: 'https://github.com/test/repo/pull/123',
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [{ login: 'reviewer1', id: 2 }],
+    labels: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isEscalationEnabled', () => {
+    it('should leave protected branch escalations off by default', () => {
+      const context = createMockGitHubContext();
+      expect(isEscalationEnabled(context, 'no_reviewers')).toBe(true);
+      expect(isEscalationEnabled(context, 'default_branch_merge')).toBe(true);
+      expect(isEscalationEnabled(context, 'protected_branch')).toBe(false);
+    });
+  });
+
+  describe('matchesBranchPattern', () => {
+    it('should treat * as a wildcard and everything else literally', () => {
+      expect(matchesBranchPattern('release/1.2', ['release/*'])).toBe(true);
+      expect(matchesBranchPattern('release-1.2', ['release/*', 'release-*'])).toBe(true);
+      expect(matchesBranchPattern('pre-release/1.2', ['release/*'])).toBe(false);
+      expect(matchesBranchPattern('v1x2', ['v1.2'])).toBe(false);
+    });
+  });
+
+  describe('isHotfixLabel', () => {
+    it('should match the configured label case-insensitively', () => {
+      const context = createMockGitHubContext();
+      expect(isHotfixLabel(context, 'HotFix')).toBe(true);
+
+      context.config = { ...context.config, hotfixLabel: 'urgent' };
+      expect(isHotfixLabel(context, 'hotfix')).toBe(false);
+    });
+  });
+
+  describe('getOpenedEscalations', () => {
+    it('should return nothing for a reviewed PR into an ordinary branch', async () => {
+      const context = createMockGitHubContext();
+      expect(await getOpenedEscalations(context, pr)).toEqual([]);
+      expect(github.isBranchProtected).not.toHaveBeenCalled();
+    });
+
+    it('should list every rule that applies', async () => {
+      const context = createMockGitHubContext();
+      const reasons = await getOpenedEscalations(context, {
+        ...pr,
+        base: { ref: 'release/2.0' },
+        requested_reviewers: [],
+        labels: [{ name: 'hotfix' }],
+      });
+
+      expect(reasons).toEqual([
+        'No reviewers are requested',
+        'Targets the release branch `release/2.0`',
+        'Labeled as a hotfix',
+      ]);
+    });
+
+    it('should not expect drafts to have reviewers', async () => {
+      const context = createMockGitHubContext();
+      expect(
+        await getOpenedEscalations(context, { ...pr, draft: true, requested_reviewers: [] })
+      ).toEqual([]);
+    });
+
+    it('should check branch protection when that rule is enabled', async () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, escalations: ['protected_branch'] };
+      vi.mocked(github.isBranchProtected).mockResolvedValue(true);
+
+      expect(await getOpenedEscalations(context, pr)).toEqual([
+        'Targets the protected branch `main`',
+      ]);
+      expect(github.isBranchProtected).toHaveBeenCalledWith(context, 'main');
+    });
+
+    it('should skip disabled rules', async () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, escalations: [] };
+
+      expect(
+        await getOpenedEscalations(context, {
+          ...pr,
+          requested_reviewers: [],
+          labels: [{ name: 'hotfix' }],
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('pingOperations', () => {
+    it('should only allow the operations role to be mentioned', () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, operationsRoleId: '999' };
+
+      expect(pingOperations(context, 'Help <@123>')).toEqual({
+        content: '<@&999> Help <@123>',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      });
+    });
+
+    it('should return null without an operations role', () => {
+      expect(pingOperations(createMockGitHubContext(), 'Help')).toBeNull();
+    });
+  });
+
+  describe('escalate', () => {
+    it('should post the ping in the thread', async () => {
+      const context = createMockGitHubContext();
+      context.config = { ...context.config, operationsRoleId: '999' };
+
+      await escalate(context, mockCore, botToken, 'thread-123', 'Help');
+
+      expect(discord.sendThreadMessage).toHaveBeenCalledWith(botToken, 'thread-123', {
+        content: '<@&999> Help',
+        allowed_mentions: { parse: [], roles: ['999'] },
+      });
+    });
+
+    it('should skip when no operations role is configured', async () => {
+      await escalate(createMockGitHubContext(), mockCore, botToken, 'thread-123', 'Help');
+
+      expect(discord.sendThreadMessage).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping operations escalation: DISCORD_OPERATIONS_ROLE_ID is not set'
+      );
+    });
+  });
+});
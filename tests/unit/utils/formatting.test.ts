@@ -1,14 +1,99 @@
 import { describe, it, expect } from 'vitest';
 import {
+  formatQuote,
+  splitMessage,
+  truncateText,
   mapToDiscord,
+  mentionReviewer,
+  renderLabelBadges,
   buildPRMessage,
-  updateReviewersLine,
-  replaceStatusLine,
-  updateStatusLine,
+  getStatusText,
+  renderPRCard,
+  renderPRCardEmbed,
+  renderPRCardMessage,
+  STATUS_COLORS,
+  renderReviewerChecklist,
+  getApprovalSummary,
 } from '../../../.github/scripts/discord-pr-notifications/utils/formatting';
+import { createCardState } from '../../../.github/scripts/discord-pr-notifications/utils/card-state';
 import type { UserMapping } from '../../../.github/scripts/discord-pr-notifications/types';
 
 describe('formatting', () => {
+  describe('truncateText', () => {
+    it('should leave short text alone', () => {
+      expect(truncateText('short', 10)).toBe('short');
+    });
+
+    it('should cut at a word break and add the suffix', () => {
+      const text = truncateText('the quick brown fox jumps over the lazy dog', 30, ' [more]');
+      expect(text).toBe('the quick brown fox [more]');
+      expect(text.length).toBeLessThanOrEqual(30);
+    });
+
+    it('should close a code block it cuts through', () => {
+      const text = truncateText('Intro\n```ts\nconst a = 1;\nconst b = 2;\n```', 34);
+      expect(text).toBe('Intro\n```ts\nconst a = 1;\n```…');
+      expect(text.length).toBeLessThanOrEqual(34);
+    });
+  });
+
+  describe('splitMessage', () => {
+    it('should keep short text in one message', () => {
+      expect(splitMessage('one\ntwo')).toEqual(['one\ntwo']);
+    });
+
+    it('should split on line breaks within the limit', () => {
+      expect(splitMessage('aaaa\nbbbb\ncccc', 10)).toEqual(['aaaa\nbbbb', 'cccc']);
+    });
+
+    it('should close and reopen code blocks across messages', () => {
+      const parts = splitMessage('Intro\n```ts\nline one\nline two\n```\nOutro', 30);
+
+      expect(parts).toEqual(['Intro\n```ts\nline one\n```', '```ts\nline two\n```\nOutro']);
+      parts.forEach((part) => expect(part.length).toBeLessThanOrEqual(30));
+    });
+
+    it('should break up lines longer than a message', () => {
+      const parts = splitMessage('x'.repeat(4500));
+
+      expect(parts.length).toBe(3);
+      expect(parts.join('')).toBe('x'.repeat(4500));
+      parts.forEach((part) => expect(part.length).toBeLessThanOrEqual(2000));
+    });
+  });
+
+  describe('formatQuote', () => {
+    it('should quote every line and escape mentions', () => {
+      expect(formatQuote('Hi @everyone\nbye', 100)).toBe('> Hi @\u200beveryone\n> bye');
+    });
+
+    it('should fit the quote in the limit and link to the rest', () => {
+      const quote = formatQuote('line\n'.repeat(100), 60, 'https://example.com/c/1');
+
+      expect(quote.length).toBeLessThanOrEqual(60);
+      expect(quote).toMatch(/^> line\n/);
+      expect(quote).toMatch(/\n> … \[Read more\]\(<https:\/\/example.com\/c\/1>\)$/);
+    });
+  });
+
+  describe('mentionReviewer', () => {
+    it('should mention the reviewer unless muted', () => {
+      const userMapping: UserMapping = { 'test-user': '123456789' };
+      expect(mentionReviewer('test-user', userMapping, false)).toBe('<@123456789>');
+      expect(mentionReviewer('test-user', userMapping, true)).toBe('@test-user');
+    });
+  });
+
+  describe('renderLabelBadges', () => {
+    it('should prefix labels with the emoji of their longest matching prefix', () => {
+      const labelEmoji = { 'type:': ':label:', 'type: bug': ':bug:', 'priority:': ':rotating_light:' };
+
+      expect(renderLabelBadges(['Type: BUG', 'type: feature', 'docs'], labelEmoji)).toBe(
+        ':bug: `Type: BUG` :label: `type: feature` `docs`'
+      );
+    });
+  });
+
   describe('mapToDiscord', () => {
     it('should return Discord mention when user exists in mapping', () => {
       const userMapping: UserMapping = {
@@ -157,167 +242,405 @@ describe('formatting', () => {
     });
   });
 
-  describe('updateReviewersLine', () => {
-    const baseContent = `## [PR #123: Test PR](url)
-# \`feature\` -> \`main\`
-
-**Author:** @author
+  describe('getStatusText', () => {
+    const card = createCardState({
+      number: 123,
+      title: 'Test PR',
+      html_url: 'https://github.com/test/repo/pull/123',
+      body: '',
+      draft: false,
+      state: 'open',
+      user: { login: 'test-author' },
+      base: { ref: 'main' },
+      head: { ref: 'feature' },
+    });
 
-**Reviewers:** @reviewer1 @reviewer2
+    it('should render lifecycle statuses', () => {
+      expect(getStatusText({ ...card, status: 'draft' }, {})).toBe(':pencil: Draft - In Progress');
+      expect(getStatusText({ ...card, status: 'ready_for_review' }, {})).toBe(
+        ':eyes: Ready for Review'
+      );
+    });
 
-**Status**: :eyes: Ready for Review`;
+    it('should include the actor when known', () => {
+      const userMapping: UserMapping = { reviewer1: 'reviewer1-discord-id' };
+
+      expect(
+        getStatusText({ ...card, status: 'approved', status_actor: 'reviewer1' }, userMapping)
+      ).toBe(':white_check_mark: Approved by <@reviewer1-discord-id>');
+      expect(
+        getStatusText({ ...card, status: 'changes_requested', status_actor: 'reviewer2' }, {})
+      ).toBe(':tools: Changes Requested by @reviewer2');
+      expect(getStatusText({ ...card, status: 'merged', status_actor: 'merger' }, {})).toBe(
+        ':tada: Merged by @merger'
+      );
+      expect(getStatusText({ ...card, status: 'closed', status_actor: 'closer' }, {})).toBe(
+        ':closed_book: Closed by @closer'
+      );
+    });
 
-    it('should update reviewers when adding to empty list', () => {
-      const content = `## [PR #123: Test PR](url)
-**Author:** @author
+    it('should omit the actor when unknown', () => {
+      expect(getStatusText({ ...card, status: 'merged' }, {})).toBe(':tada: Merged');
+    });
+  });
 
-WARNING::No reviewers assigned:
+  describe('renderPRCard', () => {
+    const card = createCardState({
+      number: 123,
+      title: 'Test PR',
+      html_url: 'https://github.com/test/repo/pull/123',
+      body: 'Test description',
+      draft: true,
+      state: 'open',
+      user: { login: 'test-author' },
+      base: { ref: 'main' },
+      head: { ref: 'feature-branch' },
+      requested_reviewers: [{ login: 'reviewer1' }],
+    });
 
-**Status**: :eyes: Ready for Review`;
+    it('should render the same message as buildPRMessage', () => {
+      expect(renderPRCard(card, {})).toBe(
+        buildPRMessage({
+          prNumber: 123,
+          prTitle: 'Test PR',
+          prUrl: 'https://github.com/test/repo/pull/123',
+          headBranch: 'feature-branch',
+          baseBranch: 'main',
+          author: 'test-author',
+          prDescription: 'Test description',
+          reviewerLogins: ['reviewer1'],
+          isDraft: true,
+          userMapping: {},
+        })
+      );
+    });
 
-      const updated = updateReviewersLine(content, ['reviewer1'], {});
+    it('should render status from state', () => {
+      const message = renderPRCard({ ...card, status: 'approved', status_actor: 'reviewer1' }, {});
 
-      expect(updated).toContain('**Reviewers:** @reviewer1');
-      expect(updated).not.toContain('WARNING::No reviewers assigned');
+      expect(message).toContain('**Status**: :white_check_mark: Approved by @reviewer1');
+      expect(message).not.toContain('Draft');
     });
 
-    it('should show warning when removing all reviewers', () => {
-      const updated = updateReviewersLine(baseContent, [], {});
+    it('should not be confused by descriptions that look like card lines', () => {
+      const description = 'Fixes the **Reviewers:** line\n**Status**: not a real status';
+      const message = renderPRCard(
+        { ...card, description, reviewers: [], verdicts: {}, status: 'ready_for_review' },
+        {}
+      );
 
-      expect(updated).toContain('WARNING::No reviewers assigned');
-      expect(updated).toContain('PR has to be reviewed');
+      expect(message).toContain(description);
+      expect(message).toContain('WARNING::No reviewers assigned');
+      expect(message).toContain('**Status**: :eyes: Ready for Review');
     });
 
-    it('should update existing reviewers', () => {
-      const updated = updateReviewersLine(baseContent, ['reviewer1', 'reviewer3'], {});
-
-      expect(updated).toContain('**Reviewers:** @reviewer1 @reviewer3');
-      expect(updated).not.toContain('@reviewer2');
+    it('should be deterministic', () => {
+      expect(renderPRCard(card, {})).toBe(renderPRCard({ ...card }, {}));
     });
 
-    it('should find Author line when reviewers line missing', () => {
-      const content = `## [PR #123: Test PR](url)
-**Author:** @author
+    it('should show label badges when the PR has labels', () => {
+      expect(renderPRCard(card, {})).not.toContain('**Labels:**');
+      expect(renderPRCard({ ...card, labels: ['type: BUG'] }, {}, { 'type:': ':label:' })).toContain(
+        '**Labels:** :label: `type: BUG`'
+      );
+    });
 
-**Status**: :eyes: Ready for Review`;
+    it('should show a CI line only once the PR has checks', () => {
+      expect(renderPRCard(card, {})).not.toContain('**CI**');
+      expect(renderPRCard({ ...card, ci: 'failure' }, {})).toContain('**CI**: :x: Checks failed');
+    });
+  });
 
-      const updated = updateReviewersLine(content, ['reviewer1'], {});
+  describe('escaping user content', () => {
+    it('should not let the title or description ping anyone', () => {
+      const card = {
+        ...createCardState({
+          number: 1,
+          title: 'Ping @here',
+          html_url: 'https://github.com/test/repo/pull/1',
+          body: '@everyone look, <@&999>',
+          draft: false,
+          state: 'open',
+          user: { login: 'author', id: 1 },
+          base: { ref: 'main' },
+          head: { ref: 'feature' },
+        }),
+      };
 
-      expect(updated).toContain('**Author:** @author');
-      expect(updated).toContain('**Reviewers:** @reviewer1');
+      const text = renderPRCard(card, {});
+      expect(text).toContain('Ping @\u200bhere');
+      expect(text).toContain('@\u200beveryone look, <@&\u200b999>');
+      expect(renderPRCardEmbed(card, {}, 'test/repo').description).toBe(
+        '@\u200beveryone look, <@&\u200b999>'
+      );
     });
+  });
 
-    it('should handle ANSI warning format', () => {
-      const content = `## [PR #123: Test PR](url)
-**Author:** @author
+  describe('description markdown', () => {
+    it('should convert the description from GitHub markdown', () => {
+      const card = createCardState({
+        number: 1,
+        title: 'Docs',
+        html_url: 'https://github.com/test/repo/pull/1',
+        body: '<!-- Template hint -->\n- [x] Closes #12 for @alice',
+        draft: false,
+        state: 'open',
+        user: { login: 'author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+      });
+      const expected =
+        '- ☑ Closes [#12](<https://github.com/test/repo/issues/12>) for <@alice-discord-id>';
 
-\u001b[2;33mWARNING::No reviewers assigned:\u001b[0m
-PR has to be reviewed
+      expect(renderPRCard(card, { alice: 'alice-discord-id' })).toContain(`\n${expected}\n`);
+      expect(renderPRCardEmbed(card, { alice: 'alice-discord-id' }, 'test/repo').description).toBe(
+        expected
+      );
+    });
+  });
 
-**Status**: :eyes: Ready for Review`;
+  describe('long descriptions', () => {
+    const card = createCardState({
+      number: 1,
+      title: 'Big PR',
+      html_url: 'https://github.com/test/repo/pull/1',
+      body: 'word '.repeat(1000),
+      draft: false,
+      state: 'open',
+      user: { login: 'author', id: 1 },
+      base: { ref: 'main' },
+      head: { ref: 'feature' },
+    });
 
-      const updated = updateReviewersLine(content, ['reviewer1'], {});
+    it('should shorten the description on the card and link to the PR', () => {
+      const text = renderPRCard(card, {});
+      expect(text.length).toBeLessThan(2000);
+      expect(text).toContain('word\n… [Read more](https://github.com/test/repo/pull/1)');
 
-      expect(updated).toContain('**Reviewers:** @reviewer1');
-      expect(updated).not.toContain('WARNING::No reviewers assigned');
+      const description = renderPRCardEmbed(card, {}, 'test/repo').description!;
+      expect(description.length).toBeLessThanOrEqual(1000);
+      expect(description).toMatch(/\[Read more\]\(https:\/\/github.com\/test\/repo\/pull\/1\)$/);
     });
 
-    it('should apply user mapping', () => {
-      const userMapping: UserMapping = {
-        reviewer1: 'discord-id-1',
-        reviewer2: 'discord-id-2',
-      };
+    it('should keep the header and status when the reviewer list is long', () => {
+      const reviewers = Array.from({ length: 120 }, (_, i) => `reviewer-with-a-long-login-${i}`);
+      const crowded = { ...card, reviewers, ci: 'failure' as const };
 
-      const updated = updateReviewersLine(baseContent, ['reviewer1', 'reviewer2'], userMapping);
+      const text = renderPRCard(crowded, {});
+      expect(text.length).toBeLessThanOrEqual(2000);
+      expect(text).toMatch(/^## \[PR #1: Big PR\]/);
+      expect(text).toContain('**Status**: ');
+      expect(text).toContain('**CI**: ');
 
-      expect(updated).toContain('<@discord-id-1>');
-      expect(updated).toContain('<@discord-id-2>');
+      const embed = renderPRCardEmbed(crowded, {}, 'test/repo');
+      for (const field of embed.fields!) {
+        expect(field.value.length).toBeLessThanOrEqual(1024);
+      }
     });
-  });
 
-  describe('replaceStatusLine', () => {
-    it('should replace existing status line', () => {
-      const content = `## PR
-**Status**: :eyes: Ready for Review`;
+    it('should link to the PR when card state holds only part of the description', () => {
+      const partial = { ...card, description: 'Start of it', description_truncated: true };
 
-      const updated = replaceStatusLine(content, ':white_check_mark: Approved');
-
-      expect(updated).toContain('**Status**: :white_check_mark: Approved');
-      expect(updated).not.toContain('Ready for Review');
+      expect(renderPRCard(partial, {})).toContain(
+        'Start of it\n… [Read more](https://github.com/test/repo/pull/1)'
+      );
     });
+  });
 
-    it('should handle multiple status lines (edge case)', () => {
-      const content = `**Status**: Old Status
-**Status**: Another Status`;
+  describe('renderPRCardEmbed', () => {
+    const card = createCardState({
+      number: 123,
+      title: 'Test PR',
+      html_url: 'https://github.com/test/repo/pull/123',
+      body: 'Test description',
+      draft: false,
+      state: 'open',
+      user: { login: 'test-author', avatar_url: 'https://avatars.example/test-author.png' },
+      base: { ref: 'main' },
+      head: { ref: 'feature-branch' },
+      requested_reviewers: [{ login: 'reviewer1' }],
+    });
+    const userMapping: UserMapping = { reviewer1: '111' };
+
+    it('should render card fields', () => {
+      const embed = renderPRCardEmbed(card, userMapping, 'test/repo');
+
+      expect(embed.title).toBe('PR #123: Test PR');
+      expect(embed.url).toBe('https://github.com/test/repo/pull/123');
+      expect(embed.description).toBe('Test description');
+      expect(embed.author).toEqual({
+        name: 'test-author',
+        url: 'https://github.com/test-author',
+        icon_url: 'https://avatars.example/test-author.png',
+      });
+      expect(embed.footer).toEqual({ text: 'test/repo' });
+      expect(embed.fields).toEqual([
+        { name: 'Branches', value: '`feature-branch` -> `main`', inline: true },
+        { name: 'Author', value: '@test-author', inline: true },
+        {
+          name: 'Reviewers (0/1 approvals)',
+          value: ':hourglass_flowing_sand: <@111>',
+          inline: false,
+        },
+        { name: 'Status', value: ':eyes: Ready for Review', inline: false },
+      ]);
+    });
 
-      const updated = replaceStatusLine(content, 'New Status');
+    it('should add a CI field once the PR has checks', () => {
+      const embed = renderPRCardEmbed({ ...card, ci: 'success' }, userMapping, 'test/repo');
 
-      expect(updated).toContain('**Status**: New Status');
-      // Regex replace should replace all occurrences
-      const matches = updated.match(/\*\*Status\*\*:/g);
-      expect(matches?.length).toBe(2);
+      expect(embed.fields).toContainEqual({
+        name: 'CI',
+        value: ':white_check_mark: Checks passed',
+        inline: false,
+      });
     });
 
-    it('should handle status line with special characters', () => {
-      const content = `**Status**: :white_check_mark: Approved by @user`;
+    it('should color the embed by status', () => {
+      expect(renderPRCardEmbed(card, {}, 'test/repo').color).toBe(STATUS_COLORS.ready_for_review);
+      expect(renderPRCardEmbed({ ...card, status: 'merged' }, {}, 'test/repo').color).toBe(
+        STATUS_COLORS.merged
+      );
+      expect(renderPRCardEmbed({ ...card, status: 'closed' }, {}, 'test/repo').color).toBe(
+        STATUS_COLORS.closed
+      );
+    });
 
-      const updated = replaceStatusLine(content, ':tools: Changes Requested');
+    it('should list labels and the last update time when present', () => {
+      const embed = renderPRCardEmbed(
+        { ...card, labels: ['bug', 'ui'], updated_at: '2024-01-01T00:00:00.000Z' },
+        {},
+        'test/repo'
+      );
 
-      expect(updated).toContain('**Status**: :tools: Changes Requested');
+      expect(embed.fields).toContainEqual({ name: 'Labels', value: '`bug` `ui`', inline: false });
+      expect(embed.timestamp).toBe('2024-01-01T00:00:00.000Z');
     });
-  });
 
-  describe('updateStatusLine', () => {
-    it('should replace existing status line', () => {
-      const content = `## PR
-**Reviewers:** @reviewer1
-**Status**: :eyes: Ready for Review`;
+    it('should omit empty descriptions and warn about missing reviewers', () => {
+      const embed = renderPRCardEmbed(
+        { ...card, description: '  ', reviewers: [], verdicts: {} },
+        {},
+        'test/repo'
+      );
+
+      expect(embed.description).toBeUndefined();
+      expect(embed.fields?.find((field) => field.name === 'Reviewers')?.value).toContain(
+        'No reviewers assigned'
+      );
+    });
 
-      const updated = updateStatusLine(content, ':white_check_mark: Approved');
+    it('should truncate long titles to the embed limit', () => {
+      const embed = renderPRCardEmbed({ ...card, title: 'a'.repeat(300) }, {}, 'test/repo');
 
-      expect(updated).toContain('**Status**: :white_check_mark: Approved');
-      expect(updated).not.toContain('Ready for Review');
+      expect(embed.title).toHaveLength(256);
     });
 
-    it('should add status line after Reviewers when missing', () => {
-      const content = `## PR
-**Reviewers:** @reviewer1
-
-Some other content`;
+    it('should stay within the total embed limit when every part is at its own limit', () => {
+      const login = 'a-very-long-github-login-'.repeat(50);
+      const embed = renderPRCardEmbed(
+        {
+          ...card,
+          title: 'a'.repeat(300),
+          description: 'word '.repeat(1000),
+          author: login,
+          head_branch: 'b'.repeat(1100),
+          status: 'closed',
+          status_actor: login,
+          ci: 'failure',
+          reviewers: Array.from({ length: 120 }, (_, i) => `reviewer-with-a-long-login-${i}`),
+          labels: Array.from({ length: 120 }, (_, i) => `label-with-a-long-name-${i}`),
+        },
+        {},
+        'test/repo'
+      );
+
+      const fields = embed.fields || [];
+      const length =
+        (embed.title?.length ?? 0) +
+        (embed.description?.length ?? 0) +
+        (embed.footer?.text.length ?? 0) +
+        (embed.author?.name.length ?? 0) +
+        fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+      expect(length).toBeLessThanOrEqual(6000);
+      expect(fields.every((field) => field.value.length <= 1024)).toBe(true);
+      // The description and the label list give way first
+      expect(embed.description).toBe('…');
+      expect(fields.find((field) => field.name === 'Labels')?.value).toMatch(/…$/);
+      expect(fields.find((field) => field.name === 'Status')?.value).toHaveLength(1024);
+    });
+  });
 
-      const updated = updateStatusLine(content, ':eyes: Ready for Review');
+  describe('renderPRCardMessage', () => {
+    const card = createCardState({
+      number: 123,
+      title: 'Test PR',
+      html_url: 'https://github.com/test/repo/pull/123',
+      body: '',
+      draft: true,
+      state: 'open',
+      user: { login: 'test-author' },
+      base: { ref: 'main' },
+      head: { ref: 'feature-branch' },
+    });
 
-      const lines = updated.split('\n');
-      const reviewersIndex = lines.findIndex((line) => line.includes('Reviewers:'));
-      const statusIndex = lines.findIndex((line) => line.includes('**Status**:'));
+    it('should render an embed with no content', () => {
+      const payload = renderPRCardMessage(card, {}, { format: 'embed', repository: 'test/repo' });
 
-      expect(statusIndex).toBeGreaterThan(reviewersIndex);
-      expect(updated).toContain('**Status**: :eyes: Ready for Review');
+      expect(payload.content).toBe('');
+      expect(payload.embeds).toEqual([renderPRCardEmbed(card, {}, 'test/repo')]);
+      expect(payload.flags).toBe(0);
     });
 
-    it('should append to end when no Reviewers line', () => {
-      const content = `## PR
-**Author:** @author`;
-
-      const updated = updateStatusLine(content, ':eyes: Ready for Review');
+    it('should render plain text with embeds suppressed', () => {
+      const payload = renderPRCardMessage(card, {}, { format: 'text', repository: 'test/repo' });
 
-      expect(updated).toContain('**Status**: :eyes: Ready for Review');
-      expect(updated.endsWith('**Status**: :eyes: Ready for Review')).toBe(true);
+      expect(payload).toEqual({ content: renderPRCard(card, {}), embeds: [], flags: 4 });
     });
 
-    it('should handle ANSI warning format for Reviewers', () => {
-      const content = `## PR
-WARNING::No reviewers assigned:
+    it('should link unmapped users in the description when configured', () => {
+      const mentioned = { ...card, description: 'Ask @octocat' };
+      const options = { repository: 'test/repo', unmappedMentions: 'link' as const };
 
-Some content`;
-
-      const updated = updateStatusLine(content, ':eyes: Ready for Review');
+      expect(
+        renderPRCardMessage(mentioned, {}, { ...options, format: 'embed' }).embeds?.[0].description
+      ).toBe('Ask [@octocat](<https://github.com/octocat>)');
+      expect(renderPRCardMessage(mentioned, {}, { ...options, format: 'text' }).content).toContain(
+        '\nAsk [@octocat](<https://github.com/octocat>)\n'
+      );
+    });
+  });
 
-      const lines = updated.split('\n');
-      const warningIndex = lines.findIndex((line) => line.includes('WARNING'));
-      const statusIndex = lines.findIndex((line) => line.includes('**Status**:'));
+  describe('renderReviewerChecklist', () => {
+    it('should show each reviewer with their verdict and the approval progress', () => {
+      const card = {
+        ...createCardState({
+          number: 123,
+          title: 'Test PR',
+          html_url: 'https://github.com/test/repo/pull/123',
+          body: '',
+          draft: false,
+          state: 'open',
+          user: { login: 'test-author' },
+          base: { ref: 'main' },
+          head: { ref: 'feature-branch' },
+        }),
+        reviewers: ['reviewer1', 'reviewer2', 'reviewer3'],
+        verdicts: {
+          reviewer1: 'approved',
+          reviewer2: 'changes_requested',
+          reviewer3: 'pending',
+        } as const,
+        required_approvals: 2,
+      };
 
-      expect(statusIndex).toBeGreaterThan(warningIndex);
+      expect(renderReviewerChecklist(card, { reviewer1: '111' })).toBe(
+        ':white_check_mark: <@111>\n:tools: @reviewer2\n:hourglass_flowing_sand: @reviewer3'
+      );
+      expect(getApprovalSummary(card)).toBe('1/2 approvals');
+      expect(renderPRCard(card, { reviewer1: '111' })).toContain(
+        '**Reviewers:** 1/2 approvals\n:white_check_mark: <@111>\n'
+      );
     });
   });
 });
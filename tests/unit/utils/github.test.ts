@@ -2,13 +2,24 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   getPRComments,
   getMetadataFromPR,
+  listMetadataFromRepo,
   saveMetadataToPR,
+  cleanupDuplicateMetadata,
+  getPullRequest,
+  listPullRequests,
+  getLastSuccessfulRunTime,
+  getCheckRuns,
+  getCommitStatuses,
+  getOpenPRsForCommit,
   getReviewDetails,
+  getPRReviews,
+  getRequiredApprovalsForBranch,
+  isBranchProtected,
   requestReviewers,
   postMetadataMissingComment,
 } from '../../../.github/scripts/discord-pr-notifications/utils/github';
 import { createMetadataComment } from '../../../.github/scripts/discord-pr-notifications/utils/metadata';
-import { createMockGitHubContext } from '../../mocks/github';
+import { createMockGitHubContext, TEST_METADATA_SECRET } from '../../mocks/github';
 import type { DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
 
 describe('github', () => {
@@ -42,13 +53,66 @@ describe('github', () => {
       const comments = await getPRComments(context, prNumber);
 
       expect(comments).toEqual(mockComments);
-      expect(context.github.rest.issues?.listComments).toHaveBeenCalledWith({
+      expect(context.github.paginate).toHaveBeenCalledWith(context.github.rest.issues.listComments, {
         owner: 'test-owner',
         repo: 'test-repo',
         issue_number: prNumber,
+        per_page: 100,
       });
     });
 
+    it('should return comments from every page', async () => {
+      const context = createMockGitHubContext({
+        paginate: vi.fn().mockResolvedValue(
+          Array.from({ length: 150 }, (_, i) => ({
+            id: i + 1,
+            body: `Comment ${i + 1}`,
+            user: { login: 'user1' },
+            created_at: '2024-01-01T00:00:00Z',
+          }))
+        ),
+      } as any);
+
+      const comments = await getPRComments(context, prNumber);
+
+      expect(comments).toHaveLength(150);
+      expect(comments[149].body).toBe('Comment 150');
+    });
+
+    it('should fetch comments once per context and PR', async () => {
+      const context = createMockGitHubContext();
+
+      await getPRComments(context, prNumber);
+      await getMetadataFromPR(context, prNumber);
+      await getPRComments(context, 456);
+
+      expect(context.github.paginate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch comments after the bot writes metadata', async () => {
+      const context = createMockGitHubContext();
+
+      await getPRComments(context, prNumber);
+      await saveMetadataToPR(context, prNumber, {
+        message_id: 'msg-123',
+        thread_id: 'thread-123',
+        channel_id: 'channel-123',
+      });
+      await getPRComments(context, prNumber);
+
+      // Saving re-reads before writing and checks for a parallel create after it
+      expect(context.github.paginate).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not cache failed requests', async () => {
+      const context = createMockGitHubContext({
+        paginate: vi.fn().mockRejectedValueOnce(new Error('API Error')).mockResolvedValueOnce([]),
+      } as any);
+
+      await expect(getPRComments(context, prNumber)).rejects.toThrow('API Error');
+      expect(await getPRComments(context, prNumber)).toEqual([]);
+    });
+
     it('should return empty array when no comments', async () => {
       const context = createMockGitHubContext({
         rest: {
@@ -93,8 +157,8 @@ describe('github', () => {
         },
         {
           id: 2,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 2 },
+          body: createMetadataComment(metadata, TEST_METADATA_SECRET),
+          user: { login: 'github-actions[bot]', id: 2 },
           created_at: '2024-01-02T00:00:00Z',
         },
       ];
@@ -112,6 +176,43 @@ describe('github', () => {
       expect(found).toEqual(metadata);
     });
 
+    it('should warn about forged metadata and ignore it', async () => {
+      const comments = [
+        {
+          id: 7,
+          body: createMetadataComment(
+            { message_id: 'msg-evil', thread_id: 'thread-evil', channel_id: 'channel-evil' },
+            TEST_METADATA_SECRET
+          ),
+          user: { login: 'mallory', id: 7 },
+          created_at: '2024-01-01T00:00:00Z',
+        },
+      ];
+      const context = createMockGitHubContext({
+        rest: {
+          issues: {
+            listComments: vi.fn().mockResolvedValue({ data: comments }),
+          } as any,
+        },
+      });
+      const core = { setFailed: vi.fn(), warning: vi.fn(), info: vi.fn(), error: vi.fn() };
+
+      const found = await getMetadataFromPR(context, prNumber, core);
+
+      expect(found).toBeNull();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Ignoring untrusted Discord metadata in comment 7: posted by @mallory, not the bot'
+      );
+    });
+
+    it('should refuse to read metadata without a secret', async () => {
+      const context = { ...createMockGitHubContext(), config: {} };
+
+      await expect(getMetadataFromPR(context, prNumber)).rejects.toThrow(
+        'DISCORD_METADATA_SECRET must be set'
+      );
+    });
+
     it('should return null when no metadata found', async () => {
       const comments = [
         {
@@ -147,8 +248,8 @@ describe('github', () => {
         { id: 2, body: 'Comment 2', user: { login: 'user2', id: 2 }, created_at: '2024-01-02T00:00:00Z' },
         {
           id: 3,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 3 },
+          body: createMetadataComment(metadata, TEST_METADATA_SECRET),
+          user: { login: 'github-actions[bot]', id: 3 },
           created_at: '2024-01-03T00:00:00Z',
         },
         { id: 4, body: 'Comment 4', user: { login: 'user3', id: 4 }, created_at: '2024-01-04T00:00:00Z' },
@@ -168,44 +269,259 @@ describe('github', () => {
     });
   });
 
-  describe('saveMetadataToPR', () => {
-    it('should save metadata successfully', async () => {
-      const metadata: DiscordMetadata = {
-        message_id: 'msg-123',
-        thread_id: 'thread-123',
-        channel_id: 'channel-123',
-      };
-
-      const mockCreateComment = vi.fn().mockResolvedValue({ data: { id: 1 } });
+  describe('listMetadataFromRepo', () => {
+    const metadataComment = (id: number, prNumber: number, threadId: string) => ({
+      id,
+      body: createMetadataComment(
+        { message_id: `msg-${id}`, thread_id: threadId, channel_id: 'channel-123' },
+        TEST_METADATA_SECRET
+      ),
+      user: { login: 'github-actions[bot]', id: 2 },
+      created_at: '2024-01-01T00:00:00Z',
+      issue_url: `https://api.github.com/repos/test-owner/test-repo/issues/${prNumber}`,
+    });
 
+    it('should read every PR\'s metadata from one repository listing', async () => {
       const context = createMockGitHubContext({
+        paginate: vi.fn().mockResolvedValue([
+          metadataComment(1, 7, 'thread-1'),
+          {
+            id: 2,
+            body: 'Regular comment',
+            user: { login: 'user1', id: 1 },
+            created_at: '2024-01-01T00:00:00Z',
+            issue_url: 'https://api.github.com/repos/test-owner/test-repo/issues/8',
+          },
+          metadataComment(3, 9, 'thread-3'),
+          // A duplicate left behind on PR 7: the newest wins
+          metadataComment(4, 7, 'thread-4'),
+        ]),
+      } as any);
+
+      const entries = await listMetadataFromRepo(context);
+
+      expect(context.github.paginate).toHaveBeenCalledWith(
+        context.github.rest.issues.listCommentsForRepo,
+        {
+          owner: 'test-owner',
+          repo: 'test-repo',
+          sort: 'created',
+          direction: 'asc',
+          per_page: 100,
+        }
+      );
+      expect(entries.map((entry) => [entry.pr_number, entry.metadata.thread_id])).toEqual([
+        [7, 'thread-4'],
+        [9, 'thread-3'],
+      ]);
+    });
+  });
+
+  describe('saveMetadataToPR', () => {
+    const metadata: DiscordMetadata = {
+      message_id: 'msg-123',
+      thread_id: 'thread-123',
+      channel_id: 'channel-123',
+    };
+
+    const metadataComment = (id: number, stored: DiscordMetadata) => ({
+      id,
+      body: createMetadataComment(stored, TEST_METADATA_SECRET),
+      user: { login: 'github-actions[bot]', id: 2 },
+      created_at: `2024-01-0${id}T00:00:00Z`,
+    });
+
+    const createContext = (comments: any[]) =>
+      createMockGitHubContext({
         rest: {
           issues: {
-            createComment: mockCreateComment,
+            listComments: vi.fn().mockResolvedValue({ data: comments }),
+            createComment: vi.fn().mockResolvedValue({ data: { id: 10 } }),
+            updateComment: vi.fn().mockResolvedValue({ data: {} }),
+            deleteComment: vi.fn().mockResolvedValue({ data: {} }),
           } as any,
         },
       });
 
+    it('should create a metadata comment when none exists', async () => {
+      const context = createContext([]);
+
       await saveMetadataToPR(context, prNumber, metadata);
 
-      expect(mockCreateComment).toHaveBeenCalledWith({
+      expect(context.github.rest.issues.createComment).toHaveBeenCalledWith({
         owner: 'test-owner',
         repo: 'test-repo',
         issue_number: prNumber,
-        body: expect.stringContaining('DISCORD_BOT_METADATA'),
+        body: createMetadataComment(metadata, TEST_METADATA_SECRET),
       });
+      expect(context.github.rest.issues.updateComment).not.toHaveBeenCalled();
     });
 
-    it('should handle API errors', async () => {
-      const metadata: DiscordMetadata = {
-        message_id: 'msg-123',
-        thread_id: 'thread-123',
+    it('should edit the existing metadata comment in place', async () => {
+      const context = createContext([
+        {
+          id: 1,
+          body: 'Regular comment',
+          user: { login: 'user1', id: 1 },
+          created_at: '2024-01-01T00:00:00Z',
+        },
+        metadataComment(2, metadata),
+      ]);
+
+      // Same thread, so nothing goes into the history
+      const updated: DiscordMetadata = { ...metadata, message_id: 'msg-456' };
+      await saveMetadataToPR(context, prNumber, updated);
+
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 2,
+        body: createMetadataComment(updated, TEST_METADATA_SECRET),
+      });
+      expect(context.github.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should sign a legacy metadata comment when saving over it', async () => {
+      const context = createContext([
+        {
+          id: 2,
+          body: `<!-- DISCORD_BOT_METADATA\n${JSON.stringify(metadata, null, 2)}\n-->`,
+          user: { login: 'github-actions[bot]', id: 2 },
+          created_at: '2024-01-02T00:00:00Z',
+        },
+      ]);
+      // Unsigned metadata is only read while migrating
+      context.config = { ...context.config, allowUnsignedMetadata: true };
+
+      await saveMetadataToPR(context, prNumber, metadata);
+
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 2,
+        body: createMetadataComment(metadata, TEST_METADATA_SECRET),
+      });
+      expect(context.github.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should remember the previous thread when the thread changes', async () => {
+      const context = createContext([metadataComment(2, metadata)]);
+
+      await saveMetadataToPR(context, prNumber, {
+        message_id: 'msg-456',
+        thread_id: 'thread-456',
         channel_id: 'channel-123',
-      };
+      });
+
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          comment_id: 2,
+          body: createMetadataComment(
+            {
+              message_id: 'msg-456',
+              thread_id: 'thread-456',
+              channel_id: 'channel-123',
+              history: [metadata],
+            },
+            TEST_METADATA_SECRET
+          ),
+        })
+      );
+    });
+
+    it('should collapse duplicate metadata comments into the newest one', async () => {
+      const older = { message_id: 'msg-1', thread_id: 'thread-1', channel_id: 'channel-123' };
+      const context = createContext([metadataComment(1, older), metadataComment(2, metadata)]);
+      const mockCore = { setFailed: vi.fn(), warning: vi.fn(), info: vi.fn(), error: vi.fn() };
+
+      await saveMetadataToPR(context, prNumber, metadata, mockCore);
+
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          comment_id: 2,
+          body: createMetadataComment({ ...metadata, history: [older] }, TEST_METADATA_SECRET),
+        })
+      );
+      expect(context.github.rest.issues.deleteComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 1,
+      });
+      expect(mockCore.info).toHaveBeenCalledWith(
+        `Removed 1 duplicate Discord metadata comment(s) from PR #${prNumber}`
+      );
+    });
+
+    it('should re-read the comments instead of using a stale cached listing', async () => {
+      const context = createContext([]);
+      await getPRComments(context, prNumber);
+      // Another run saves metadata after this one listed the comments
+      vi.mocked(context.github.rest.issues.listComments).mockResolvedValue({
+        data: [metadataComment(2, metadata)],
+      } as any);
+
+      await saveMetadataToPR(context, prNumber, metadata);
+
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 2 })
+      );
+      expect(context.github.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should fold its comment into one a parallel run created at the same time', async () => {
+      const other = { message_id: 'msg-1', thread_id: 'thread-1', channel_id: 'channel-123' };
+      const context = createContext([]);
+      vi.mocked(context.github.rest.issues.listComments)
+        .mockResolvedValueOnce({ data: [] } as any)
+        .mockResolvedValueOnce({
+          data: [metadataComment(3, other), metadataComment(10, metadata)],
+        } as any);
+
+      await saveMetadataToPR(context, prNumber, metadata);
 
+      expect(context.github.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          comment_id: 3,
+          body: createMetadataComment({ ...metadata, history: [other] }, TEST_METADATA_SECRET),
+        })
+      );
+      expect(context.github.rest.issues.deleteComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 10,
+      });
+    });
+
+    it('should keep its comment when it was created first', async () => {
+      const other = { message_id: 'msg-1', thread_id: 'thread-1', channel_id: 'channel-123' };
+      const context = createContext([]);
+      vi.mocked(context.github.rest.issues.listComments)
+        .mockResolvedValueOnce({ data: [] } as any)
+        .mockResolvedValueOnce({
+          data: [metadataComment(10, metadata), metadataComment(11, other)],
+        } as any);
+
+      await saveMetadataToPR(context, prNumber, metadata);
+
+      expect(context.github.rest.issues.updateComment).not.toHaveBeenCalled();
+      expect(context.github.rest.issues.deleteComment).not.toHaveBeenCalled();
+    });
+
+    it('should not touch metadata comments it does not trust', async () => {
+      const forged = { ...metadataComment(1, metadata), user: { login: 'user1', id: 1 } };
+      const context = createContext([forged]);
+
+      await saveMetadataToPR(context, prNumber, metadata);
+
+      expect(context.github.rest.issues.createComment).toHaveBeenCalled();
+      expect(context.github.rest.issues.deleteComment).not.toHaveBeenCalled();
+    });
+
+    it('should handle API errors', async () => {
       const context = createMockGitHubContext({
         rest: {
           issues: {
+            listComments: vi.fn().mockResolvedValue({ data: [] }),
             createComment: vi.fn().mockRejectedValue(new Error('API Error')),
           } as any,
         },
@@ -215,6 +531,227 @@ describe('github', () => {
     });
   });
 
+  describe('cleanupDuplicateMetadata', () => {
+    const metadataComment = (id: number, threadId: string) => ({
+      id,
+      body: createMetadataComment(
+        { message_id: `msg-${id}`, thread_id: threadId, channel_id: 'channel-123' },
+        TEST_METADATA_SECRET
+      ),
+      user: { login: 'github-actions[bot]', id: 2 },
+      created_at: '2024-01-01T00:00:00Z',
+    });
+
+    it('should leave a single metadata comment alone', async () => {
+      const context = createMockGitHubContext({
+        rest: {
+          issues: {
+            listComments: vi.fn().mockResolvedValue({ data: [metadataComment(1, 'thread-1')] }),
+            updateComment: vi.fn(),
+          } as any,
+        },
+      });
+
+      expect(await cleanupDuplicateMetadata(context, prNumber)).toBe(0);
+      expect(context.github.rest.issues.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('should keep the newest comment and delete the rest', async () => {
+      const context = createMockGitHubContext({
+        rest: {
+          issues: {
+            listComments: vi.fn().mockResolvedValue({
+              data: [
+                metadataComment(1, 'thread-1'),
+                metadataComment(2, 'thread-2'),
+                metadataComment(3, 'thread-3'),
+              ],
+            }),
+            updateComment: vi.fn().mockResolvedValue({ data: {} }),
+            deleteComment: vi.fn().mockResolvedValue({ data: {} }),
+          } as any,
+        },
+      });
+
+      expect(await cleanupDuplicateMetadata(context, prNumber)).toBe(2);
+
+      const body = vi.mocked(context.github.rest.issues.updateComment).mock.calls[0][0].body;
+      expect(body).toBe(
+        createMetadataComment(
+          {
+            message_id: 'msg-3',
+            thread_id: 'thread-3',
+            channel_id: 'channel-123',
+            history: [
+              { message_id: 'msg-1', thread_id: 'thread-1', channel_id: 'channel-123' },
+              { message_id: 'msg-2', thread_id: 'thread-2', channel_id: 'channel-123' },
+            ],
+          },
+          TEST_METADATA_SECRET
+        )
+      );
+      expect(context.github.rest.issues.deleteComment).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getPullRequest', () => {
+    it('should fetch the pull request', async () => {
+      const pr = { number: prNumber, title: 'Test PR' };
+      const context = createMockGitHubContext({
+        rest: {
+          pulls: {
+            get: vi.fn().mockResolvedValue({ data: pr }),
+          } as any,
+        },
+      });
+
+      expect(await getPullRequest(context, prNumber)).toEqual(pr);
+      expect(context.github.rest.pulls?.get).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: prNumber,
+      });
+    });
+  });
+
+  describe('listPullRequests', () => {
+    const pull = (number: number, updated_at: string) => ({ number, updated_at });
+
+    // Pages of PRs, newest update first, handed to the map function the way octokit does
+    const createContext = (pages: { number: number; updated_at: string }[][]) =>
+      createMockGitHubContext({
+        paginate: vi.fn(async (_method: any, _params: any, mapFn: any) => {
+          const pulls = [];
+          let stopped = false;
+          for (const data of pages) {
+            pulls.push(...mapFn({ data }, () => (stopped = true)));
+            if (stopped) {
+              break;
+            }
+          }
+          return pulls;
+        }),
+      } as any);
+
+    it('should list every PR without a since', async () => {
+      const context = createContext([
+        [pull(2, '2024-01-02T00:00:00Z')],
+        [pull(1, '2023-01-01T00:00:00Z')],
+      ]);
+
+      const pulls = await listPullRequests(context);
+
+      expect(pulls.map((pr) => pr.number)).toEqual([2, 1]);
+      expect(context.github.paginate).toHaveBeenCalledWith(
+        context.github.rest.pulls.list,
+        {
+          owner: 'test-owner',
+          repo: 'test-repo',
+          state: 'all',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: 100,
+        },
+        expect.any(Function)
+      );
+    });
+
+    it('should stop paging at the first PR not updated since', async () => {
+      const context = createContext([
+        [pull(3, '2024-01-03T00:00:00Z'), pull(2, '2024-01-01T12:00:00Z')],
+        [pull(1, '2023-01-01T00:00:00Z')],
+      ]);
+
+      const pulls = await listPullRequests(context, '2024-01-02T00:00:00Z');
+
+      expect(pulls.map((pr) => pr.number)).toEqual([3]);
+    });
+  });
+
+  describe('getLastSuccessfulRunTime', () => {
+    const createContext = (runs: object[]) =>
+      createMockGitHubContext({
+        rest: {
+          actions: {
+            listWorkflowRuns: vi.fn().mockResolvedValue({ data: { workflow_runs: runs } }),
+          } as any,
+        },
+      });
+
+    it('should return when the last successful run started', async () => {
+      const context = createContext([
+        { created_at: '2024-01-01T00:23:00Z', run_started_at: '2024-01-01T00:25:00Z' },
+      ]);
+
+      expect(await getLastSuccessfulRunTime(context, 'workflow.yaml', 'schedule')).toBe(
+        '2024-01-01T00:25:00Z'
+      );
+      expect(context.github.rest.actions.listWorkflowRuns).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        workflow_id: 'workflow.yaml',
+        event: 'schedule',
+        status: 'success',
+        per_page: 1,
+      });
+    });
+
+    it('should return null before the first successful run', async () => {
+      const context = createContext([]);
+
+      expect(await getLastSuccessfulRunTime(context, 'workflow.yaml', 'schedule')).toBeNull();
+    });
+  });
+
+  describe('CI lookups', () => {
+    it('should list every check run on the commit', async () => {
+      const runs = [{ name: 'build', status: 'completed', conclusion: 'success' }];
+      const context = createMockGitHubContext({
+        rest: { checks: { listForRef: vi.fn() } as any },
+        paginate: vi.fn().mockResolvedValue(runs),
+      });
+
+      expect(await getCheckRuns(context, 'abc123')).toEqual(runs);
+      expect(context.github.paginate).toHaveBeenCalledWith(context.github.rest.checks.listForRef, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        ref: 'abc123',
+        per_page: 100,
+      });
+    });
+
+    it('should return the latest status per context', async () => {
+      const statuses = [{ context: 'ci/deploy', state: 'success' }];
+      const context = createMockGitHubContext({
+        rest: {
+          repos: {
+            getCombinedStatusForRef: vi.fn().mockResolvedValue({ data: { state: 'success', statuses } }),
+          } as any,
+        },
+      });
+
+      expect(await getCommitStatuses(context, 'abc123')).toEqual(statuses);
+    });
+
+    it('should only return open PRs whose head is the commit', async () => {
+      const context = createMockGitHubContext({
+        rest: {
+          repos: {
+            listPullRequestsAssociatedWithCommit: vi.fn().mockResolvedValue({
+              data: [
+                { number: 1, state: 'open', head: { sha: 'abc123' } },
+                { number: 2, state: 'closed', head: { sha: 'abc123' } },
+                { number: 3, state: 'open', head: { sha: 'def456' } },
+              ],
+            }),
+          } as any,
+        },
+      });
+
+      expect(await getOpenPRsForCommit(context, 'abc123')).toEqual([1]);
+    });
+  });
+
   describe('getReviewDetails', () => {
     it('should fetch review details successfully', async () => {
       const reviewId = 456;
@@ -274,6 +811,118 @@ describe('github', () => {
     });
   });
 
+  describe('getPRReviews', () => {
+    it('should normalize review states and drop unsubmitted reviews', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.pulls.listReviews = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 1,
+            user: { login: 'reviewer1' },
+            state: 'CHANGES_REQUESTED',
+            body: 'Fix it',
+            submitted_at: '2024-01-01T00:00:00Z',
+          },
+          { id: 2, user: { login: 'reviewer2' }, state: 'PENDING', body: '' },
+          { id: 3, user: null, state: 'APPROVED', body: '' },
+          {
+            id: 4,
+            user: { login: 'reviewer1' },
+            state: 'APPROVED',
+            body: '',
+            submitted_at: '2024-01-02T00:00:00Z',
+          },
+        ],
+      });
+
+      const reviews = await getPRReviews(context, prNumber);
+
+      expect(context.github.paginate).toHaveBeenCalledWith(context.github.rest.pulls.listReviews, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: prNumber,
+        per_page: 100,
+      });
+      expect(reviews).toEqual([
+        {
+          id: 1,
+          user: { login: 'reviewer1' },
+          state: 'changes_requested',
+          body: 'Fix it',
+          submitted_at: '2024-01-01T00:00:00Z',
+        },
+        {
+          id: 4,
+          user: { login: 'reviewer1' },
+          state: 'approved',
+          body: '',
+          submitted_at: '2024-01-02T00:00:00Z',
+        },
+      ]);
+    });
+  });
+
+  describe('getRequiredApprovalsForBranch', () => {
+    it('should read the classic branch protection rule', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.repos.getBranchProtection = vi.fn().mockResolvedValue({
+        data: { required_pull_request_reviews: { required_approving_review_count: 2 } },
+      });
+
+      expect(await getRequiredApprovalsForBranch(context, 'main')).toBe(2);
+      expect(context.github.rest.repos.getBranchRules).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to rulesets when protection cannot be read', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.repos.getBranchRules = vi.fn().mockResolvedValue({
+        data: [
+          { type: 'deletion' },
+          { type: 'pull_request', parameters: { required_approving_review_count: 1 } },
+          { type: 'pull_request', parameters: { required_approving_review_count: 3 } },
+        ],
+      });
+
+      expect(await getRequiredApprovalsForBranch(context, 'main')).toBe(3);
+      expect(context.github.paginate).toHaveBeenCalledWith(context.github.rest.repos.getBranchRules, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        branch: 'main',
+        per_page: 100,
+      });
+    });
+
+    it('should return null when no rule requires approvals', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.repos.getBranchRules = vi.fn().mockRejectedValue(new Error('Forbidden'));
+
+      expect(await getRequiredApprovalsForBranch(context, 'main')).toBeNull();
+    });
+  });
+
+  describe('isBranchProtected', () => {
+    it('should read whether the branch is protected', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.repos.getBranch = vi.fn().mockResolvedValue({
+        data: { name: 'main', protected: true },
+      });
+
+      expect(await isBranchProtected(context, 'main')).toBe(true);
+      expect(context.github.rest.repos.getBranch).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        branch: 'main',
+      });
+    });
+
+    it('should treat unreadable branches as unprotected', async () => {
+      const context = createMockGitHubContext();
+      context.github.rest.repos.getBranch = vi.fn().mockRejectedValue(new Error('Not Found'));
+
+      expect(await isBranchProtected(context, 'gone')).toBe(false);
+    });
+  });
+
   describe('requestReviewers', () => {
     it('should request reviewers successfully', async () => {
       const reviewerLogins = ['reviewer1', 'reviewer2'];
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertMarkdown,
+  escapeMentions,
+  getMarkdownOptions,
+} from '../../../.github/scripts/discord-pr-notifications/utils/markdown';
+import { createMockGitHubContext } from '../../mocks/github';
+import type { MarkdownOptions } from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('markdown', () => {
+  const options: MarkdownOptions = {
+    repoUrl: 'https://github.com/test/repo',
+    ref: 'main',
+    userMapping: { alice: 'alice-discord-id' },
+  };
+
+  describe('escapeMentions', () => {
+    it('should break up mass, user and role mentions', () => {
+      expect(escapeMentions('@everyone @here <@123> <@!456> <@&789>')).toBe(
+        '@\u200beveryone @\u200bhere <@\u200b123> <@!\u200b456> <@&\u200b789>'
+      );
+    });
+
+    it('should leave other text alone', () => {
+      expect(escapeMentions('Email me@example.com about <#123> and @octocat')).toBe(
+        'Email me@example.com about <#123> and @octocat'
+      );
+    });
+  });
+
+  describe('getMarkdownOptions', () => {
+    it("should point at the repository and the PR's base branch", () => {
+      const context = createMockGitHubContext();
+      context.payload = {
+        pull_request: { base: { ref: 'develop' } } as any,
+        action: 'submitted',
+      };
+
+      context.config = { ...context.config, unmappedMentions: 'link' };
+
+      expect(getMarkdownOptions(context, {})).toEqual({
+        repoUrl: 'https://github.com/test-owner/test-repo',
+        ref: 'develop',
+        userMapping: {},
+        unmappedMentions: 'link',
+      });
+    });
+  });
+
+  describe('convertMarkdown', () => {
+    it('should remove template comments', () => {
+      const body =
+        '## Summary\n<!-- Describe your change -->\nFixes the thing\n\n<!--\nChecklist:\n-->\n\nDone';
+      expect(convertMarkdown(body, options)).toBe('## Summary\n\nFixes the thing\n\nDone');
+    });
+
+    it('should turn task lists into boxes', () => {
+      expect(convertMarkdown('- [ ] Tests\n- [x] Docs\n  * [X] Nested', options)).toBe(
+        '- ☐ Tests\n- ☑ Docs\n  - ☑ Nested'
+      );
+    });
+
+    it('should flatten tables into one line per row', () => {
+      const table =
+        'Results:\n| Check | Status |\n| :--- | ---: |\n| Lint | ok |\n| Tests | 3 \\| 4 |\n\nAfter';
+      expect(convertMarkdown(table, options)).toBe(
+        'Results:\n- **Check:** Lint · **Status:** ok\n- **Check:** Tests · **Status:** 3 | 4\n\nAfter'
+      );
+    });
+
+    it('should flatten tables without outer pipes and skip empty cells', () => {
+      expect(convertMarkdown('a | b\n--- | ---\n1 |\n', options)).toBe('- **a:** 1');
+    });
+
+    it('should turn images into links', () => {
+      expect(convertMarkdown('![screenshot](https://example.com/a.png)', options)).toBe(
+        '[screenshot](https://example.com/a.png)'
+      );
+      expect(convertMarkdown('![](https://example.com/a.png)', options)).toBe(
+        '[image](https://example.com/a.png)'
+      );
+      expect(
+        convertMarkdown('<img width="400" alt="Before" src="https://example.com/b.png">', options)
+      ).toBe('[Before](https://example.com/b.png)');
+    });
+
+    it('should unwrap details blocks', () => {
+      const body = '<details>\n<summary>Logs</summary>\n\nAll good\n</details>';
+      expect(convertMarkdown(body, options)).toBe('**Logs**\n\nAll good');
+    });
+
+    it('should resolve relative links', () => {
+      expect(convertMarkdown('See [the guide](docs/guide.md)', options)).toBe(
+        'See [the guide](https://github.com/test/repo/blob/main/docs/guide.md)'
+      );
+      expect(convertMarkdown('[guide](./docs/guide.md)', { ...options, ref: undefined })).toBe(
+        '[guide](https://github.com/test/repo/blob/HEAD/docs/guide.md)'
+      );
+      expect(convertMarkdown('[other](/octo/other)', options)).toBe(
+        '[other](https://github.com/octo/other)'
+      );
+      expect(convertMarkdown('[site](https://example.com/x)', options)).toBe(
+        '[site](https://example.com/x)'
+      );
+      expect(convertMarkdown('[below](#testing)', options)).toBe('below');
+    });
+
+    it('should link issue references', () => {
+      expect(convertMarkdown('Fixes #123 and octo/other#7.', options)).toBe(
+        'Fixes [#123](<https://github.com/test/repo/issues/123>) and ' +
+          '[octo/other#7](<https://github.com/octo/other/issues/7>).'
+      );
+    });
+
+    it('should not treat anchors, entities or headings as issue references', () => {
+      const text = '# Title\nhttps://example.com/page#12 and &#123; and [see #5](https://x.dev)';
+      expect(convertMarkdown(text, options)).toBe(text);
+    });
+
+    it('should turn mapped @user references into Discord mentions', () => {
+      expect(convertMarkdown('Thanks @alice and @bob-smith!', options)).toBe(
+        'Thanks <@alice-discord-id> and @bob-smith!'
+      );
+      expect(convertMarkdown('cc @octo-org/reviewers', options)).toBe('cc @octo-org/reviewers');
+    });
+
+    it('should link unmapped users and teams to GitHub when configured', () => {
+      const linked: MarkdownOptions = { ...options, unmappedMentions: 'link' };
+      expect(convertMarkdown('Thanks @alice and @bob-smith!', linked)).toBe(
+        'Thanks <@alice-discord-id> and [@bob-smith](<https://github.com/bob-smith>)!'
+      );
+      expect(convertMarkdown('cc @octo-org/reviewers', linked)).toBe(
+        'cc [@octo-org/reviewers](<https://github.com/orgs/octo-org/teams/reviewers>)'
+      );
+    });
+
+    it('should not treat email addresses or escaped mentions as @user references', () => {
+      expect(convertMarkdown('Mail dev@example.com, @everyone', options)).toBe(
+        'Mail dev@example.com, @\u200beveryone'
+      );
+    });
+
+    it('should leave code blocks and inline code alone', () => {
+      const body =
+        'Run `npm test #1 @alice`\n```md\n- [ ] not a task\n<!-- kept -->\n| a | b |\n|---|---|\n```\nThanks @alice';
+      expect(convertMarkdown(body, options)).toBe(
+        'Run `npm test #1 @alice`\n```md\n- [ ] not a task\n<!-- kept -->\n| a | b |\n|---|---|\n```\nThanks <@alice-discord-id>'
+      );
+    });
+
+    it('should shrink headings Discord cannot render to bold text', () => {
+      expect(convertMarkdown('### Kept\n#### Small ####\n###### Tiny', options)).toBe(
+        '### Kept\n**Small**\n**Tiny**'
+      );
+    });
+
+    it('should turn line break tags into new lines', () => {
+      expect(convertMarkdown('one<br>two<br/>three', options)).toBe('one\ntwo\nthree');
+    });
+  });
+});
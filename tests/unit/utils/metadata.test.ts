@@ -1,8 +1,19 @@
-import { describe, it, expect } from 'vitest';
-import { findMetadata, createMetadataComment } from '../../../.github/scripts/discord-pr-notifications/utils/metadata';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findMetadata,
+  findMetadataComment,
+  mergeMetadataHistory,
+  MAX_METADATA_HISTORY,
+  createMetadataComment,
+  signMetadata,
+  METADATA_VERSION,
+} from '../../../.github/scripts/discord-pr-notifications/utils/metadata';
 import type { GitHubComment, DiscordMetadata } from '../../../.github/scripts/discord-pr-notifications/types';
 
 describe('metadata', () => {
+  const secret = 'test-secret';
+  const verification = { botLogin: 'github-actions[bot]', secret };
+
   describe('findMetadata', () => {
     it('should find valid metadata comment', () => {
       const metadata: DiscordMetadata = {
@@ -14,13 +25,13 @@ describe('metadata', () => {
       const comments: GitHubComment[] = [
         {
           id: 1,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 1 },
+          body: createMetadataComment(metadata, secret),
+          user: { login: 'github-actions[bot]', id: 1 },
           created_at: '2024-01-01T00:00:00Z',
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toEqual(metadata);
     });
 
@@ -40,8 +51,8 @@ describe('metadata', () => {
         },
         {
           id: 2,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 2 },
+          body: createMetadataComment(metadata, secret),
+          user: { login: 'github-actions[bot]', id: 2 },
           created_at: '2024-01-02T00:00:00Z',
         },
         {
@@ -52,7 +63,7 @@ describe('metadata', () => {
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toEqual(metadata);
     });
 
@@ -66,8 +77,8 @@ describe('metadata', () => {
       const comments: GitHubComment[] = [
         {
           id: 1,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 1 },
+          body: createMetadataComment(metadata, secret),
+          user: { login: 'github-actions[bot]', id: 1 },
           created_at: '2024-01-01T00:00:00Z',
         },
         {
@@ -78,7 +89,7 @@ describe('metadata', () => {
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toEqual(metadata);
     });
 
@@ -92,7 +103,7 @@ describe('metadata', () => {
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toBeNull();
     });
 
@@ -101,7 +112,7 @@ describe('metadata', () => {
         {
           id: 1,
           body: '<!-- DISCORD_BOT_METADATA\ninvalid json\n-->',
-          user: { login: 'bot', id: 1 },
+          user: { login: 'github-actions[bot]', id: 1 },
           created_at: '2024-01-01T00:00:00Z',
         },
         {
@@ -112,7 +123,7 @@ describe('metadata', () => {
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toBeNull();
     });
 
@@ -132,17 +143,17 @@ describe('metadata', () => {
         },
         {
           id: 2,
-          body: createMetadataComment(metadata),
-          user: { login: 'bot', id: 2 },
+          body: createMetadataComment(metadata, secret),
+          user: { login: 'github-actions[bot]', id: 2 },
           created_at: '2024-01-02T00:00:00Z',
         },
       ];
 
-      const found = findMetadata(comments);
+      const found = findMetadata(comments, verification);
       expect(found).toEqual(metadata);
     });
 
-    it('should find first metadata when multiple exist', () => {
+    it('should find the newest metadata when multiple exist', () => {
       const metadata1: DiscordMetadata = {
         message_id: 'msg-123',
         thread_id: 'thread-123',
@@ -158,20 +169,20 @@ describe('metadata', () => {
       const comments: GitHubComment[] = [
         {
           id: 1,
-          body: createMetadataComment(metadata1),
-          user: { login: 'bot', id: 1 },
+          body: createMetadataComment(metadata1, secret),
+          user: { login: 'github-actions[bot]', id: 1 },
           created_at: '2024-01-01T00:00:00Z',
         },
         {
           id: 2,
-          body: createMetadataComment(metadata2),
-          user: { login: 'bot', id: 2 },
+          body: createMetadataComment(metadata2, secret),
+          user: { login: 'github-actions[bot]', id: 2 },
           created_at: '2024-01-02T00:00:00Z',
         },
       ];
 
-      const found = findMetadata(comments);
-      expect(found).toEqual(metadata1);
+      const found = findMetadata(comments, verification);
+      expect(found).toEqual(metadata2);
     });
   });
 
@@ -183,7 +194,7 @@ describe('metadata', () => {
         channel_id: 'channel-123',
       };
 
-      const comment = createMetadataComment(metadata);
+      const comment = createMetadataComment(metadata, secret);
 
       expect(comment).toContain('<!-- DISCORD_BOT_METADATA');
       expect(comment).toContain('-->');
@@ -199,12 +210,14 @@ describe('metadata', () => {
         channel_id: 'channel-123',
       };
 
-      const comment = createMetadataComment(metadata);
+      const comment = createMetadataComment(metadata, secret);
       const parsed = JSON.parse(comment.match(/<!-- DISCORD_BOT_METADATA\n([\s\S]*?)\n-->/)![1]);
 
-      expect(parsed).toHaveProperty('message_id');
-      expect(parsed).toHaveProperty('thread_id');
-      expect(parsed).toHaveProperty('channel_id');
+      expect(parsed).toHaveProperty('version', METADATA_VERSION);
+      expect(parsed).toHaveProperty('signature', signMetadata(metadata, secret));
+      expect(parsed.metadata).toHaveProperty('message_id');
+      expect(parsed.metadata).toHaveProperty('thread_id');
+      expect(parsed.metadata).toHaveProperty('channel_id');
     });
 
     it('should format JSON correctly', () => {
@@ -214,12 +227,231 @@ describe('metadata', () => {
         channel_id: 'channel-123',
       };
 
-      const comment = createMetadataComment(metadata);
+      const comment = createMetadataComment(metadata, secret);
       const match = comment.match(/<!-- DISCORD_BOT_METADATA\n([\s\S]*?)\n-->/);
       expect(match).not.toBeNull();
 
       const parsed = JSON.parse(match![1]);
-      expect(parsed).toEqual(metadata);
+      expect(parsed.metadata).toEqual(metadata);
+    });
+  });
+
+  describe('findMetadataComment', () => {
+    it('should return the comment along with its metadata', () => {
+      const metadata: DiscordMetadata = {
+        message_id: 'msg-123',
+        thread_id: 'thread-123',
+        channel_id: 'channel-123',
+      };
+      const metadataComment: GitHubComment = {
+        id: 2,
+        body: createMetadataComment(metadata, secret),
+        user: { login: 'github-actions[bot]', id: 2 },
+        created_at: '2024-01-02T00:00:00Z',
+      };
+
+      const found = findMetadataComment(
+        [
+          {
+            id: 1,
+            body: 'Regular comment',
+            user: { login: 'user1', id: 1 },
+            created_at: '2024-01-01T00:00:00Z',
+          },
+          metadataComment,
+        ],
+        verification
+      );
+
+      expect(found).toEqual({ comment: metadataComment, metadata });
+    });
+
+    it('should ignore and report metadata not posted by the bot', () => {
+      const forged: GitHubComment = {
+        id: 1,
+        body: createMetadataComment(
+          { message_id: 'msg-evil', thread_id: 'thread-evil', channel_id: 'channel-evil' },
+          secret
+        ),
+        user: { login: 'user1', id: 1 },
+        created_at: '2024-01-01T00:00:00Z',
+      };
+      const botComment: GitHubComment = {
+        id: 2,
+        body: createMetadataComment(
+          { message_id: 'msg-123', thread_id: 'thread-123', channel_id: 'channel-123' },
+          secret
+        ),
+        user: { login: 'github-actions[bot]', id: 2 },
+        created_at: '2024-01-02T00:00:00Z',
+      };
+      const onRejected = vi.fn();
+
+      const found = findMetadataComment([forged, botComment], { ...verification, onRejected });
+
+      expect(found?.comment).toBe(botComment);
+      expect(onRejected).toHaveBeenCalledWith(forged, 'posted by @user1, not the bot');
+    });
+
+    it('should trust unsigned legacy metadata posted by the bot while migrating', () => {
+      const body =
+        '<!-- DISCORD_BOT_METADATA\n{"message_id":"msg-123","thread_id":"thread-123","channel_id":"channel-123"}\n-->';
+      const legacy: GitHubComment = {
+        id: 1,
+        body,
+        user: { login: 'github-actions[bot]', id: 1 },
+        created_at: '2024-01-01T00:00:00Z',
+      };
+      const forged: GitHubComment = { ...legacy, id: 2, user: { login: 'user1', id: 2 } };
+      const onRejected = vi.fn();
+
+      expect(
+        findMetadataComment([legacy, forged], { ...verification, allowUnsigned: true, onRejected })
+      ).toEqual({
+        comment: legacy,
+        metadata: { message_id: 'msg-123', thread_id: 'thread-123', channel_id: 'channel-123' },
+      });
+      expect(onRejected).toHaveBeenCalledWith(forged, 'posted by @user1, not the bot');
+    });
+
+    it('should reject unsigned legacy metadata unless migrating', () => {
+      const legacy: GitHubComment = {
+        id: 1,
+        body: '<!-- DISCORD_BOT_METADATA\n{"message_id":"msg-123","thread_id":"thread-123"}\n-->',
+        user: { login: 'github-actions[bot]', id: 1 },
+        created_at: '2024-01-01T00:00:00Z',
+      };
+      const onRejected = vi.fn();
+
+      expect(findMetadataComment([legacy], { ...verification, onRejected })).toBeNull();
+      expect(onRejected).toHaveBeenCalledWith(legacy, 'unsigned');
+    });
+
+    it('should reject signed metadata with the signature removed', () => {
+      const unsigned: GitHubComment = {
+        id: 1,
+        body: createMetadataComment(
+          { message_id: 'msg-123', thread_id: 'thread-123', channel_id: 'channel-123' },
+          secret
+        ).replace(/"signature": "\w+",/, ''),
+        user: { login: 'github-actions[bot]', id: 1 },
+        created_at: '2024-01-01T00:00:00Z',
+      };
+      const onRejected = vi.fn();
+
+      expect(findMetadataComment([unsigned], { ...verification, onRejected })).toBeNull();
+      expect(onRejected).toHaveBeenCalledWith(unsigned, 'unsigned');
+    });
+
+    it('should reject metadata with a bad signature or version', () => {
+      const metadata: DiscordMetadata = {
+        message_id: 'msg-123',
+        thread_id: 'thread-123',
+        channel_id: 'channel-123',
+      };
+      const tampered = createMetadataComment(metadata, secret).replace('thread-123', 'thread-evil');
+      const wrongKey = createMetadataComment(metadata, 'other-secret');
+      const futureVersion = createMetadataComment(metadata, secret).replace(
+        `"version": ${METADATA_VERSION}`,
+        '"version": 99'
+      );
+      const comments: GitHubComment[] = [tampered, wrongKey, futureVersion].map((body, i) => ({
+        id: i + 1,
+        body,
+        user: { login: 'github-actions[bot]', id: 1 },
+        created_at: '2024-01-01T00:00:00Z',
+      }));
+      const onRejected = vi.fn();
+
+      expect(findMetadataComment(comments, { ...verification, onRejected })).toBeNull();
+      expect(onRejected.mock.calls.map((call) => call[1])).toEqual([
+        'invalid signature',
+        'invalid signature',
+        'unsupported version 99',
+      ]);
+    });
+
+    it('should round-trip card state', () => {
+      const metadata: DiscordMetadata = {
+        message_id: 'msg-123',
+        thread_id: 'thread-123',
+        channel_id: 'channel-123',
+        card: {
+          number: 123,
+          title: 'Test PR',
+          url: 'https://github.com/test/repo/pull/123',
+          head_branch: 'feature',
+          base_branch: 'main',
+          author: 'test-author',
+          description: 'Mentions **Reviewers:** and -->',
+          reviewers: ['reviewer1'],
+          verdicts: { reviewer1: 'approved' },
+          status: 'approved',
+          status_actor: 'reviewer1',
+          ci: 'none',
+          labels: [],
+        },
+      };
+
+      const body = createMetadataComment(metadata, secret);
+      const found = findMetadataComment(
+        [
+          {
+            id: 1,
+            body,
+            user: { login: 'github-actions[bot]', id: 1 },
+            created_at: '2024-01-01T00:00:00Z',
+          },
+        ],
+        verification
+      );
+
+      expect(found?.metadata).toEqual(metadata);
+      // The only "-->" is the one closing the hidden comment
+      expect(body.indexOf('-->')).toBe(body.length - 3);
+    });
+
+    it('should return null when no metadata comment exists', () => {
+      expect(findMetadataComment([], verification)).toBeNull();
+    });
+  });
+
+  describe('mergeMetadataHistory', () => {
+    const thread = (n: number): DiscordMetadata => ({
+      message_id: `msg-${n}`,
+      thread_id: `thread-${n}`,
+      channel_id: 'channel-123',
+    });
+
+    it('should leave metadata without history alone when the thread is unchanged', () => {
+      expect(mergeMetadataHistory(thread(1), [thread(1)])).toEqual(thread(1));
+      expect(mergeMetadataHistory(thread(1), [])).toEqual(thread(1));
+    });
+
+    it('should record replaced threads oldest first without repeats', () => {
+      const previous = { ...thread(2), history: [thread(1)] };
+
+      expect(mergeMetadataHistory(thread(3), [thread(1), previous])).toEqual({
+        ...thread(3),
+        history: [thread(1), thread(2)],
+      });
+    });
+
+    it('should never list the current thread in its own history', () => {
+      const previous = { ...thread(2), history: [thread(1)] };
+
+      expect(mergeMetadataHistory(thread(1), [previous])).toEqual({
+        ...thread(1),
+        history: [thread(2)],
+      });
+    });
+
+    it('should keep only the most recent threads', () => {
+      const previous = Array.from({ length: MAX_METADATA_HISTORY + 5 }, (_, i) => thread(i));
+      const merged = mergeMetadataHistory(thread(100), previous);
+
+      expect(merged.history).toHaveLength(MAX_METADATA_HISTORY);
+      expect(merged.history![MAX_METADATA_HISTORY - 1]).toEqual(thread(MAX_METADATA_HISTORY + 4));
     });
   });
 });
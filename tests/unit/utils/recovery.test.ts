@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  isPRCard,
+  recoverMetadata,
+  resolveMetadata,
+} from '../../../.github/scripts/discord-pr-notifications/utils/recovery';
+import { createMockGitHubContext } from '../../mocks/github';
+import * as discord from '../../../.github/scripts/discord-pr-notifications/utils/discord';
+import * as github from '../../../.github/scripts/discord-pr-notifications/utils/github';
+import type {
+  Core,
+  DiscordMessage,
+  GitHubPullRequest,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/discord');
+vi.mock('../../../.github/scripts/discord-pr-notifications/utils/github');
+
+describe('recovery', () => {
+  const botToken = 'test-bot-token';
+  const channelId = 'channel-123';
+  const prUrl = 'https://github.com/test-owner/test-repo/pull/123';
+
+  const mockCore: Core = {
+    setFailed: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+  };
+
+  const pr: GitHubPullRequest = {
+    number: 123,
+    title: 'Test PR',
+    html_url: prUrl,
+    body: '',
+    draft: false,
+    state: 'open',
+    user: { login: 'test-author', id: 1 },
+    base: { ref: 'main' },
+    head: { ref: 'feature' },
+    requested_reviewers: [],
+  };
+
+  const botMessage = (id: string, overrides: Partial<DiscordMessage> = {}): DiscordMessage => ({
+    id,
+    content: '',
+    channel_id: channelId,
+    author: { id: 'bot-user', bot: true },
+    ...overrides,
+  });
+
+  const cardMessage = (id: string, overrides: Partial<DiscordMessage> = {}) =>
+    botMessage(id, { embeds: [{ title: 'PR #123: Test PR', url: prUrl }], ...overrides });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(discord.getCurrentUser).mockResolvedValue({ id: 'bot-user' });
+    vi.mocked(discord.getChannelMessages).mockResolvedValue([]);
+    vi.mocked(discord.getChannel).mockResolvedValue({ id: channelId, guild_id: 'guild-1' });
+    vi.mocked(discord.getActiveThreads).mockResolvedValue([]);
+    vi.mocked(discord.getArchivedThreads).mockResolvedValue({ threads: [], has_more: false });
+  });
+
+  describe('isPRCard', () => {
+    it('should match the embed link', () => {
+      expect(isPRCard(cardMessage('msg-1'), prUrl, 'bot-user')).toBe(true);
+    });
+
+    it('should match the text card header', () => {
+      const message = botMessage('msg-1', {
+        content: `## [PR #123: Test PR](${prUrl})\n**Status**: :eyes: Ready for Review`,
+      });
+      expect(isPRCard(message, prUrl, 'bot-user')).toBe(true);
+    });
+
+    it('should not match a link to a PR with a longer number', () => {
+      const message = botMessage('msg-1', { content: `## [PR #1234: Other](${prUrl}4)\n` });
+      expect(isPRCard(message, prUrl, 'bot-user')).toBe(false);
+    });
+
+    it('should not match another card that links to the PR in its description', () => {
+      const message = botMessage('msg-1', {
+        content: `## [PR #124: Follow-up](${prUrl}4)\nFollow-up to ${prUrl}\n`,
+      });
+      expect(isPRCard(message, prUrl, 'bot-user')).toBe(false);
+    });
+
+    it('should ignore messages posted by people and other bots', () => {
+      expect(isPRCard(cardMessage('msg-1', { author: { id: 'user-1' } }), prUrl, 'bot-user')).toBe(
+        false
+      );
+      expect(
+        isPRCard(
+          cardMessage('msg-1', { author: { id: 'other-bot', bot: true } }),
+          prUrl,
+          'bot-user'
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('recoverMetadata', () => {
+    it('should rebuild metadata from the card and its thread', async () => {
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([
+        botMessage('msg-other'),
+        cardMessage('msg-card', { thread: { id: 'thread-card', name: 'PR #123: Test PR' } }),
+      ]);
+
+      expect(await recoverMetadata(botToken, channelId, pr)).toEqual({
+        message_id: 'msg-card',
+        thread_id: 'thread-card',
+        channel_id: channelId,
+      });
+      expect(discord.createThread).not.toHaveBeenCalled();
+    });
+
+    it('should start a thread on a card that has none', async () => {
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([cardMessage('msg-card')]);
+      vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+
+      expect(await recoverMetadata(botToken, channelId, pr)).toEqual({
+        message_id: 'msg-card',
+        thread_id: 'thread-new',
+        channel_id: channelId,
+      });
+      expect(discord.createThread).toHaveBeenCalledWith(
+        botToken,
+        channelId,
+        'msg-card',
+        'PR #123: Test PR',
+        1440
+      );
+    });
+
+    it('should page back through the channel history', async () => {
+      const page = Array.from({ length: 100 }, (_, i) => botMessage(`msg-${i}`));
+      vi.mocked(discord.getChannelMessages)
+        .mockResolvedValueOnce(page)
+        .mockResolvedValueOnce([cardMessage('msg-card', { thread: { id: 't', name: 'n' } })]);
+
+      const recovered = await recoverMetadata(botToken, channelId, pr);
+
+      expect(recovered?.message_id).toBe('msg-card');
+      expect(discord.getChannelMessages).toHaveBeenLastCalledWith(botToken, channelId, {
+        before: 'msg-99',
+        limit: 100,
+      });
+    });
+
+    it('should find the card through an active thread', async () => {
+      vi.mocked(discord.getActiveThreads).mockResolvedValue([
+        { id: 'thread-other', name: 'PR #9: Other', parent_id: channelId },
+        { id: 'thread-card', name: 'PR #123: Test PR', parent_id: channelId },
+      ]);
+      vi.mocked(discord.getMessage).mockResolvedValue(cardMessage('thread-card'));
+
+      expect(await recoverMetadata(botToken, channelId, pr)).toEqual({
+        message_id: 'thread-card',
+        thread_id: 'thread-card',
+        channel_id: channelId,
+      });
+      expect(discord.getMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search archived threads page by page', async () => {
+      vi.mocked(discord.getArchivedThreads)
+        .mockResolvedValueOnce({
+          threads: [
+            {
+              id: 'thread-old',
+              name: 'PR #1: Old',
+              parent_id: channelId,
+              thread_metadata: {
+                archived: true,
+                locked: true,
+                archive_timestamp: '2024-01-01T00:00:00Z',
+              },
+            },
+          ],
+          has_more: true,
+        })
+        .mockResolvedValueOnce({
+          threads: [{ id: 'thread-card', name: 'PR #123: Test PR', parent_id: channelId }],
+          has_more: false,
+        });
+      vi.mocked(discord.getMessage).mockResolvedValue(cardMessage('thread-card'));
+
+      const recovered = await recoverMetadata(botToken, channelId, pr);
+
+      expect(recovered?.thread_id).toBe('thread-card');
+      expect(discord.getArchivedThreads).toHaveBeenLastCalledWith(
+        botToken,
+        channelId,
+        '2024-01-01T00:00:00Z'
+      );
+    });
+
+    it('should skip threads whose starter message is gone', async () => {
+      vi.mocked(discord.getActiveThreads).mockResolvedValue([
+        { id: 'thread-card', name: 'PR #123: Test PR', parent_id: channelId },
+      ]);
+      vi.mocked(discord.getMessage).mockRejectedValue(new Error('Unknown Message'));
+
+      expect(await recoverMetadata(botToken, channelId, pr)).toBeNull();
+    });
+  });
+
+  describe('resolveMetadata', () => {
+    const createContext = () => {
+      const context = createMockGitHubContext();
+      context.payload = { pull_request: pr, action: 'synchronize' };
+      return { ...context, config: { ...context.config, channelId } };
+    };
+
+    it('should return stored metadata without searching Discord', async () => {
+      const metadata = { message_id: 'msg-1', thread_id: 'thread-1', channel_id: channelId };
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(metadata);
+
+      expect(await resolveMetadata(createContext(), mockCore)).toEqual(metadata);
+      expect(discord.getChannelMessages).not.toHaveBeenCalled();
+    });
+
+    it('should save recovered metadata', async () => {
+      const context = createContext();
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.getChannelMessages).mockResolvedValue([
+        cardMessage('msg-card', { thread: { id: 'thread-card', name: 'PR #123: Test PR' } }),
+      ]);
+
+      const recovered = await resolveMetadata(context, mockCore);
+
+      const expected = { message_id: 'msg-card', thread_id: 'thread-card', channel_id: channelId };
+      expect(recovered).toEqual(expected);
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(context, 123, expected, mockCore);
+      expect(discord.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should post a new card when none is found', async () => {
+      const context = createContext();
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.sendMessage).mockResolvedValue({ id: 'msg-new' });
+      vi.mocked(discord.createThread).mockResolvedValue({ id: 'thread-new' });
+
+      const metadata = await resolveMetadata(context, mockCore);
+
+      expect(metadata).toEqual(
+        expect.objectContaining({
+          message_id: 'msg-new',
+          thread_id: 'thread-new',
+          channel_id: channelId,
+          card: expect.objectContaining({ number: 123, status: 'ready_for_review' }),
+        })
+      );
+      expect(discord.sendMessage).toHaveBeenCalledWith(botToken, channelId, expect.anything(), {});
+      expect(github.saveMetadataToPR).toHaveBeenCalledWith(context, 123, metadata, mockCore);
+    });
+
+    it('should not post a new card when creating missing cards is disabled', async () => {
+      const context = createContext();
+      context.config = { ...context.config, createMissingCards: false };
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+      expect(await resolveMetadata(context, mockCore)).toBeNull();
+      expect(discord.sendMessage).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'No Discord card found for PR #123 and creating missing cards is disabled'
+      );
+    });
+
+    it('should only post a new card for open PRs', async () => {
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      const context = createContext();
+      context.payload = { pull_request: { ...pr, state: 'closed' }, action: 'closed' };
+
+      expect(await resolveMetadata(context, mockCore)).toBeNull();
+      expect(discord.sendMessage).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'No Discord card found for PR #123, and it is no longer open'
+      );
+    });
+
+    it('should not post a new card when the search fails', async () => {
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+      vi.mocked(discord.getChannelMessages).mockRejectedValue(new Error('Missing Access'));
+
+      expect(await resolveMetadata(createContext(), mockCore)).toBeNull();
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to search Discord for the PR card: Missing Access'
+      );
+      expect(discord.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should give up without a channel to search', async () => {
+      const context = { ...createContext(), config: { channelId: undefined } };
+      vi.mocked(github.getMetadataFromPR).mockResolvedValue(null);
+
+      expect(await resolveMetadata(context, mockCore)).toBeNull();
+      expect(discord.getChannelMessages).not.toHaveBeenCalled();
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'No Discord channel is configured, so the Discord card cannot be recovered'
+      );
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRoute,
+  getCardChannel,
+} from '../../../.github/scripts/discord-pr-notifications/utils/routing';
+import { createMockHandlerContext } from '../../mocks/github';
+import type { GitHubPullRequest } from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('routing', () => {
+  const createPR = (base: string, labels: string[] = []) =>
+    ({
+      number: 123,
+      base: { ref: base },
+      labels: labels.map((name) => ({ name })),
+    }) as GitHubPullRequest;
+
+  const context = createMockHandlerContext({
+    channelId: 'default-channel',
+    routes: [
+      { channel: 'release-ui-channel', baseBranches: ['release/*'], labels: ['ui'] },
+      { channel: 'release-channel', baseBranches: ['release/*'] },
+      { channel: 'docs-channel', labels: ['Docs'] },
+    ],
+  });
+
+  describe('findRoute', () => {
+    it('should pick the first route whose conditions all match', () => {
+      expect(findRoute(context, createPR('release/1.0', ['ui']))?.channel).toBe(
+        'release-ui-channel'
+      );
+      expect(findRoute(context, createPR('release/1.0', ['docs']))?.channel).toBe(
+        'release-channel'
+      );
+    });
+
+    it('should match labels case-insensitively', () => {
+      expect(findRoute(context, createPR('main', ['docs']))?.channel).toBe('docs-channel');
+    });
+
+    it('should return nothing when no route matches', () => {
+      expect(findRoute(context, createPR('main', ['ui']))).toBeUndefined();
+    });
+  });
+
+  describe('getCardChannel', () => {
+    it("should use the route's channel", () => {
+      expect(getCardChannel(context, createPR('release/2.0'))).toBe('release-channel');
+    });
+
+    it('should fall back to the default channel', () => {
+      expect(getCardChannel(context, createPR('main'))).toBe('default-channel');
+      expect(getCardChannel(createMockHandlerContext(), createPR('main'))).toBeUndefined();
+    });
+  });
+});
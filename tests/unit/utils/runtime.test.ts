@@ -0,0 +1,21 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as github from '@actions/github';
+import { createHandlerContext } from '../../../.github/scripts/discord-pr-notifications/utils/runtime';
+
+describe('runtime', () => {
+  describe('createHandlerContext', () => {
+    it('should let environment variables override the config file', () => {
+      vi.mocked(github.getOctokit).mockReturnValue({ rest: {}, paginate: vi.fn() } as any);
+
+      const context = createHandlerContext(
+        'github-token',
+        { GITHUB_REPOSITORY: 'octo/repo', DISCORD_CHANNEL_ID: 'env-channel' },
+        {},
+        { channelId: 'file-channel', threadArchiveMinutes: 60 }
+      );
+
+      expect(context.repo).toEqual({ owner: 'octo', repo: 'repo' });
+      expect(context.config).toEqual({ channelId: 'env-channel', threadArchiveMinutes: 60 });
+    });
+  });
+});
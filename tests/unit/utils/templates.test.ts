@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TEMPLATES,
+  renderTemplate,
+  getTemplateError,
+} from '../../../.github/scripts/discord-pr-notifications/utils/templates';
+import { createMockGitHubContext } from '../../mocks/github';
+import type {
+  HandlerContext,
+  TemplateName,
+} from '../../../.github/scripts/discord-pr-notifications/types';
+
+describe('templates', () => {
+  function createContext(): HandlerContext {
+    const context = createMockGitHubContext();
+    context.payload = {
+      pull_request: {
+        number: 123,
+        title: 'Fix @everyone ping',
+        html_url: 'https://github.com/test/repo/pull/123',
+        body: '',
+        draft: false,
+        state: 'open',
+        user: { login: 'test-author', id: 1 },
+        base: { ref: 'main' },
+        head: { ref: 'feature' },
+      },
+      action: 'opened',
+    };
+    return context;
+  }
+
+  describe('renderTemplate', () => {
+    it('should render the default template', () => {
+      expect(
+        renderTemplate(createContext(), 'reviewer_requested', { reviewer: '@reviewer1' })
+      ).toBe(
+        ':bellhop: @reviewer1 - your review has been requested for [PR #123](https://github.com/test/repo/pull/123)'
+      );
+    });
+
+    it('should fill in the PR placeholders of a configured template', () => {
+      const context = createContext();
+      context.config = {
+        ...context.config,
+        templates: { ready: '{author}: #{number} "{title}" is ready at {url}' },
+        userMapping: { 'test-author': 'author-discord-id' },
+      };
+
+      expect(renderTemplate(context, 'ready')).toBe(
+        '<@author-discord-id>: #123 "Fix @\u200beveryone ping" is ready at https://github.com/test/repo/pull/123'
+      );
+    });
+
+    it('should fall back to the default for templates that are not configured', () => {
+      const context = createContext();
+      context.config = { ...context.config, templates: { ready: 'Ready!' } };
+
+      expect(renderTemplate(context, 'opened')).toBe(DEFAULT_TEMPLATES.opened);
+    });
+
+    it('should leave braces that are not placeholders alone', () => {
+      const context = createContext();
+      context.config = { ...context.config, templates: { ready: 'Ready {' } };
+
+      expect(renderTemplate(context, 'ready')).toBe('Ready {');
+    });
+  });
+
+  describe('getTemplateError', () => {
+    it('should accept overrides using supported placeholders', () => {
+      expect(
+        getTemplateError('merged', '{pr} merged into {base}\n{commit_message}')
+      ).toBeUndefined();
+    });
+
+    it('should accept every default template', () => {
+      for (const [name, template] of Object.entries(DEFAULT_TEMPLATES)) {
+        expect(getTemplateError(name as TemplateName, template)).toBeUndefined();
+      }
+    });
+
+    it("should reject placeholders the template doesn't support", () => {
+      expect(getTemplateError('ready', 'Ready, {reviewer}')).toBe(
+        'unknown placeholder {reviewer}, expected one of {pr}, {number}, {title}, {url}, {author}'
+      );
+    });
+  });
+});